@@ -1,35 +1,43 @@
-import React from 'react';
-import { BrowserRouter as Router, Routes, Route, Navigate } from 'react-router-dom';
-import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import { useEffect } from 'react';
+import { BrowserRouter as Router, Routes, Route } from 'react-router-dom';
+import { QueryClientProvider } from '@tanstack/react-query';
 import { Toaster } from './components/ui/toaster';
 import { ProtectedRoute } from './components/ProtectedRoute';
 import { Layout } from './components/Layout';
 import { Login } from './pages/Login';
+import { Dashboard } from './pages/Dashboard';
 import { AuthCallback } from './pages/AuthCallback';
 import { FixedExpenses } from './pages/FixedExpenses';
 import { RecurringIncomes } from './pages/RecurringIncomes';
+import { Categories } from './pages/Categories';
 import { ExpenseEntry } from './pages/ExpenseEntry';
 import { IncomeEntry } from './pages/IncomeEntry';
 import { Forecast } from './pages/Forecast';
 import { Timeline } from './pages/Timeline';
-
-// Initialize React Query client
-const queryClient = new QueryClient({
-  defaultOptions: {
-    queries: {
-      staleTime: 1000 * 60 * 5, // 5 minutes
-      cacheTime: 1000 * 60 * 10, // 10 minutes
-    },
-  },
-});
+import { Envelopes } from './pages/Envelopes';
+import { SavingsGoals } from './pages/SavingsGoals';
+import { Loans } from './pages/Loans';
+import { Accounts } from './pages/Accounts';
+import { queryClient } from './lib/queryClient';
+import { startHealthMonitor } from './store/health';
+import { startOutboxSync } from './store/outbox';
+import { startSessionManager } from './store/session';
 
 function App() {
+  // Surveille la disponibilité de l'API pendant toute la session
+  useEffect(() => startHealthMonitor(queryClient), []);
+  // Rejoue les saisies faites hors ligne
+  useEffect(() => startOutboxSync(), []);
+  // Renouvelle la session avant expiration et la synchronise entre onglets
+  useEffect(() => startSessionManager(), []);
+  
   return (
     <QueryClientProvider client={queryClient}>
       <Router>
         <div className="min-h-screen bg-gray-50">
           <Routes>
             <Route path="/auth/login" element={<Login />} />
+            <Route path="/auth/callback" element={<AuthCallback />} />
             <Route
               path="/*"
               element={
@@ -38,13 +46,18 @@ function App() {
                 </ProtectedRoute>
               }
             >
-              <Route index element={<Navigate to="/" replace />} />
+              <Route index element={<Dashboard />} />
               <Route path="settings/fixed-expenses" element={<FixedExpenses />} />
               <Route path="settings/recurring-incomes" element={<RecurringIncomes />} />
+              <Route path="settings/categories" element={<Categories />} />
+              <Route path="settings/loans" element={<Loans />} />
+              <Route path="settings/savings-goals" element={<SavingsGoals />} />
+              <Route path="settings/accounts" element={<Accounts />} />
               <Route path="entry/expense" element={<ExpenseEntry />} />
               <Route path="entry/income" element={<IncomeEntry />} />
               <Route path="forecast" element={<Forecast />} />
               <Route path="timeline" element={<Timeline />} />
+              <Route path="envelopes" element={<Envelopes />} />
             </Route>
           </Routes>
         </div>
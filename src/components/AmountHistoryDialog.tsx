@@ -0,0 +1,212 @@
+import { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import dayjs from 'dayjs';
+import { CartesianGrid, Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { Plus, Trash2 } from 'lucide-react';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Loading } from './ui/loading';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from './ui/dialog';
+import { formatCurrency, formatDate, getCurrentDate, parseCurrency } from '../lib/utils';
+import { AmountRevision, FixedExpense, RecurringIncome } from '../types';
+
+const revisionSchema = z.object({
+  amount: z.string().min(1, 'Le montant est obligatoire'),
+  effectiveDate: z.string().min(1, "La date d'effet est obligatoire"),
+});
+
+type RevisionForm = z.infer<typeof revisionSchema>;
+
+interface AmountHistoryDialogProps {
+  item: FixedExpense | RecurringIncome | null;
+  onClose: () => void;
+  // Enregistre la nouvelle liste de révisions ; l'erreur éventuelle est affichée par la page
+  onSave: (amountRevisions: AmountRevision[]) => Promise<void>;
+}
+
+interface AmountPeriod {
+  from: string;
+  to?: string;
+  amountCts: number;
+  revision?: AmountRevision;
+}
+
+// Périodes successives : montant initial puis chaque révision jusqu'à la suivante
+const toPeriods = (item: FixedExpense | RecurringIncome): AmountPeriod[] => {
+  const periods: AmountPeriod[] = [
+    { from: item.startDate, amountCts: item.amountCts },
+    ...item.amountRevisions.map(revision => ({ from: revision.effectiveDate, amountCts: revision.amountCts, revision })),
+  ];
+  return periods.map((period, index) => ({
+    ...period,
+    to: index < periods.length - 1
+      ? dayjs(periods[index + 1].from).subtract(1, 'day').format('YYYY-MM-DD')
+      : item.endDate,
+  }));
+};
+
+// Historique des montants d'une charge ou d'un revenu récurrent, avec ajout et retrait de révisions
+export function AmountHistoryDialog({ item, onClose, onSave }: AmountHistoryDialogProps) {
+  const [saving, setSaving] = useState(false);
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+    reset,
+    setError,
+  } = useForm<RevisionForm>({
+    resolver: zodResolver(revisionSchema),
+    defaultValues: { amount: '', effectiveDate: getCurrentDate() },
+  });
+
+  const save = async (amountRevisions: AmountRevision[]) => {
+    setSaving(true);
+    try {
+      await onSave(amountRevisions);
+      return true;
+    } catch {
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const onSubmit = async (data: RevisionForm) => {
+    if (!item) return;
+    if (data.effectiveDate <= item.startDate) {
+      setError('effectiveDate', { message: 'La date doit être postérieure à la date de début' });
+      return;
+    }
+    if (item.endDate && data.effectiveDate > item.endDate) {
+      setError('effectiveDate', { message: 'La date doit être antérieure à la date de fin' });
+      return;
+    }
+
+    // Une révision à la même date remplace la précédente
+    const amountRevisions = [
+      ...item.amountRevisions.filter(revision => revision.effectiveDate !== data.effectiveDate),
+      { effectiveDate: data.effectiveDate, amountCts: parseCurrency(data.amount) },
+    ].sort((a, b) => a.effectiveDate.localeCompare(b.effectiveDate));
+
+    if (await save(amountRevisions)) {
+      reset({ amount: '', effectiveDate: getCurrentDate() });
+    }
+  };
+
+  const handleRemove = (removed: AmountRevision) => {
+    if (!item) return;
+    save(item.amountRevisions.filter(revision => revision.effectiveDate !== removed.effectiveDate));
+  };
+
+  const handleOpenChange = (open: boolean) => {
+    if (open) return;
+    reset({ amount: '', effectiveDate: getCurrentDate() });
+    onClose();
+  };
+
+  const periods = item ? toPeriods(item) : [];
+  // Dernier palier prolongé jusqu'à aujourd'hui (ou la fin) pour rester visible sur le graphique
+  const lastPeriod = periods[periods.length - 1];
+  const chartEnd = lastPeriod?.to ?? (getCurrentDate() > (lastPeriod?.from ?? '') ? getCurrentDate() : undefined);
+  const chartData = [
+    ...periods.map(period => ({ date: period.from, montant: period.amountCts })),
+    ...(lastPeriod && chartEnd && chartEnd > lastPeriod.from ? [{ date: chartEnd, montant: lastPeriod.amountCts }] : []),
+  ];
+
+  return (
+    <Dialog open={item !== null} onOpenChange={handleOpenChange}>
+      {item && (
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Historique des montants : {item.label}</DialogTitle>
+            <DialogDescription>
+              Chaque échéance utilise le montant en vigueur à sa date, les mois passés ne sont pas modifiés.
+            </DialogDescription>
+          </DialogHeader>
+
+          <ResponsiveContainer width="100%" height={160}>
+            <LineChart data={chartData} margin={{ top: 10, right: 20, left: 10, bottom: 5 }}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis dataKey="date" tickFormatter={(value) => dayjs(value).format('MM/YY')} />
+              <YAxis tickFormatter={(value) => `${(value / 100).toFixed(0)}€`} width={60} />
+              <Tooltip
+                labelFormatter={(value) => formatDate(value as string)}
+                formatter={(value) => [formatCurrency(value as number), 'Montant']}
+              />
+              <Line type="stepAfter" dataKey="montant" stroke="#2563EB" strokeWidth={2} />
+            </LineChart>
+          </ResponsiveContainer>
+
+          <ul className="divide-y divide-gray-200 text-sm">
+            {periods.map(period => (
+              <li key={period.from} className="flex items-center justify-between py-2">
+                <span>
+                  <span className="font-medium">{formatCurrency(period.amountCts)}</span>
+                  <span className="text-gray-600">
+                    {period.to
+                      ? ` du ${formatDate(period.from)} au ${formatDate(period.to)}`
+                      : ` depuis le ${formatDate(period.from)}`}
+                  </span>
+                </span>
+                {period.revision && (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => period.revision && handleRemove(period.revision)}
+                    disabled={saving}
+                    title="Retirer cette révision"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                )}
+              </li>
+            ))}
+          </ul>
+
+          <form onSubmit={handleSubmit(onSubmit)} className="grid grid-cols-1 sm:grid-cols-3 gap-4 items-start">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Nouveau montant (€) *
+              </label>
+              <Input
+                {...register('amount')}
+                type="text"
+                placeholder="1250.00"
+                className={errors.amount ? 'border-red-500' : ''}
+                lang="fr-FR"
+              />
+              {errors.amount && (
+                <p className="mt-1 text-sm text-red-600">{errors.amount.message}</p>
+              )}
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                À partir du *
+              </label>
+              <Input
+                {...register('effectiveDate')}
+                type="date"
+                className={errors.effectiveDate ? 'border-red-500' : ''}
+              />
+              {errors.effectiveDate && (
+                <p className="mt-1 text-sm text-red-600">{errors.effectiveDate.message}</p>
+              )}
+            </div>
+            <Button type="submit" className="sm:mt-6" disabled={saving}>
+              {saving ? <Loading size="sm" className="mr-2" /> : <Plus className="h-4 w-4 mr-2" />}
+              Ajouter
+            </Button>
+          </form>
+        </DialogContent>
+      )}
+    </Dialog>
+  );
+}
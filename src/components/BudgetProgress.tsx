@@ -0,0 +1,54 @@
+import { CategoryBudget } from '../lib/budget';
+import { formatCurrency } from '../lib/utils';
+import { MoneyCts } from '../types';
+
+interface BudgetProgressProps {
+  budget: CategoryBudget;
+  // Dépense en cours de saisie, affichée à la suite du dépensé
+  pendingCts?: MoneyCts;
+}
+
+const toPercent = (amountCts: MoneyCts, budgetCts: MoneyCts) =>
+  budgetCts > 0 ? Math.min((amountCts / budgetCts) * 100, 100) : 100;
+
+// Barre dépensé / budget, avec un repère au rythme attendu pour le jour du mois
+export function BudgetProgress({ budget, pendingCts = 0 }: BudgetProgressProps) {
+  const { budgetCts, carryOverCts, spentCts, paceRatio } = budget;
+  const totalCts = spentCts + pendingCts;
+  const isOver = totalCts > budgetCts;
+  const isAhead = !isOver && totalCts > budgetCts * paceRatio;
+  const barColor = isOver ? 'bg-red-500' : isAhead ? 'bg-orange-400' : 'bg-green-500';
+  const spentPercent = toPercent(spentCts, budgetCts);
+
+  return (
+    <div>
+      <div className="flex justify-between text-xs text-gray-600 mb-1">
+        <span>
+          {formatCurrency(totalCts)} / {formatCurrency(budgetCts)}
+          {carryOverCts > 0 && <span className="text-gray-400"> (dont {formatCurrency(carryOverCts)} reportés du mois précédent)</span>}
+        </span>
+        <span className={isOver ? 'text-red-600' : isAhead ? 'text-orange-600' : ''}>
+          {isOver
+            ? `Dépassé de ${formatCurrency(totalCts - budgetCts)}`
+            : `Reste ${formatCurrency(budgetCts - totalCts)}`}
+        </span>
+      </div>
+      <div className="relative h-2 rounded-full bg-gray-200 overflow-hidden">
+        <div className={`absolute inset-y-0 left-0 ${barColor}`} style={{ width: `${spentPercent}%` }} />
+        {pendingCts > 0 && (
+          <div
+            className={`absolute inset-y-0 ${barColor} opacity-50`}
+            style={{ left: `${spentPercent}%`, width: `${toPercent(totalCts, budgetCts) - spentPercent}%` }}
+          />
+        )}
+        {paceRatio > 0 && paceRatio < 1 && (
+          <div
+            className="absolute inset-y-0 w-0.5 bg-gray-700"
+            style={{ left: `${paceRatio * 100}%` }}
+            title="Rythme attendu à ce jour"
+          />
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,59 @@
+import React from 'react';
+import { useEffect } from 'react';
+import { WifiOff, Wifi, RefreshCw } from 'lucide-react';
+import { probeNow, useHealthStore } from '../store/health';
+
+// Durée d'affichage du bandeau "reconnecté"
+const RECONNECTED_BANNER_MS = 4000;
+
+export function ConnectionBanner() {
+  const { status, reconnectedAt } = useHealthStore();
+  const [showReconnected, setShowReconnected] = React.useState(false);
+  const [checking, setChecking] = React.useState(false);
+
+  useEffect(() => {
+    if (!reconnectedAt) return;
+    setShowReconnected(true);
+    const timeout = setTimeout(() => setShowReconnected(false), RECONNECTED_BANNER_MS);
+    return () => clearTimeout(timeout);
+  }, [reconnectedAt]);
+
+  const handleRetry = async () => {
+    setChecking(true);
+    await probeNow();
+    setChecking(false);
+  };
+
+  if (status === 'offline') {
+    return (
+      <div className="mb-4 flex items-center justify-between rounded-md border border-orange-200 bg-orange-50 px-4 py-3">
+        <div className="flex items-center text-sm text-orange-800">
+          <WifiOff className="h-4 w-4 mr-2 flex-shrink-0" />
+          <span>
+            <span className="font-medium">Connexion perdue.</span> Les données seront rechargées automatiquement dès le retour du serveur.
+          </span>
+        </div>
+        <button
+          onClick={handleRetry}
+          disabled={checking}
+          className="ml-4 flex items-center text-sm font-medium text-orange-800 hover:text-orange-900 disabled:opacity-50"
+        >
+          <RefreshCw className={`h-4 w-4 mr-1 ${checking ? 'animate-spin' : ''}`} />
+          Réessayer
+        </button>
+      </div>
+    );
+  }
+
+  if (showReconnected) {
+    return (
+      <div className="mb-4 flex items-center rounded-md border border-green-200 bg-green-50 px-4 py-3 text-sm text-green-800">
+        <Wifi className="h-4 w-4 mr-2 flex-shrink-0" />
+        <span className="font-medium">Reconnecté.</span>
+        <span className="ml-1">Les données sont à jour.</span>
+      </div>
+    );
+  }
+
+  return null;
+}
@@ -0,0 +1,119 @@
+import { useState } from 'react';
+import { Landmark, X } from 'lucide-react';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { EarlyRepayment, EarlyRepaymentMode, EarlyRepaymentSimulation } from '../lib/loans';
+import { formatCurrency, formatDate, parseCurrency } from '../lib/utils';
+import { Loan } from '../types';
+
+// Remboursement anticipé simulé sur un prêt
+export interface LoanEarlyRepayment extends EarlyRepayment {
+  loanId: string;
+}
+
+interface EarlyRepaymentCardProps {
+  loans: Loan[];
+  value: LoanEarlyRepayment | null;
+  simulation?: EarlyRepaymentSimulation;
+  onChange: (value: LoanEarlyRepayment | null) => void;
+}
+
+const selectClassName =
+  'w-full rounded-md border border-gray-300 bg-white px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+// Simulation d'un remboursement anticipé, reprise dans le prévisionnel et la projection
+export function EarlyRepaymentCard({ loans, value, simulation, onChange }: EarlyRepaymentCardProps) {
+  const [loanId, setLoanId] = useState(value?.loanId ?? loans[0]?.id ?? '');
+  const [dateISO, setDateISO] = useState(value?.dateISO ?? '');
+  const [amount, setAmount] = useState(value ? (value.amountCts / 100).toFixed(2) : '');
+  const [mode, setMode] = useState<EarlyRepaymentMode>(value?.mode ?? 'shorten');
+  const amountCts = amount.trim() ? parseCurrency(amount) : 0;
+  const isValid = loans.some(loan => loan.id === loanId) && dateISO !== '' && amountCts > 0;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle>Remboursement anticipé</CardTitle>
+            <CardDescription>
+              Le versement et les nouvelles mensualités sont pris en compte dans le prévisionnel et la projection
+            </CardDescription>
+          </div>
+          {value && (
+            <Button variant="outline" size="sm" onClick={() => onChange(null)}>
+              <X className="h-4 w-4 mr-2" />
+              Retirer
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Prêt</label>
+            <select className={selectClassName} value={loanId} onChange={(e) => setLoanId(e.target.value)}>
+              {loans.map(loan => (
+                <option key={loan.id} value={loan.id}>{loan.label}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Date</label>
+            <Input type="date" value={dateISO} onChange={(e) => setDateISO(e.target.value)} />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Montant (€)</label>
+            <Input value={amount} onChange={(e) => setAmount(e.target.value)} placeholder="10000.00" lang="fr-FR" />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Ensuite</label>
+            <select
+              className={selectClassName}
+              value={mode}
+              onChange={(e) => setMode(e.target.value as EarlyRepaymentMode)}
+            >
+              <option value="shorten">Réduire la durée</option>
+              <option value="lower">Réduire la mensualité</option>
+            </select>
+          </div>
+          <div className="flex items-end">
+            <Button
+              type="button"
+              disabled={!isValid}
+              onClick={() => onChange({ loanId, dateISO, amountCts, mode })}
+            >
+              <Landmark className="h-4 w-4 mr-2" />
+              Simuler
+            </Button>
+          </div>
+        </div>
+
+        {value && simulation && (
+          <dl className="mt-6 grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+            <div>
+              <dt className="text-gray-500">Intérêts économisés</dt>
+              <dd className="text-lg font-medium text-green-600">{formatCurrency(simulation.interestSavedCts)}</dd>
+            </div>
+            <div>
+              <dt className="text-gray-500">Mensualité</dt>
+              <dd className="text-lg font-medium text-gray-900">
+                {formatCurrency(simulation.instalmentAfterCts)}
+                <span className="text-xs text-gray-500"> au lieu de {formatCurrency(simulation.instalmentBeforeCts)}</span>
+              </dd>
+            </div>
+            <div>
+              <dt className="text-gray-500">Mensualités en moins</dt>
+              <dd className="text-lg font-medium text-gray-900">{simulation.monthsSaved}</dd>
+            </div>
+            <div>
+              <dt className="text-gray-500">Dernière échéance</dt>
+              <dd className="text-lg font-medium text-gray-900">{formatDate(simulation.endDateISO)}</dd>
+            </div>
+          </dl>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
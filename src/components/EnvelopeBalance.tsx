@@ -0,0 +1,34 @@
+import { useEnvelopeMonth } from '../hooks/queries';
+import { formatCurrency, getBalanceColor } from '../lib/utils';
+import { MoneyCts } from '../types';
+
+interface EnvelopeBalanceProps {
+  categoryId: string;
+  monthISO: string;
+  // Dépense en cours de saisie, retirée du disponible
+  pendingCts: MoneyCts;
+}
+
+// Disponible dans l'enveloppe de la catégorie, avant et après la dépense saisie
+export function EnvelopeBalance({ categoryId, monthISO, pendingCts }: EnvelopeBalanceProps) {
+  const { data: envelopeMonth } = useEnvelopeMonth(monthISO);
+  const envelope = envelopeMonth?.envelopes.find(item => item.category.id === categoryId);
+  if (!envelope) return null;
+
+  const afterCts = envelope.availableCts - pendingCts;
+
+  return (
+    <div className="text-xs text-gray-600">
+      <div className="flex justify-between">
+        <span>Enveloppe « {envelope.category.name} »</span>
+        <span className={getBalanceColor(envelope.availableCts)}>{formatCurrency(envelope.availableCts)} disponibles</span>
+      </div>
+      {pendingCts > 0 && (
+        <div className="flex justify-between">
+          <span>Après cette dépense</span>
+          <span className={afterCts < 0 ? 'text-red-600 font-medium' : 'text-gray-900'}>{formatCurrency(afterCts)}</span>
+        </div>
+      )}
+    </div>
+  );
+}
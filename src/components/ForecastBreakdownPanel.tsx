@@ -0,0 +1,91 @@
+import { useState } from 'react';
+import { ChevronDown, ChevronRight } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { formatCurrency, formatDate, getBalanceColor } from '../lib/utils';
+import { ForecastBreakdown } from '../lib/forecast';
+import { ForecastResult } from '../types';
+
+interface ForecastBreakdownPanelProps {
+  result: ForecastResult;
+  breakdown: ForecastBreakdown;
+}
+
+const BREAKDOWN_ROWS: Array<{ key: keyof ForecastBreakdown; label: string; isIncome: boolean }> = [
+  { key: 'realizedIncomesCts', label: 'Recettes réalisées', isIncome: true },
+  { key: 'realizedExpensesCts', label: 'Dépenses réalisées', isIncome: false },
+  { key: 'recurringRemainingCts', label: 'Revenus récurrents à venir', isIncome: true },
+  { key: 'fixedRemainingCts', label: 'Charges fixes à venir', isIncome: false },
+  { key: 'extrasIncomeCts', label: 'Recettes exceptionnelles', isIncome: true },
+  { key: 'extrasExpenseCts', label: 'Dépenses exceptionnelles', isIncome: false },
+];
+
+// Détail du prévisionnel : chaque composante se déplie sur les éléments qui la composent
+export function ForecastBreakdownPanel({ result, breakdown }: ForecastBreakdownPanelProps) {
+  const [expanded, setExpanded] = useState<keyof ForecastBreakdown | null>(null);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Détail du prévisionnel</CardTitle>
+        <CardDescription>
+          Dépliez une ligne pour voir les échéances et transactions prises en compte
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <ul className="divide-y divide-gray-200 text-sm">
+          {BREAKDOWN_ROWS.map(({ key, label, isIncome }) => {
+            const lines = breakdown[key];
+            const amountCts = result.components[key];
+            const detailCts = lines.reduce((sum, line) => sum + line.amountCts, 0);
+            const isOpen = expanded === key;
+            return (
+              <li key={key} className="py-2">
+                <button
+                  type="button"
+                  className="flex w-full items-center justify-between text-left"
+                  onClick={() => setExpanded(isOpen ? null : key)}
+                >
+                  <span className="flex items-center">
+                    {isOpen ? <ChevronDown className="h-4 w-4 mr-2" /> : <ChevronRight className="h-4 w-4 mr-2" />}
+                    {label}
+                    <span className="ml-2 text-gray-500">({lines.length})</span>
+                  </span>
+                  <span className={`font-medium ${isIncome ? 'text-green-600' : 'text-red-600'}`}>
+                    {isIncome ? '+' : '-'}{formatCurrency(amountCts)}
+                  </span>
+                </button>
+
+                {isOpen && (
+                  <div className="mt-2 ml-6 space-y-1">
+                    {lines.length === 0 && <p className="text-gray-500">Aucun élément</p>}
+                    {lines.map((line, index) => (
+                      <div key={`${line.label}-${line.dateISO ?? ''}-${index}`} className="flex justify-between text-gray-700">
+                        <span>
+                          <span className="text-gray-500 mr-2">{line.dateISO ? formatDate(line.dateISO) : 'Sans date'}</span>
+                          {line.label}
+                        </span>
+                        <span>{formatCurrency(line.amountCts)}</span>
+                      </div>
+                    ))}
+                    {detailCts !== amountCts && (
+                      <p className="text-amber-700">
+                        Le détail ci-dessus totalise {formatCurrency(detailCts)} : le serveur tient compte d'éléments
+                        absents de cet appareil.
+                      </p>
+                    )}
+                  </div>
+                )}
+              </li>
+            );
+          })}
+          <li className="flex justify-between py-2 font-medium">
+            <span>Solde prévisionnel</span>
+            <span className={getBalanceColor(result.projectedBalanceCts)}>
+              {formatCurrency(result.projectedBalanceCts)}
+            </span>
+          </li>
+        </ul>
+      </CardContent>
+    </Card>
+  );
+}
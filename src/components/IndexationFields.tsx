@@ -0,0 +1,104 @@
+import dayjs from 'dayjs';
+import { Input } from './ui/input';
+import { IndexationRule } from '../types';
+
+type IndexationErrors = Partial<Record<'ratePct' | 'amountCts' | 'anniversaryDate', { message?: string }>>;
+
+interface IndexationFieldsProps {
+  value?: IndexationRule;
+  onChange: (indexation: IndexationRule | undefined) => void;
+  // Date de début de l'élément, pour proposer la première date anniversaire
+  startDate?: string;
+  errors?: IndexationErrors;
+}
+
+const selectClassName =
+  'w-full rounded-md border border-gray-300 bg-white px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+// Règle d'indexation annuelle, partagée par les charges fixes et les revenus récurrents
+export function IndexationFields({ value, onChange, startDate, errors }: IndexationFieldsProps) {
+  const anniversaryDate =
+    value?.anniversaryDate ?? (startDate ? dayjs(startDate).add(1, 'year').format('YYYY-MM-DD') : '');
+
+  const handleKindChange = (kind: string) => {
+    if (kind === 'percent') {
+      onChange({ kind, ratePct: value?.kind === 'percent' ? value.ratePct : 2, anniversaryDate });
+    } else if (kind === 'amount') {
+      onChange({ kind, amountCts: value?.kind === 'amount' ? value.amountCts : 1000, anniversaryDate });
+    } else {
+      onChange(undefined);
+    }
+  };
+
+  return (
+    <div className="md:col-span-2 grid grid-cols-1 md:grid-cols-3 gap-4">
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">
+          Indexation annuelle
+        </label>
+        <select
+          className={selectClassName}
+          value={value?.kind ?? 'none'}
+          onChange={(e) => handleKindChange(e.target.value)}
+        >
+          <option value="none">Aucune</option>
+          <option value="percent">Pourcentage</option>
+          <option value="amount">Montant fixe</option>
+        </select>
+      </div>
+
+      {value?.kind === 'percent' && (
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            Taux (%) *
+          </label>
+          <Input
+            type="number"
+            step="0.01"
+            value={Number.isNaN(value.ratePct) ? '' : value.ratePct}
+            onChange={(e) => onChange({ ...value, ratePct: e.target.valueAsNumber })}
+            className={errors?.ratePct ? 'border-red-500' : ''}
+          />
+          {errors?.ratePct && (
+            <p className="mt-1 text-sm text-red-600">{errors.ratePct.message}</p>
+          )}
+        </div>
+      )}
+
+      {value?.kind === 'amount' && (
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            Variation par an (€) *
+          </label>
+          <Input
+            type="number"
+            step="0.01"
+            value={Number.isNaN(value.amountCts) ? '' : value.amountCts / 100}
+            onChange={(e) => onChange({ ...value, amountCts: Math.round(e.target.valueAsNumber * 100) })}
+            className={errors?.amountCts ? 'border-red-500' : ''}
+          />
+          {errors?.amountCts && (
+            <p className="mt-1 text-sm text-red-600">{errors.amountCts.message}</p>
+          )}
+        </div>
+      )}
+
+      {value && (
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            Première indexation le *
+          </label>
+          <Input
+            type="date"
+            value={value.anniversaryDate}
+            onChange={(e) => onChange({ ...value, anniversaryDate: e.target.value })}
+            className={errors?.anniversaryDate ? 'border-red-500' : ''}
+          />
+          {errors?.anniversaryDate && (
+            <p className="mt-1 text-sm text-red-600">{errors.anniversaryDate.message}</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,5 +1,4 @@
 import React from 'react';
-import { useEffect } from 'react';
 import { Outlet, NavLink, useNavigate } from 'react-router-dom';
 import { 
   LayoutDashboard, 
@@ -14,88 +13,133 @@ import {
   PiggyBank,
   Calculator,
   Menu,
-  X
+  X,
+  Tags,
+  Landmark,
+  Target,
+  Wallet,
+  Building2
 } from 'lucide-react';
 import { useAuthStore } from '../store/auth';
-import { forecastApi } from '../services/api';
+import { useSessionStore } from '../store/session';
+import { useEnvelopeMonth, useForecastWithFallback } from '../hooks/queries';
+import { usePreferencesStore } from '../store/preferences';
 import { Loading } from './ui/loading';
+import { ConnectionBanner } from './ConnectionBanner';
+import { SessionExpiryModal } from './SessionExpiryModal';
 import { useToast } from './ui/use-toast';
 import { formatCurrency, getCurrentMonth, getBalanceColor } from '../lib/utils';
+import { getExpectedExpensesCts, getExpectedIncomesCts } from '../lib/forecast';
+
+// Revenus du mois pas encore répartis entre les enveloppes
+function CurrentMonthToAllocate() {
+  const { data: envelopeMonth, isPending: loading } = useEnvelopeMonth(getCurrentMonth());
+
+  return (
+    <div className="flex justify-between text-sm font-medium pt-2 border-t border-gray-200">
+      <span>Reste à allouer</span>
+      {loading ? (
+        <Loading size="sm" />
+      ) : envelopeMonth ? (
+        <span className={getBalanceColor(envelopeMonth.toAllocateCts)}>
+          {formatCurrency(envelopeMonth.toAllocateCts)}
+        </span>
+      ) : (
+        <span className="text-gray-400">—</span>
+      )}
+    </div>
+  );
+}
+
+// Prévisionnel du mois en cours, dans la barre latérale et le menu mobile
+function CurrentMonthForecast() {
+  // Rafraîchi par les mutations qui l'invalident ; estimation locale quand l'API est injoignable
+  const { data: forecastData, isPending: loading, isEstimate } = useForecastWithFallback(getCurrentMonth());
+  const envelopeMode = usePreferencesStore((state) => state.envelopeMode);
+  
+  return (
+    <div className="bg-gray-50 rounded-lg p-3">
+      <div className="text-xs font-medium text-gray-500 uppercase tracking-wide">
+        Prévisionnel mois en cours
+      </div>
+      {isEstimate && (
+        <div className="mt-1 text-xs text-amber-700" title="Le serveur ne répond pas, valeurs calculées à partir des données locales">
+          Estimation hors ligne
+        </div>
+      )}
+      {!loading && !forecastData && (
+        <div className="mt-1 text-xs text-red-600">
+          Indisponible
+        </div>
+      )}
+      <div className="mt-2 space-y-2">
+        <div className="flex justify-between text-sm">
+          <span>Recettes prévues</span>
+          {loading ? (
+            <Loading size="sm" />
+          ) : forecastData ? (
+            <span className="text-green-600">
+              +{formatCurrency(getExpectedIncomesCts(forecastData))}
+            </span>
+          ) : (
+            <span className="text-gray-400">—</span>
+          )}
+        </div>
+        <div className="flex justify-between text-sm">
+          <span>Dépenses prévues</span>
+          {loading ? (
+            <Loading size="sm" />
+          ) : forecastData ? (
+            <span className="text-red-600">
+              -{formatCurrency(getExpectedExpensesCts(forecastData))}
+            </span>
+          ) : (
+            <span className="text-gray-400">—</span>
+          )}
+        </div>
+        <div className="flex justify-between text-sm font-medium pt-2 border-t border-gray-200">
+          <span>Solde prévisionnel</span>
+          {loading ? (
+            <Loading size="sm" />
+          ) : forecastData ? (
+            <span className={getBalanceColor(forecastData.projectedBalanceCts)}>
+              {formatCurrency(forecastData.projectedBalanceCts)}
+            </span>
+          ) : (
+            <span className="text-gray-400">—</span>
+          )}
+        </div>
+        {envelopeMode && <CurrentMonthToAllocate />}
+      </div>
+    </div>
+  );
+}
 
 export function Layout() {
   const navigate = useNavigate();
-  const { logout, user } = useAuthStore();
+  const { user } = useAuthStore();
+  const signOut = useSessionStore(state => state.signOut);
   const { toast } = useToast();
-  const [forecastData, setForecastData] = React.useState<any>(null);
-  const [loading, setLoading] = React.useState(true);
   const [mobileMenuOpen, setMobileMenuOpen] = React.useState(false);
-  const [refreshTrigger, setRefreshTrigger] = React.useState(0);
-  
-  // Load current month forecast
-  useEffect(() => {
-    const loadForecast = async () => {
-      try {
-        setLoading(true);
-        const data = await forecastApi.calculate({
-          month: getCurrentMonth(),
-          plannedExtras: [],
-        });
-        setForecastData(data);
-      } catch (error) {
-        console.error('Error loading forecast:', error);
-        // Use mock data as fallback
-        setForecastData({
-          projectedBalanceCts: 920000,
-          components: {
-            budgetBaseCts: 460000,
-            realizedExpensesCts: 0,
-            realizedIncomesCts: 0,
-            fixedRemainingCts: 0,
-            recurringRemainingCts: 460000,
-            extrasExpenseCts: 0,
-            extrasIncomeCts: 0,
-          }
-        });
-      } finally {
-        setLoading(false);
-      }
-    };
-    
-    loadForecast();
-  }, [refreshTrigger]);
-  
-  // Listen for transaction changes to refresh forecast
-  useEffect(() => {
-    const handleStorageChange = () => {
-      setRefreshTrigger(prev => prev + 1);
-    };
-    
-    // Listen for custom events from the budget store
-    window.addEventListener('budgetDataChanged', handleStorageChange);
-    
-    return () => {
-      window.removeEventListener('budgetDataChanged', handleStorageChange);
-    };
-  }, []);
-  
-  // Calculate forecast values
-  const components = forecastData?.components || {};
-  const expectedIncomesCts = (components.recurringRemainingCts || 0) + (components.extrasIncomeCts || 0);
-  const expectedExpensesCts = (components.fixedRemainingCts || 0) + (components.extrasExpenseCts || 0);
-  const projectedBalanceCts = forecastData?.projectedBalanceCts || 0;
   
-  const handleLogout = () => {
-    logout();
+  const handleLogout = async () => {
+    await signOut();
     navigate('/auth/login');
   };
   
   const navigation = [
+    { name: 'Tableau de bord', href: '/', icon: LayoutDashboard },
     { name: 'Prévisionnel', href: '/forecast', icon: TrendingUp },
     { name: 'Chronologie', href: '/timeline', icon: Calendar },
+    { name: 'Enveloppes', href: '/envelopes', icon: Wallet },
     { name: 'Saisie dépense', href: '/entry/expense', icon: Plus },
     { name: 'Saisie recette', href: '/entry/income', icon: Euro },
+    { name: 'Comptes', href: '/settings/accounts', icon: Building2 },
     { name: 'Charges fixes', href: '/settings/fixed-expenses', icon: CreditCard },
     { name: 'Revenus récurrents', href: '/settings/recurring-incomes', icon: PiggyBank },
+    { name: 'Prêts', href: '/settings/loans', icon: Landmark },
+    { name: 'Catégories', href: '/settings/categories', icon: Tags },
+    { name: "Objectifs d'épargne", href: '/settings/savings-goals', icon: Target },
   ];
   
   return (
@@ -118,43 +162,7 @@ export function Layout() {
           
           {/* Current month summary */}
           <div className="mt-6 px-4">
-            <div className="bg-gray-50 rounded-lg p-3">
-              <div className="text-xs font-medium text-gray-500 uppercase tracking-wide">
-                Prévisionnel mois en cours
-              </div>
-              <div className="mt-2 space-y-2">
-                <div className="flex justify-between text-sm">
-                  <span>Recettes prévues</span>
-                  {loading ? (
-                    <Loading size="sm" />
-                  ) : (
-                    <span className="text-green-600">
-                      +{formatCurrency(expectedIncomesCts)}
-                    </span>
-                  )}
-                </div>
-                <div className="flex justify-between text-sm">
-                  <span>Dépenses prévues</span>
-                  {loading ? (
-                    <Loading size="sm" />
-                  ) : (
-                    <span className="text-red-600">
-                      -{formatCurrency(expectedExpensesCts)}
-                    </span>
-                  )}
-                </div>
-                <div className="flex justify-between text-sm font-medium pt-2 border-t border-gray-200">
-                  <span>Solde prévisionnel</span>
-                  {loading ? (
-                    <Loading size="sm" />
-                  ) : (
-                    <span className={getBalanceColor(projectedBalanceCts)}>
-                      {formatCurrency(projectedBalanceCts)}
-                    </span>
-                  )}
-                </div>
-              </div>
-            </div>
+            <CurrentMonthForecast />
           </div>
           
           <div className="mt-6 flex-grow flex flex-col">
@@ -163,6 +171,7 @@ export function Layout() {
                 <NavLink
                   key={item.name}
                   to={item.href}
+                  end={item.href === '/'}
                   className={({ isActive }) =>
                     `group flex items-center px-2 py-2 text-sm font-medium rounded-md transition-colors ${
                       isActive
@@ -232,43 +241,7 @@ export function Layout() {
               
               {/* Current month summary */}
               <div className="mt-6 px-4">
-                <div className="bg-gray-50 rounded-lg p-3">
-                  <div className="text-xs font-medium text-gray-500 uppercase tracking-wide">
-                    Prévisionnel mois en cours
-                  </div>
-                  <div className="mt-2 space-y-2">
-                    <div className="flex justify-between text-sm">
-                      <span>Recettes prévues</span>
-                      {loading ? (
-                        <Loading size="sm" />
-                      ) : (
-                        <span className="text-green-600">
-                          +{formatCurrency(expectedIncomesCts)}
-                        </span>
-                      )}
-                    </div>
-                    <div className="flex justify-between text-sm">
-                      <span>Dépenses prévues</span>
-                      {loading ? (
-                        <Loading size="sm" />
-                      ) : (
-                        <span className="text-red-600">
-                          -{formatCurrency(expectedExpensesCts)}
-                        </span>
-                      )}
-                    </div>
-                    <div className="flex justify-between text-sm font-medium pt-2 border-t border-gray-200">
-                      <span>Solde prévisionnel</span>
-                      {loading ? (
-                        <Loading size="sm" />
-                      ) : (
-                        <span className={getBalanceColor(projectedBalanceCts)}>
-                          {formatCurrency(projectedBalanceCts)}
-                        </span>
-                      )}
-                    </div>
-                  </div>
-                </div>
+                <CurrentMonthForecast />
               </div>
               
               <nav className="mt-6 px-2 space-y-1">
@@ -276,6 +249,7 @@ export function Layout() {
                   <NavLink
                     key={item.name}
                     to={item.href}
+                    end={item.href === '/'}
                     onClick={() => setMobileMenuOpen(false)}
                     className={({ isActive }) =>
                       `group flex items-center px-2 py-2 text-sm font-medium rounded-md transition-colors ${
@@ -348,7 +322,9 @@ export function Layout() {
         <main className="flex-1 relative overflow-y-auto focus:outline-none">
           <div className="py-6">
             <div className="max-w-7xl mx-auto px-4 sm:px-6 md:px-8">
+              <ConnectionBanner />
               <Outlet />
+              <SessionExpiryModal />
             </div>
           </div>
         </main>
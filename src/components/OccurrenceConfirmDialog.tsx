@@ -0,0 +1,203 @@
+import { useEffect, useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Loading } from './ui/loading';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from './ui/dialog';
+import { formatCurrency, formatDate, parseCurrency } from '../lib/utils';
+import { MoneyCts, OccurrenceConfirmation } from '../types';
+
+const confirmationSchema = z.object({
+  transactionId: z.string(),
+  dateISO: z.string().min(1, 'La date est obligatoire'),
+  amount: z.string().min(1, 'Le montant est obligatoire'),
+});
+
+type ConfirmationForm = z.infer<typeof confirmationSchema>;
+
+export interface ConfirmedOccurrence {
+  label: string;
+  occurrenceDate: string;
+  // Date et montant attendus, proposés par défaut
+  dateISO: string;
+  amountCts: MoneyCts;
+  confirmation?: OccurrenceConfirmation;
+  isIncome: boolean;
+}
+
+// Dépense ou recette saisie à laquelle l'échéance peut être rapprochée
+interface Transaction {
+  id: string;
+  dateISO: string;
+  label: string;
+  amountCts: MoneyCts;
+}
+
+interface OccurrenceConfirmDialogProps {
+  occurrence: ConfirmedOccurrence | null;
+  transactions: Transaction[];
+  onClose: () => void;
+  // `null` annule la confirmation
+  onSave: (confirmation: OccurrenceConfirmation | null) => Promise<void>;
+}
+
+const selectClassName =
+  'w-full rounded-md border border-gray-300 bg-white px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+// Confirme qu'une échéance a bien été payée ou reçue, à sa date et pour son montant réels
+export function OccurrenceConfirmDialog({ occurrence, transactions, onClose, onSave }: OccurrenceConfirmDialogProps) {
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const {
+    register,
+    handleSubmit,
+    formState: { errors, isSubmitting },
+    reset,
+    setValue,
+    watch,
+  } = useForm<ConfirmationForm>({
+    resolver: zodResolver(confirmationSchema),
+  });
+  const transactionId = watch('transactionId');
+
+  useEffect(() => {
+    if (!occurrence) return;
+    const { confirmation } = occurrence;
+    setSaveError(null);
+    reset({
+      transactionId: confirmation?.transactionId ?? '',
+      dateISO: confirmation?.dateISO ?? occurrence.dateISO,
+      amount: ((confirmation?.amountCts ?? occurrence.amountCts) / 100).toFixed(2),
+    });
+  }, [occurrence, reset]);
+
+  // Les plus proches du montant attendu en premier
+  const sortedTransactions = occurrence
+    ? [...transactions].sort(
+        (a, b) => Math.abs(a.amountCts - occurrence.amountCts) - Math.abs(b.amountCts - occurrence.amountCts)
+      )
+    : [];
+
+  const handleTransactionChange = (id: string) => {
+    setValue('transactionId', id);
+    const transaction = transactions.find(candidate => candidate.id === id);
+    if (transaction) {
+      setValue('dateISO', transaction.dateISO);
+      setValue('amount', (transaction.amountCts / 100).toFixed(2));
+    }
+  };
+
+  const save = async (confirmation: OccurrenceConfirmation | null) => {
+    try {
+      await onSave(confirmation);
+      onClose();
+    } catch (error) {
+      setSaveError(error instanceof Error ? error.message : "Impossible d'enregistrer la confirmation");
+    }
+  };
+
+  const onSubmit = (data: ConfirmationForm) => {
+    if (!occurrence) return;
+    return save({
+      occurrenceDate: occurrence.occurrenceDate,
+      dateISO: data.dateISO,
+      amountCts: parseCurrency(data.amount),
+      transactionId: data.transactionId || undefined,
+    });
+  };
+
+  const doneLabel = occurrence?.isIncome ? 'reçu' : 'payé';
+
+  return (
+    <Dialog open={occurrence !== null} onOpenChange={(open) => !open && onClose()}>
+      {occurrence && (
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{occurrence.label}</DialogTitle>
+            <DialogDescription>
+              Échéance prévue le {formatDate(occurrence.occurrenceDate)} pour {formatCurrency(occurrence.amountCts)}.
+              Indiquez la date et le montant réels s'ils diffèrent.
+            </DialogDescription>
+          </DialogHeader>
+
+          <form id="occurrence-confirm-form" onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                {occurrence.isIncome ? 'Recette correspondante' : 'Dépense correspondante'}
+              </label>
+              <select
+                className={selectClassName}
+                value={transactionId}
+                onChange={(e) => handleTransactionChange(e.target.value)}
+              >
+                <option value="">Aucune, saisie directe</option>
+                {sortedTransactions.map(transaction => (
+                  <option key={transaction.id} value={transaction.id}>
+                    {formatDate(transaction.dateISO)} · {transaction.label} · {formatCurrency(transaction.amountCts)}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Date réelle *
+                </label>
+                <Input
+                  {...register('dateISO')}
+                  type="date"
+                  readOnly={!!transactionId}
+                  className={`${errors.dateISO ? 'border-red-500' : ''} ${transactionId ? 'bg-gray-50' : ''}`}
+                />
+                {errors.dateISO && (
+                  <p className="mt-1 text-sm text-red-600">{errors.dateISO.message}</p>
+                )}
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Montant réel (€) *
+                </label>
+                <Input
+                  {...register('amount')}
+                  type="text"
+                  readOnly={!!transactionId}
+                  className={`${errors.amount ? 'border-red-500' : ''} ${transactionId ? 'bg-gray-50' : ''}`}
+                  lang="fr-FR"
+                />
+                {errors.amount && (
+                  <p className="mt-1 text-sm text-red-600">{errors.amount.message}</p>
+                )}
+              </div>
+            </div>
+
+            {saveError && <p className="text-sm text-red-600">{saveError}</p>}
+          </form>
+
+          <DialogFooter className="gap-2">
+            {occurrence.confirmation && (
+              <Button variant="outline" onClick={() => save(null)} disabled={isSubmitting} className="mr-auto">
+                Marquer comme non {doneLabel}
+              </Button>
+            )}
+            <Button variant="outline" onClick={onClose}>
+              Annuler
+            </Button>
+            <Button type="submit" form="occurrence-confirm-form" disabled={isSubmitting}>
+              {isSubmitting && <Loading size="sm" className="mr-2" />}
+              Marquer comme {doneLabel}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      )}
+    </Dialog>
+  );
+}
@@ -0,0 +1,172 @@
+import { useEffect, useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Loading } from './ui/loading';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from './ui/dialog';
+import { formatCurrency, formatDate, parseCurrency } from '../lib/utils';
+import { MoneyCts, OccurrenceException } from '../types';
+
+const exceptionSchema = z
+  .object({
+    kind: z.enum(['none', 'skip', 'move', 'override']),
+    dateISO: z.string().optional(),
+    amount: z.string().optional(),
+  })
+  .superRefine((data, ctx) => {
+    if (data.kind === 'move' && !data.dateISO) {
+      ctx.addIssue({ code: 'custom', path: ['dateISO'], message: 'La nouvelle date est obligatoire' });
+    }
+    if (data.kind === 'override' && !data.amount) {
+      ctx.addIssue({ code: 'custom', path: ['amount'], message: 'Le montant est obligatoire' });
+    }
+  });
+
+type ExceptionForm = z.infer<typeof exceptionSchema>;
+
+export interface EditedOccurrence {
+  label: string;
+  occurrenceDate: string;
+  // Montant prévu par la règle, hors exception
+  plannedAmountCts: MoneyCts;
+  exception?: OccurrenceException;
+}
+
+interface OccurrenceExceptionDialogProps {
+  occurrence: EditedOccurrence | null;
+  onClose: () => void;
+  // `null` rétablit l'échéance prévue
+  onSave: (exception: OccurrenceException | null) => Promise<void>;
+}
+
+const KIND_LABELS: Record<ExceptionForm['kind'], string> = {
+  none: 'Échéance normale',
+  skip: 'Ignorer cette échéance',
+  move: 'Déplacer à une autre date',
+  override: 'Montant exceptionnel',
+};
+
+// Ignorer, déplacer ou changer le montant d'une seule échéance d'un élément récurrent
+export function OccurrenceExceptionDialog({ occurrence, onClose, onSave }: OccurrenceExceptionDialogProps) {
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const {
+    register,
+    handleSubmit,
+    formState: { errors, isSubmitting },
+    reset,
+    watch,
+  } = useForm<ExceptionForm>({
+    resolver: zodResolver(exceptionSchema),
+  });
+  const kind = watch('kind');
+
+  useEffect(() => {
+    if (!occurrence) return;
+    const { exception } = occurrence;
+    setSaveError(null);
+    reset({
+      kind: exception?.kind ?? 'none',
+      dateISO: exception?.kind === 'move' ? exception.dateISO : occurrence.occurrenceDate,
+      amount: ((exception?.kind === 'override' ? exception.amountCts : occurrence.plannedAmountCts) / 100).toFixed(2),
+    });
+  }, [occurrence, reset]);
+
+  const onSubmit = async (data: ExceptionForm) => {
+    if (!occurrence) return;
+    const { occurrenceDate } = occurrence;
+    let exception: OccurrenceException | null = null;
+    if (data.kind === 'skip') {
+      exception = { occurrenceDate, kind: 'skip' };
+    } else if (data.kind === 'move' && data.dateISO !== occurrenceDate) {
+      exception = { occurrenceDate, kind: 'move', dateISO: data.dateISO! };
+    } else if (data.kind === 'override') {
+      exception = { occurrenceDate, kind: 'override', amountCts: parseCurrency(data.amount!) };
+    }
+
+    try {
+      await onSave(exception);
+      onClose();
+    } catch (error) {
+      setSaveError(error instanceof Error ? error.message : "Impossible d'enregistrer la modification");
+    }
+  };
+
+  return (
+    <Dialog open={occurrence !== null} onOpenChange={(open) => !open && onClose()}>
+      {occurrence && (
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{occurrence.label}</DialogTitle>
+            <DialogDescription>
+              Échéance prévue le {formatDate(occurrence.occurrenceDate)} pour{' '}
+              {formatCurrency(occurrence.plannedAmountCts)}. Les autres échéances ne sont pas modifiées.
+            </DialogDescription>
+          </DialogHeader>
+
+          <form id="occurrence-exception-form" onSubmit={handleSubmit(onSubmit)} className="space-y-3">
+            {(Object.keys(KIND_LABELS) as ExceptionForm['kind'][]).map(option => (
+              <label key={option} className="flex items-center text-sm text-gray-700">
+                <input {...register('kind')} type="radio" value={option} className="mr-2" />
+                {KIND_LABELS[option]}
+              </label>
+            ))}
+
+            {kind === 'move' && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Nouvelle date *
+                </label>
+                <Input
+                  {...register('dateISO')}
+                  type="date"
+                  className={errors.dateISO ? 'border-red-500' : ''}
+                />
+                {errors.dateISO && (
+                  <p className="mt-1 text-sm text-red-600">{errors.dateISO.message}</p>
+                )}
+              </div>
+            )}
+
+            {kind === 'override' && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Montant pour cette échéance (€) *
+                </label>
+                <Input
+                  {...register('amount')}
+                  type="text"
+                  className={errors.amount ? 'border-red-500' : ''}
+                  lang="fr-FR"
+                />
+                {errors.amount && (
+                  <p className="mt-1 text-sm text-red-600">{errors.amount.message}</p>
+                )}
+              </div>
+            )}
+
+            {saveError && <p className="text-sm text-red-600">{saveError}</p>}
+          </form>
+
+          <DialogFooter className="gap-2">
+            <Button variant="outline" onClick={onClose}>
+              Annuler
+            </Button>
+            <Button type="submit" form="occurrence-exception-form" disabled={isSubmitting}>
+              {isSubmitting && <Loading size="sm" className="mr-2" />}
+              Enregistrer
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      )}
+    </Dialog>
+  );
+}
@@ -12,7 +12,8 @@ export function ProtectedRoute({ children }: ProtectedRouteProps) {
   const location = useLocation();
   
   if (!isAuthenticated) {
-    return <Navigate to="/auth/login" replace />;
+    // Mémorise la route demandée pour y revenir après connexion
+    return <Navigate to="/auth/login" replace state={{ from: location }} />;
   }
   
   return <>{children}</>;
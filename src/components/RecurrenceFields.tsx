@@ -0,0 +1,138 @@
+import { FieldErrors } from 'react-hook-form';
+import { Input } from './ui/input';
+import { WEEKDAY_LABELS } from '../lib/recurrence';
+import { BusinessDayAdjustment, Recurrence, RecurrenceFrequency } from '../types';
+
+interface RecurrenceFieldsProps {
+  value: Recurrence;
+  onChange: (recurrence: Recurrence) => void;
+  errors?: FieldErrors<Recurrence>;
+}
+
+const selectClassName =
+  'w-full rounded-md border border-gray-300 bg-white px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+const INTERVAL_UNITS: Record<RecurrenceFrequency, string> = {
+  weekly: 'semaine(s)',
+  monthly: 'mois',
+  yearly: 'an(s)',
+};
+
+// Lundi en premier, comme dans un calendrier français
+const WEEKDAYS = [1, 2, 3, 4, 5, 6, 0];
+
+// Champs de la règle de récurrence, partagés par les charges fixes et les revenus récurrents
+export function RecurrenceFields({ value, onChange, errors }: RecurrenceFieldsProps) {
+  const update = (changes: Partial<Recurrence>) => onChange({ ...value, ...changes });
+
+  const handleFrequencyChange = (frequency: RecurrenceFrequency) => {
+    if (frequency === 'weekly') {
+      update({ frequency, byWeekday: value.byWeekday ?? 1, byMonthDay: undefined, lastDayOfMonth: undefined });
+    } else {
+      update({ frequency, byMonthDay: value.byMonthDay ?? 1, byWeekday: undefined });
+    }
+  };
+
+  return (
+    <>
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">
+          Fréquence *
+        </label>
+        <select
+          className={selectClassName}
+          value={value.frequency}
+          onChange={(e) => handleFrequencyChange(e.target.value as RecurrenceFrequency)}
+        >
+          <option value="weekly">Hebdomadaire</option>
+          <option value="monthly">Mensuelle</option>
+          <option value="yearly">Annuelle</option>
+        </select>
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">
+          Tous les *
+        </label>
+        <div className="flex items-center space-x-2">
+          <Input
+            type="number"
+            min="1"
+            value={Number.isNaN(value.interval) ? '' : value.interval}
+            onChange={(e) => update({ interval: e.target.valueAsNumber })}
+            className={errors?.interval ? 'border-red-500' : ''}
+          />
+          <span className="text-sm text-gray-600 whitespace-nowrap">{INTERVAL_UNITS[value.frequency]}</span>
+        </div>
+        {errors?.interval && (
+          <p className="mt-1 text-sm text-red-600">{errors.interval.message}</p>
+        )}
+      </div>
+
+      {value.frequency === 'weekly' ? (
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            Jour de la semaine *
+          </label>
+          <select
+            className={selectClassName}
+            value={value.byWeekday ?? 1}
+            onChange={(e) => update({ byWeekday: Number(e.target.value) })}
+          >
+            {WEEKDAYS.map(weekday => (
+              <option key={weekday} value={weekday}>
+                {WEEKDAY_LABELS[weekday].charAt(0).toUpperCase() + WEEKDAY_LABELS[weekday].slice(1)}
+              </option>
+            ))}
+          </select>
+        </div>
+      ) : (
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            Jour du mois *
+          </label>
+          <Input
+            type="number"
+            min="1"
+            max="31"
+            placeholder="1"
+            value={value.lastDayOfMonth || value.byMonthDay === undefined || Number.isNaN(value.byMonthDay) ? '' : value.byMonthDay}
+            onChange={(e) => update({ byMonthDay: e.target.value === '' ? undefined : e.target.valueAsNumber })}
+            disabled={value.lastDayOfMonth}
+            className={errors?.byMonthDay ? 'border-red-500' : ''}
+          />
+          <label className="mt-2 flex items-center text-sm text-gray-700">
+            <input
+              type="checkbox"
+              className="mr-2"
+              checked={value.lastDayOfMonth ?? false}
+              onChange={(e) => update({ lastDayOfMonth: e.target.checked || undefined })}
+            />
+            Dernier jour du mois
+          </label>
+          {errors?.byMonthDay && (
+            <p className="mt-1 text-sm text-red-600">{errors.byMonthDay.message}</p>
+          )}
+          {value.frequency === 'yearly' && (
+            <p className="mt-1 text-xs text-gray-500">Chaque année, le mois de la date de début</p>
+          )}
+        </div>
+      )}
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">
+          Échéance un week-end
+        </label>
+        <select
+          className={selectClassName}
+          value={value.businessDayAdjustment}
+          onChange={(e) => update({ businessDayAdjustment: e.target.value as BusinessDayAdjustment })}
+        >
+          <option value="none">Conserver la date</option>
+          <option value="previous">Jour ouvré précédent</option>
+          <option value="next">Jour ouvré suivant</option>
+        </select>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,34 @@
+import { SavingsPlan } from '../lib/savings';
+import { formatCurrency, formatDate } from '../lib/utils';
+
+interface SavingsGoalProgressProps {
+  plan: SavingsPlan;
+}
+
+// Avancement d'un objectif d'épargne et versement mensuel nécessaire
+export function SavingsGoalProgress({ plan }: SavingsGoalProgressProps) {
+  const { goal, monthsLeft, monthlyContributionCts, progressRatio, isReached, isLate, isUnfunded } = plan;
+  const barColor = isReached ? 'bg-green-500' : isLate || isUnfunded ? 'bg-red-500' : 'bg-blue-500';
+
+  return (
+    <div>
+      <div className="flex justify-between text-xs text-gray-600 mb-1">
+        <span>
+          {formatCurrency(goal.currentCts)} / {formatCurrency(goal.targetCts)} pour le {formatDate(goal.targetDateISO)}
+        </span>
+        <span>
+          {isReached
+            ? 'Objectif atteint'
+            : `${formatCurrency(monthlyContributionCts)} / mois${monthsLeft > 1 ? ` pendant ${monthsLeft} mois` : ''}`}
+        </span>
+      </div>
+      <div className="h-2 rounded-full bg-gray-200 overflow-hidden">
+        <div className={`h-full ${barColor}`} style={{ width: `${progressRatio * 100}%` }} />
+      </div>
+      {isLate && <p className="mt-1 text-xs text-red-600">Date cible dépassée : le reste est à verser ce mois-ci</p>}
+      {!isLate && isUnfunded && (
+        <p className="mt-1 text-xs text-red-600">Le solde prévisionnel du mois ne couvre pas ce versement</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,92 @@
+import { useEffect, useState } from 'react';
+import { Clock } from 'lucide-react';
+import { Button } from './ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from './ui/dialog';
+import { useAuthStore } from '../store/auth';
+import { useSessionStore } from '../store/session';
+
+const formatRemaining = (ms: number) => {
+  const seconds = Math.max(Math.ceil(ms / 1000), 0);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+// Avertit avant la fin de session et propose de la prolonger ou de se reconnecter
+export function SessionExpiryModal() {
+  const { status, extend, reconnect, signOut } = useSessionStore();
+  const { expiresAt } = useAuthStore();
+  const [now, setNow] = useState(Date.now());
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (status !== 'expiring') return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [status]);
+
+  const handleExtend = async () => {
+    setBusy(true);
+    setError(null);
+    try {
+      await extend();
+    } catch {
+      setError('Le service de connexion est injoignable, veuillez réessayer.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleReconnect = async () => {
+    setBusy(true);
+    try {
+      await reconnect();
+    } catch {
+      setError('Impossible de rejoindre la page de connexion.');
+      setBusy(false);
+    }
+  };
+
+  if (status === 'active') return null;
+
+  return (
+    <Dialog open>
+      <DialogContent hideClose onEscapeKeyDown={(e) => e.preventDefault()} onPointerDownOutside={(e) => e.preventDefault()}>
+        <DialogHeader>
+          <DialogTitle className="flex items-center">
+            <Clock className="h-5 w-5 mr-2 text-orange-500" />
+            {status === 'expiring' ? 'Votre session va expirer' : 'Session expirée'}
+          </DialogTitle>
+          <DialogDescription>
+            {status === 'expiring'
+              ? `Vous serez déconnecté dans ${formatRemaining((expiresAt ?? now) - now)}.`
+              : 'Reconnectez-vous pour continuer : les formulaires en cours de saisie seront restaurés.'}
+          </DialogDescription>
+        </DialogHeader>
+        {error && <p className="text-sm text-red-600">{error}</p>}
+        <DialogFooter className="gap-2">
+          {status === 'expiring' ? (
+            <>
+              <Button variant="outline" onClick={signOut} disabled={busy}>
+                Se déconnecter
+              </Button>
+              <Button onClick={handleExtend} disabled={busy}>
+                Rester connecté
+              </Button>
+            </>
+          ) : (
+            <Button onClick={handleReconnect} disabled={busy}>
+              Se reconnecter
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,28 @@
+import { ToastAction } from './ui/toast';
+import { toast } from './ui/use-toast';
+
+interface UndoToastActionProps {
+  onUndo: () => Promise<unknown>;
+}
+
+// Bouton "Annuler" des toasts de confirmation : rejoue l'opération inverse
+export function UndoToastAction({ onUndo }: UndoToastActionProps) {
+  const handleUndo = async () => {
+    try {
+      await onUndo();
+      toast({ title: 'Modification annulée' });
+    } catch (error) {
+      toast({
+        title: 'Erreur',
+        description: error instanceof Error ? error.message : "Impossible d'annuler la modification",
+        variant: 'destructive',
+      });
+    }
+  };
+
+  return (
+    <ToastAction altText="Annuler la modification" onClick={handleUndo}>
+      Annuler
+    </ToastAction>
+  );
+}
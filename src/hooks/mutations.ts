@@ -0,0 +1,455 @@
+import { QueryKey, useMutation, useQueryClient } from '@tanstack/react-query';
+import {
+  accountsApi,
+  AccountInput,
+  categoriesApi,
+  CategoryInput,
+  EnvelopeAllocationInput,
+  envelopesApi,
+  EnvelopeMoveInput,
+  ExpenseInput,
+  fixedExpensesApi,
+  FixedExpenseInput,
+  forecastApi,
+  ForecastScenarioInput,
+  IncomeInput,
+  loansApi,
+  LoanInput,
+  recurringIncomesApi,
+  RecurringIncomeInput,
+  savingsGoalsApi,
+  SavingsGoalInput,
+  transfersApi,
+  TransferInput,
+} from '../services/api';
+import { OutboxOperation } from '../services/outbox';
+import { useOutboxStore } from '../store/outbox';
+import {
+  createOptimistic,
+  deleteOptimistic,
+  OptimisticResource,
+  UndoableResult,
+  updateOptimistic,
+} from '../lib/optimistic';
+import { Account, Category, EnvelopeAllocation, EnvelopeMove, Expense, FixedExpense, ForecastScenario, Income, Loan, RecurringIncome, SavingsGoal, Transfer } from '../types';
+import { getLoanFixedExpense, LoanTerms } from '../lib/loans';
+import { queryKeys } from './queries';
+
+// Toute écriture sur une transaction fausse le résumé et le prévisionnel
+const derivedKeys: QueryKey[] = [queryKeys.summary, queryKeys.forecast];
+
+// Les listes mensuelles ont le mois en second élément de clé
+const inMonthList = (queryKey: QueryKey, item: { dateISO: string }) =>
+  queryKey[1] === item.dateISO.slice(0, 7);
+
+// Scénarios et enveloppes sont rangés par mois de rattachement
+const inMonthKey = (queryKey: QueryKey, item: { monthISO: string }) => queryKey[1] === item.monthISO;
+
+// Les transactions ponctuelles passent par la file d'envoi hors ligne
+const submitToOutbox = (operation: OutboxOperation) => useOutboxStore.getState().submit(operation);
+
+const categoriesResource: OptimisticResource<Category, CategoryInput> = {
+  queryKey: queryKeys.categories,
+  invalidates: [queryKeys.categories],
+  toItem: (id, { monthlyBudgetCts, ...input }) => ({ id, ...input, monthlyBudgetCts: monthlyBudgetCts ?? undefined }),
+  toInput: ({ name, color, order, monthlyBudgetCts, budgetRollover }) => ({
+    name,
+    color,
+    order,
+    monthlyBudgetCts: monthlyBudgetCts ?? null,
+    budgetRollover,
+  }),
+  api: categoriesApi,
+};
+
+// Charges fixes et revenus récurrents ont la même forme
+const recurringItemAdapter: Pick<OptimisticResource<FixedExpense, FixedExpenseInput>, 'toItem' | 'toInput'> = {
+  toItem: (
+    id,
+    { amountRevisions = [], indexation, occurrenceExceptions = [], occurrenceConfirmations = [], ...input }
+  ) => ({
+    id,
+    amountRevisions,
+    indexation: indexation ?? undefined,
+    occurrenceExceptions,
+    occurrenceConfirmations,
+    ...input,
+  }),
+  toInput: ({
+    label,
+    amountCts,
+    amountRevisions,
+    indexation,
+    recurrence,
+    occurrenceExceptions,
+    occurrenceConfirmations,
+    startDate,
+    endDate,
+    accountId,
+  }) => ({
+    label,
+    amountCts,
+    amountRevisions,
+    indexation: indexation ?? null,
+    recurrence,
+    occurrenceExceptions,
+    occurrenceConfirmations,
+    startDate,
+    endDate,
+    accountId,
+  }),
+};
+
+const fixedExpensesResource: OptimisticResource<FixedExpense, FixedExpenseInput> = {
+  queryKey: queryKeys.fixedExpenses,
+  invalidates: [queryKeys.fixedExpenses, ...derivedKeys],
+  ...recurringItemAdapter,
+  api: fixedExpensesApi,
+};
+
+const recurringIncomesResource: OptimisticResource<RecurringIncome, RecurringIncomeInput> = {
+  queryKey: queryKeys.recurringIncomes,
+  invalidates: [queryKeys.recurringIncomes, ...derivedKeys],
+  ...recurringItemAdapter,
+  api: recurringIncomesApi,
+};
+
+const expensesResource: OptimisticResource<Expense, ExpenseInput> = {
+  queryKey: queryKeys.expenses,
+  invalidates: [queryKeys.expenses, ...derivedKeys],
+  toItem: (id, { date, ...input }) => ({ id, dateISO: date, ...input }),
+  toInput: ({ dateISO, label, amountCts, categoryId, notes, accountId }) => ({
+    date: dateISO,
+    label,
+    amountCts,
+    categoryId,
+    notes,
+    accountId,
+  }),
+  belongsTo: inMonthList,
+  api: {
+    create: (payload) => submitToOutbox({ resource: 'expenses', action: 'create', payload }),
+    update: (targetId, payload) => submitToOutbox({ resource: 'expenses', action: 'update', targetId, payload }),
+    delete: (targetId) => submitToOutbox({ resource: 'expenses', action: 'delete', targetId }),
+  },
+};
+
+const incomesResource: OptimisticResource<Income, IncomeInput> = {
+  queryKey: queryKeys.incomes,
+  invalidates: [queryKeys.incomes, ...derivedKeys],
+  toItem: (id, { date, ...input }) => ({ id, dateISO: date, ...input }),
+  toInput: ({ dateISO, label, amountCts, notes, accountId }) => ({ date: dateISO, label, amountCts, notes, accountId }),
+  belongsTo: inMonthList,
+  api: {
+    create: (payload) => submitToOutbox({ resource: 'incomes', action: 'create', payload }),
+    update: (targetId, payload) => submitToOutbox({ resource: 'incomes', action: 'update', targetId, payload }),
+    delete: (targetId) => submitToOutbox({ resource: 'incomes', action: 'delete', targetId }),
+  },
+};
+
+const forecastScenariosResource: OptimisticResource<ForecastScenario, ForecastScenarioInput> = {
+  queryKey: queryKeys.forecastScenarios,
+  invalidates: [queryKeys.forecastScenarios],
+  toItem: (id, input) => ({ id, ...input }),
+  toInput: ({ monthISO, name, extras }) => ({ monthISO, name, extras }),
+  belongsTo: inMonthKey,
+  api: forecastApi.scenarios,
+};
+
+const envelopeAllocationsResource: OptimisticResource<EnvelopeAllocation, EnvelopeAllocationInput> = {
+  queryKey: queryKeys.envelopeAllocations,
+  invalidates: [queryKeys.envelopeAllocations],
+  toItem: (id, input) => ({ id, ...input }),
+  toInput: ({ monthISO, categoryId, amountCts }) => ({ monthISO, categoryId, amountCts }),
+  belongsTo: inMonthKey,
+  api: envelopesApi.allocations,
+};
+
+const envelopeMovesResource: OptimisticResource<EnvelopeMove, EnvelopeMoveInput> = {
+  queryKey: queryKeys.envelopeMoves,
+  invalidates: [queryKeys.envelopeMoves],
+  toItem: (id, input) => ({ id, ...input }),
+  toInput: ({ monthISO, dateISO, fromCategoryId, toCategoryId, amountCts, note }) => ({
+    monthISO,
+    dateISO,
+    fromCategoryId,
+    toCategoryId,
+    amountCts,
+    note,
+  }),
+  belongsTo: inMonthKey,
+  api: envelopesApi.moves,
+};
+
+const accountsResource: OptimisticResource<Account, AccountInput> = {
+  queryKey: queryKeys.accounts,
+  invalidates: [queryKeys.accounts],
+  toItem: (id, input) => ({ id, ...input }),
+  toInput: ({ name, type, cutoffDay, debitDay }) => ({ name, type, cutoffDay, debitDay }),
+  api: accountsApi,
+};
+
+// Un virement ne change que la répartition entre comptes, pas le résumé consolidé
+const transfersResource: OptimisticResource<Transfer, TransferInput> = {
+  queryKey: queryKeys.transfers,
+  invalidates: [queryKeys.transfers],
+  toItem: (id, input) => ({ id, ...input }),
+  toInput: ({ dateISO, fromAccountId, toAccountId, amountCts, label }) => ({
+    dateISO,
+    fromAccountId,
+    toAccountId,
+    amountCts,
+    label,
+  }),
+  belongsTo: inMonthList,
+  api: transfersApi,
+};
+
+const loansResource: OptimisticResource<Loan, LoanInput> = {
+  queryKey: queryKeys.loans,
+  invalidates: [queryKeys.loans],
+  toItem: (id, input) => ({ id, ...input }),
+  toInput: ({ label, principalCts, annualRatePct, durationMonths, monthlyInsuranceCts, startDate, fixedExpenseId }) => ({
+    label,
+    principalCts,
+    annualRatePct,
+    durationMonths,
+    monthlyInsuranceCts,
+    startDate,
+    fixedExpenseId,
+  }),
+  api: loansApi,
+};
+
+const savingsGoalsResource: OptimisticResource<SavingsGoal, SavingsGoalInput> = {
+  queryKey: queryKeys.savingsGoals,
+  invalidates: [queryKeys.savingsGoals],
+  toItem: (id, input) => ({ id, ...input }),
+  toInput: ({ name, targetCts, targetDateISO, currentCts }) => ({ name, targetCts, targetDateISO, currentCts }),
+  api: savingsGoalsApi,
+};
+
+/**
+ * Mutation appliquée immédiatement au cache, annulée si le serveur la refuse.
+ * Le résultat expose `undo` pour proposer l'annulation dans le toast.
+ */
+function useUndoableMutation<TVariables>(mutationFn: (variables: TVariables) => Promise<UndoableResult>) {
+  return useMutation({
+    mutationFn,
+    // Ne pas mettre en pause hors ligne : la mise à jour optimiste doit être visible tout de suite
+    // et les transactions ponctuelles ont leur propre file d'envoi
+    networkMode: 'always',
+  });
+}
+
+/**
+ * Mutations création / modification / suppression d'une ressource.
+ */
+function resourceMutations<TItem extends { id: string }, TInput>(resource: OptimisticResource<TItem, TInput>) {
+  return {
+    useAdd: () => useUndoableMutation((input: TInput) => createOptimistic(resource, input)),
+    useUpdate: () =>
+      useUndoableMutation(({ id, updates }: { id: string; updates: Partial<TInput> }) =>
+        updateOptimistic(resource, id, updates)
+      ),
+    useDelete: () => useUndoableMutation((id: string) => deleteOptimistic(resource, id)),
+  };
+}
+
+// Categories
+const categoryMutations = resourceMutations(categoriesResource);
+export const useAddCategory = categoryMutations.useAdd;
+export const useUpdateCategory = categoryMutations.useUpdate;
+export const useDeleteCategory = categoryMutations.useDelete;
+
+// Enregistre l'ordre des catégories ; seules celles qui changent de place sont modifiées
+export const useReorderCategories = () =>
+  useUndoableMutation(async (categories: Category[]): Promise<UndoableResult> => {
+    const results = await Promise.all(
+      categories
+        .map((category, order) => ({ category, order }))
+        .filter(({ category, order }) => category.order !== order)
+        .map(({ category, order }) => updateOptimistic(categoriesResource, category.id, { order }))
+    );
+    return {
+      undo: () => Promise.all(results.map((result) => result.undo())),
+      queued: false,
+    };
+  });
+
+/**
+ * Fusionne `sourceId` dans `targetId` : ses dépenses et enveloppes sont rattachées
+ * à la cible, puis elle est supprimée si tout a pu être déplacé. Sert aussi à la
+ * suppression d'une catégorie utilisée. Sans annulation : la fusion est définitive.
+ */
+export const useMergeCategories = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ sourceId, targetId }: { sourceId: string; targetId: string }) => {
+      const moved = await categoriesApi.reassign(sourceId, targetId);
+      await categoriesApi.delete(sourceId);
+      return { moved };
+    },
+    onSettled: () =>
+      Promise.all(
+        [queryKeys.categories, queryKeys.expenses, queryKeys.envelopeAllocations, queryKeys.envelopeMoves, ...derivedKeys].map((queryKey) =>
+          queryClient.invalidateQueries({ queryKey })
+        )
+      ),
+  });
+};
+
+// Fixed expenses
+const fixedExpenseMutations = resourceMutations(fixedExpensesResource);
+export const useAddFixedExpense = fixedExpenseMutations.useAdd;
+export const useUpdateFixedExpense = fixedExpenseMutations.useUpdate;
+export const useDeleteFixedExpense = fixedExpenseMutations.useDelete;
+
+// Recurring incomes
+const recurringIncomeMutations = resourceMutations(recurringIncomesResource);
+export const useAddRecurringIncome = recurringIncomeMutations.useAdd;
+export const useUpdateRecurringIncome = recurringIncomeMutations.useUpdate;
+export const useDeleteRecurringIncome = recurringIncomeMutations.useDelete;
+
+// Variable expenses
+const expenseMutations = resourceMutations(expensesResource);
+export const useAddExpense = expenseMutations.useAdd;
+export const useUpdateExpense = expenseMutations.useUpdate;
+export const useDeleteExpense = expenseMutations.useDelete;
+
+// One-time incomes
+const incomeMutations = resourceMutations(incomesResource);
+export const useAddIncome = incomeMutations.useAdd;
+export const useUpdateIncome = incomeMutations.useUpdate;
+export const useDeleteIncome = incomeMutations.useDelete;
+
+// Forecast scenarios
+const forecastScenarioMutations = resourceMutations(forecastScenariosResource);
+export const useAddForecastScenario = forecastScenarioMutations.useAdd;
+export const useUpdateForecastScenario = forecastScenarioMutations.useUpdate;
+export const useDeleteForecastScenario = forecastScenarioMutations.useDelete;
+
+// Envelope allocations
+const envelopeAllocationMutations = resourceMutations(envelopeAllocationsResource);
+export const useAddEnvelopeAllocation = envelopeAllocationMutations.useAdd;
+export const useUpdateEnvelopeAllocation = envelopeAllocationMutations.useUpdate;
+
+// Envelope moves
+const envelopeMoveMutations = resourceMutations(envelopeMovesResource);
+export const useAddEnvelopeMove = envelopeMoveMutations.useAdd;
+export const useDeleteEnvelopeMove = envelopeMoveMutations.useDelete;
+
+// Accounts
+const accountMutations = resourceMutations(accountsResource);
+export const useAddAccount = accountMutations.useAdd;
+export const useUpdateAccount = accountMutations.useUpdate;
+
+/**
+ * Supprime `sourceId` après avoir rattaché à `targetId` tout ce qui le référence,
+ * si tout a pu être déplacé. Sans annulation : un compte recréé changerait d'identifiant.
+ */
+export const useDeleteAccount = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ sourceId, targetId }: { sourceId: string; targetId: string }) => {
+      const moved = await accountsApi.reassign(sourceId, targetId);
+      await accountsApi.delete(sourceId);
+      return { moved };
+    },
+    onSettled: () =>
+      Promise.all(
+        [
+          queryKeys.accounts,
+          queryKeys.fixedExpenses,
+          queryKeys.recurringIncomes,
+          queryKeys.expenses,
+          queryKeys.incomes,
+          queryKeys.transfers,
+          ...derivedKeys,
+        ].map((queryKey) => queryClient.invalidateQueries({ queryKey }))
+      ),
+  });
+};
+
+// Transfers
+const transferMutations = resourceMutations(transfersResource);
+export const useAddTransfer = transferMutations.useAdd;
+export const useDeleteTransfer = transferMutations.useDelete;
+
+// Loans : chaque prêt est enregistré avec la charge fixe qui porte ses échéances
+export const useAddLoan = () =>
+  useUndoableMutation(async (terms: LoanTerms): Promise<UndoableResult> => {
+    const fixedExpense = await createOptimistic(fixedExpensesResource, getLoanFixedExpense(terms));
+    try {
+      const loan = await createOptimistic(loansResource, { ...terms, fixedExpenseId: fixedExpense.id });
+      return {
+        undo: async () => {
+          await loan.undo();
+          await fixedExpense.undo();
+        },
+        queued: false,
+      };
+    } catch (error) {
+      // Pas de charge orpheline si le prêt n'a pas pu être créé
+      await fixedExpense.undo();
+      throw error;
+    }
+  });
+
+// Régénère la charge fixe à partir des nouvelles conditions (recréée si elle manque)
+export const useUpdateLoan = () =>
+  useUndoableMutation(async ({ loan, terms }: { loan: Loan; terms: LoanTerms }): Promise<UndoableResult> => {
+    const fixedExpense: UndoableResult & { id?: string } = loan.fixedExpenseId
+      ? await updateOptimistic(fixedExpensesResource, loan.fixedExpenseId, getLoanFixedExpense(terms))
+      : await createOptimistic(fixedExpensesResource, getLoanFixedExpense(terms));
+    const fixedExpenseId = fixedExpense.id ?? loan.fixedExpenseId;
+    try {
+      const updated = await updateOptimistic(loansResource, loan.id, { ...terms, fixedExpenseId });
+      return {
+        undo: async () => {
+          await updated.undo();
+          await fixedExpense.undo();
+        },
+        queued: false,
+      };
+    } catch (error) {
+      // La charge fixe doit rester alignée sur les conditions du prêt
+      await fixedExpense.undo();
+      throw error;
+    }
+  });
+
+/**
+ * Supprime le prêt et sa charge fixe. L'annulation recrée la charge telle
+ * qu'elle était (confirmations comprises) puis le prêt qui la référence.
+ */
+export const useDeleteLoan = () =>
+  useUndoableMutation(
+    async ({ loan, fixedExpense }: { loan: Loan; fixedExpense?: FixedExpense }): Promise<UndoableResult> => {
+      await deleteOptimistic(loansResource, loan.id);
+      if (fixedExpense) {
+        try {
+          await deleteOptimistic(fixedExpensesResource, fixedExpense.id);
+        } catch (error) {
+          // Pas de charge orpheline : le prêt est recréé, toujours rattaché à sa charge
+          await createOptimistic(loansResource, loansResource.toInput(loan));
+          throw error;
+        }
+      }
+      return {
+        undo: async () => {
+          const restored = fixedExpense
+            ? await createOptimistic(fixedExpensesResource, fixedExpensesResource.toInput(fixedExpense))
+            : undefined;
+          await createOptimistic(loansResource, { ...loansResource.toInput(loan), fixedExpenseId: restored?.id });
+        },
+        queued: false,
+      };
+    }
+  );
+
+// Savings goals
+const savingsGoalMutations = resourceMutations(savingsGoalsResource);
+export const useAddSavingsGoal = savingsGoalMutations.useAdd;
+export const useUpdateSavingsGoal = savingsGoalMutations.useUpdate;
+export const useDeleteSavingsGoal = savingsGoalMutations.useDelete;
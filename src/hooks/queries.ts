@@ -0,0 +1,316 @@
+import { useEffect, useMemo } from 'react';
+import dayjs from 'dayjs';
+import { keepPreviousData, useQueries, useQuery } from '@tanstack/react-query';
+import {
+  accountsApi,
+  categoriesApi,
+  envelopesApi,
+  expensesApi,
+  fixedExpensesApi,
+  forecastApi,
+  incomesApi,
+  loansApi,
+  PlannedExtraInput,
+  recurringIncomesApi,
+  savingsGoalsApi,
+  summaryApi,
+  transfersApi,
+} from '../services/api';
+import { computeForecast, getForecastDivergences } from '../lib/forecast';
+import { getEnvelopeMonth } from '../lib/envelopes';
+import { getDefaultAccountId } from '../lib/accounts';
+import { deferCardPurchases, getCardPurchases, getCardStatements, isDeferredCard, withCardStatements } from '../lib/cards';
+import { useHealthStore } from '../store/health';
+import { Category, ForecastScenario } from '../types';
+
+/**
+ * Clés de cache React Query. Les préfixes (`queryKeys.expenses`...) servent
+ * à invalider toutes les variantes d'une ressource, quel que soit le mois.
+ */
+export const queryKeys = {
+  categories: ['categories'] as const,
+  accounts: ['accounts'] as const,
+  fixedExpenses: ['fixedExpenses'] as const,
+  recurringIncomes: ['recurringIncomes'] as const,
+  loans: ['loans'] as const,
+  savingsGoals: ['savingsGoals'] as const,
+  expenses: ['expenses'] as const,
+  expensesByMonth: (month: string) => [...queryKeys.expenses, month] as const,
+  incomes: ['incomes'] as const,
+  incomesByMonth: (month: string) => [...queryKeys.incomes, month] as const,
+  transfers: ['transfers'] as const,
+  transfersByMonth: (month: string) => [...queryKeys.transfers, month] as const,
+  summary: ['summary'] as const,
+  summaryByMonth: (month: string) => [...queryKeys.summary, month] as const,
+  summaryLastMonths: (months: number) => [...queryKeys.summary, 'last-months', months] as const,
+  forecast: ['forecast'] as const,
+  forecastByMonth: (month: string, extras: PlannedExtraInput[]) =>
+    [...queryKeys.forecast, month, extras] as const,
+  envelopeAllocations: ['envelopeAllocations'] as const,
+  envelopeAllocationsByMonth: (month: string) => [...queryKeys.envelopeAllocations, month] as const,
+  envelopeMoves: ['envelopeMoves'] as const,
+  envelopeMovesByMonth: (month: string) => [...queryKeys.envelopeMoves, month] as const,
+  forecastScenarios: ['forecastScenarios'] as const,
+  forecastScenariosByMonth: (month: string) => [...queryKeys.forecastScenarios, month] as const,
+};
+
+// Ordre choisi par l'utilisateur, puis alphabétique
+const byCategoryOrder = (a: Category, b: Category) =>
+  (a.order ?? Infinity) - (b.order ?? Infinity) || a.name.localeCompare(b.name);
+
+export function useCategories() {
+  return useQuery({
+    queryKey: queryKeys.categories,
+    queryFn: async () => (await categoriesApi.getAll()).items,
+    select: (categories) => [...categories].sort(byCategoryOrder),
+  });
+}
+
+export function useFixedExpenses() {
+  return useQuery({
+    queryKey: queryKeys.fixedExpenses,
+    queryFn: async () => (await fixedExpensesApi.getAll()).items,
+  });
+}
+
+export function useRecurringIncomes() {
+  return useQuery({
+    queryKey: queryKeys.recurringIncomes,
+    queryFn: async () => (await recurringIncomesApi.getAll()).items,
+  });
+}
+
+export function useAccounts() {
+  return useQuery({
+    queryKey: queryKeys.accounts,
+    queryFn: async () => (await accountsApi.getAll()).items,
+  });
+}
+
+export function useTransfers(month: string) {
+  return useQuery({
+    queryKey: queryKeys.transfersByMonth(month),
+    queryFn: async () => (await transfersApi.getByMonth(month)).items,
+  });
+}
+
+export function useLoans() {
+  return useQuery({
+    queryKey: queryKeys.loans,
+    queryFn: async () => (await loansApi.getAll()).items,
+  });
+}
+
+export function useSavingsGoals() {
+  return useQuery({
+    queryKey: queryKeys.savingsGoals,
+    queryFn: async () => (await savingsGoalsApi.getAll()).items,
+  });
+}
+
+export function useExpenses(month: string) {
+  return useQuery({
+    queryKey: queryKeys.expensesByMonth(month),
+    queryFn: async () => (await expensesApi.getByMonth(month)).items,
+  });
+}
+
+export function useIncomes(month: string) {
+  return useQuery({
+    queryKey: queryKeys.incomesByMonth(month),
+    queryFn: async () => (await incomesApi.getByMonth(month)).items,
+  });
+}
+
+export function useMonthSummary(month: string) {
+  return useQuery({
+    queryKey: queryKeys.summaryByMonth(month),
+    queryFn: () => summaryApi.getByMonth(month),
+  });
+}
+
+// Résumés des `months` derniers mois, mois en cours inclus
+export function useLastMonthsSummary(months: number) {
+  return useQuery({
+    queryKey: queryKeys.summaryLastMonths(months),
+    queryFn: async () => (await summaryApi.getLastMonths(months)).items,
+    enabled: months > 0,
+  });
+}
+
+const NO_EXTRAS: PlannedExtraInput[] = [];
+
+export function useForecast(month: string, plannedExtras: PlannedExtraInput[] = NO_EXTRAS) {
+  return useQuery({
+    queryKey: queryKeys.forecastByMonth(month, plannedExtras),
+    queryFn: () => forecastApi.calculate({ month, plannedExtras }),
+    // Garde l'ancien résultat affiché pendant le recalcul (ajout d'un extra, changement de mois)
+    placeholderData: keepPreviousData,
+  });
+}
+
+/**
+ * Relevés des cartes à débit différé prélevés dans le mois, avec les cartes
+ * concernées. Sans compte enregistré (ou si l'API des comptes échoue), aucune carte.
+ */
+export function useCardStatements(month: string) {
+  const accounts = useAccounts();
+  const previousMonth = dayjs(month).subtract(1, 'month');
+  const lastMonthExpenses = useExpenses(previousMonth.format('YYYY-MM'));
+  const olderExpenses = useExpenses(previousMonth.subtract(1, 'month').format('YYYY-MM'));
+
+  const data = useMemo(() => {
+    if (!accounts.data && !accounts.isError) return undefined;
+    const cards = (accounts.data ?? []).filter(isDeferredCard);
+    const defaultAccountId = getDefaultAccountId(accounts.data ?? []);
+    if (cards.length === 0) return { cards, defaultAccountId, statements: [] };
+    if (!lastMonthExpenses.data || !olderExpenses.data) return undefined;
+    const expenses = [...olderExpenses.data, ...lastMonthExpenses.data];
+    return { cards, defaultAccountId, statements: getCardStatements(cards, expenses, month, defaultAccountId) };
+  }, [month, accounts.data, accounts.isError, lastMonthExpenses.data, olderExpenses.data]);
+
+  return { data, isPending: data === undefined };
+}
+
+/**
+ * Prévisionnel du serveur, remplacé par une estimation calculée localement
+ * (`isEstimate`) quand l'API échoue. En développement, l'estimation est
+ * comparée au résultat du serveur pour repérer les écarts de calcul.
+ * Les achats par carte à débit différé sont reportés au mois de leur relevé.
+ */
+export function useForecastWithFallback(month: string, plannedExtras: PlannedExtraInput[] = NO_EXTRAS) {
+  const forecast = useForecast(month, plannedExtras);
+  const fixedExpenses = useFixedExpenses();
+  const recurringIncomes = useRecurringIncomes();
+  const expenses = useExpenses(month);
+  const incomes = useIncomes(month);
+  const { data: cardData } = useCardStatements(month);
+
+  const estimate = useMemo(
+    () =>
+      fixedExpenses.data && recurringIncomes.data && expenses.data && incomes.data && cardData
+        ? computeForecast(
+            withCardStatements(
+              {
+                monthISO: month,
+                fixedExpenses: fixedExpenses.data,
+                recurringIncomes: recurringIncomes.data,
+                expenses: expenses.data,
+                incomes: incomes.data,
+                plannedExtras,
+              },
+              cardData.cards,
+              cardData.statements,
+              cardData.defaultAccountId
+            )
+          )
+        : undefined,
+    [month, fixedExpenses.data, recurringIncomes.data, expenses.data, incomes.data, plannedExtras, cardData]
+  );
+
+  // Le serveur compte les achats par carte à leur date : corrigé dès que les relevés sont connus
+  const serverData = useMemo(
+    () =>
+      forecast.data && expenses.data && cardData
+        ? deferCardPurchases(
+            forecast.data,
+            getCardPurchases(expenses.data, cardData.cards, cardData.defaultAccountId),
+            cardData.statements
+          )
+        : forecast.data,
+    [forecast.data, expenses.data, cardData]
+  );
+
+  // Comparaison seulement une fois toutes les données à jour (pas pendant un recalcul)
+  const settled = !forecast.isFetching && !fixedExpenses.isFetching && !recurringIncomes.isFetching && !expenses.isFetching && !incomes.isFetching;
+  useEffect(() => {
+    if (!import.meta.env.DEV || !settled || !estimate || !serverData || forecast.isPlaceholderData) return;
+    const divergences = getForecastDivergences(estimate, serverData);
+    if (divergences.length > 0) {
+      console.warn(`Local forecast diverges from the server for ${month}:`, divergences, { estimate, server: serverData });
+    }
+  }, [settled, estimate, serverData, forecast.isPlaceholderData, month]);
+
+  // API hors ligne : les requêtes sont mises en pause et n'aboutissent jamais en erreur
+  const isOffline = useHealthStore((state) => state.status === 'offline');
+  const isUnavailable =
+    forecast.isError ||
+    ((forecast.fetchStatus === 'paused' || isOffline) && (!forecast.data || forecast.isPlaceholderData));
+  const isEstimate = isUnavailable && estimate !== undefined;
+  return {
+    data: isEstimate ? estimate : serverData,
+    isEstimate,
+    isPending: forecast.isPending && !isEstimate,
+    isFetching: forecast.isFetching,
+    error: forecast.error,
+  };
+}
+
+// Projection de chaque scénario pris seul, pour les comparer
+export function useScenarioForecasts(month: string, scenarios: ForecastScenario[]) {
+  return useQueries({
+    queries: scenarios.map((scenario) => {
+      const plannedExtras = scenario.extras.map(({ label, amountCts, dateISO, type }) => ({ label, amountCts, dateISO, type }));
+      return {
+        queryKey: queryKeys.forecastByMonth(month, plannedExtras),
+        queryFn: () => forecastApi.calculate({ month, plannedExtras }),
+      };
+    }),
+  });
+}
+
+export function useForecastScenarios(month: string) {
+  return useQuery({
+    queryKey: queryKeys.forecastScenariosByMonth(month),
+    queryFn: async () => (await forecastApi.scenarios.getByMonth(month)).items,
+  });
+}
+
+export function useEnvelopeAllocations(month: string) {
+  return useQuery({
+    queryKey: queryKeys.envelopeAllocationsByMonth(month),
+    queryFn: async () => (await envelopesApi.allocations.getByMonth(month)).items,
+  });
+}
+
+export function useEnvelopeMoves(month: string) {
+  return useQuery({
+    queryKey: queryKeys.envelopeMovesByMonth(month),
+    queryFn: async () => (await envelopesApi.moves.getByMonth(month)).items,
+  });
+}
+
+// Enveloppes du mois : alloué, virements, dépensé et reste à allouer
+export function useEnvelopeMonth(month: string) {
+  const queries = [
+    useCategories(),
+    useEnvelopeAllocations(month),
+    useEnvelopeMoves(month),
+    useExpenses(month),
+    useIncomes(month),
+    useRecurringIncomes(),
+  ] as const;
+  const [categories, allocations, moves, expenses, incomes, recurringIncomes] = queries;
+
+  const data = useMemo(
+    () =>
+      categories.data && allocations.data && moves.data && expenses.data && incomes.data && recurringIncomes.data
+        ? getEnvelopeMonth({
+            monthISO: month,
+            categories: categories.data,
+            allocations: allocations.data,
+            moves: moves.data,
+            expenses: expenses.data,
+            incomes: incomes.data,
+            recurringIncomes: recurringIncomes.data,
+          })
+        : undefined,
+    [month, categories.data, allocations.data, moves.data, expenses.data, incomes.data, recurringIncomes.data]
+  );
+
+  return {
+    data,
+    isPending: queries.some(query => query.isPending),
+    error: queries.find(query => query.error)?.error ?? null,
+  };
+}
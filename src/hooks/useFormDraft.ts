@@ -0,0 +1,24 @@
+import { useEffect, useRef } from 'react';
+import { registerDraft, takeDraft } from '../lib/drafts';
+
+/**
+ * Conserve la saisie d'un formulaire si la session expire : `values` est sauvegardé
+ * avant la redirection vers la connexion (`null` = rien à garder), puis `restore`
+ * est appelé au retour sur la page.
+ */
+export function useFormDraft<T>(key: string, values: T | null, restore: (draft: T) => void) {
+  const valuesRef = useRef(values);
+  const restoreRef = useRef(restore);
+
+  useEffect(() => {
+    valuesRef.current = values;
+    restoreRef.current = restore;
+  });
+
+  useEffect(() => registerDraft(key, () => valuesRef.current), [key]);
+
+  useEffect(() => {
+    const draft = takeDraft<T>(key);
+    if (draft) restoreRef.current(draft);
+  }, [key]);
+}
@@ -0,0 +1,59 @@
+import { ForecastLine, ForecastSources } from './forecast';
+import { Account, AccountType, Transfer } from '../types';
+
+export const ACCOUNT_TYPE_LABELS: Record<AccountType, string> = {
+  current: 'Compte courant',
+  savings: 'Épargne',
+  deferred_card: 'Carte à débit différé',
+  cash: 'Espèces',
+};
+
+// Compte des éléments saisis sans compte : le premier compte courant, à défaut le premier compte
+export const getDefaultAccountId = (accounts: Account[]): string | undefined =>
+  (accounts.find(account => account.type === 'current') ?? accounts[0])?.id;
+
+export const belongsToAccount = (
+  item: { accountId?: string },
+  accountId: string,
+  defaultAccountId: string | undefined
+): boolean => (item.accountId ?? defaultAccountId) === accountId;
+
+export const getAccountName = (accounts: Account[], accountId: string): string =>
+  accounts.find(account => account.id === accountId)?.name ?? 'Compte supprimé';
+
+// Sens d'un virement vu depuis un compte ; indéfini s'il ne le concerne pas
+export function getTransferDirection(transfer: Transfer, accountId: string): 'in' | 'out' | undefined {
+  if (transfer.toAccountId === accountId) return 'in';
+  if (transfer.fromAccountId === accountId) return 'out';
+  return undefined;
+}
+
+/**
+ * Sources du prévisionnel restreintes à un compte. Les virements deviennent des
+ * recettes ou des dépenses du compte ; les extras planifiés, qui n'ont pas de
+ * compte, sont rattachés au compte par défaut.
+ */
+export function getAccountForecastSources(
+  sources: ForecastSources,
+  transfers: Transfer[],
+  accountId: string,
+  defaultAccountId: string | undefined
+): ForecastSources {
+  const inAccount = (item: { accountId?: string }) => belongsToAccount(item, accountId, defaultAccountId);
+  const toLine = (transfer: Transfer): ForecastLine => ({
+    label: transfer.label ?? 'Virement',
+    dateISO: transfer.dateISO,
+    amountCts: transfer.amountCts,
+  });
+
+  return {
+    monthISO: sources.monthISO,
+    fixedExpenses: sources.fixedExpenses.filter(inAccount),
+    recurringIncomes: sources.recurringIncomes.filter(inAccount),
+    expenses: sources.expenses.filter(inAccount),
+    incomes: sources.incomes.filter(inAccount),
+    plannedExtras: accountId === defaultAccountId ? sources.plannedExtras : [],
+    transfersIn: transfers.filter(transfer => getTransferDirection(transfer, accountId) === 'in').map(toLine),
+    transfersOut: transfers.filter(transfer => getTransferDirection(transfer, accountId) === 'out').map(toLine),
+  };
+}
@@ -0,0 +1,66 @@
+import dayjs from 'dayjs';
+import { getCurrentDate } from './utils';
+import { Category, Expense, MoneyCts } from '../types';
+
+export interface CategoryBudget {
+  category: Category;
+  // Budget du mois, report du mois précédent compris
+  budgetCts: MoneyCts;
+  carryOverCts: MoneyCts;
+  spentCts: MoneyCts;
+  // Part du mois écoulée (0 à 1) : dépense attendue à ce stade pour tenir le budget
+  paceRatio: number;
+}
+
+// Part écoulée du mois : 1 pour un mois passé, 0 pour un mois à venir
+export function getMonthPace(monthISO: string, today: string = getCurrentDate()): number {
+  const month = dayjs(monthISO);
+  if (today < month.startOf('month').format('YYYY-MM-DD')) return 0;
+  if (today > month.endOf('month').format('YYYY-MM-DD')) return 1;
+  return dayjs(today).date() / month.daysInMonth();
+}
+
+const spentIn = (categoryId: string, expenses: Expense[], monthISO: string) =>
+  expenses
+    .filter(expense => expense.categoryId === categoryId && expense.dateISO.startsWith(monthISO))
+    .reduce((sum, expense) => sum + expense.amountCts, 0);
+
+/**
+ * Suivi du budget d'une catégorie pour `monthISO` ; `undefined` sans budget.
+ * Le report porte sur un seul mois : ce qui est resté du budget de base du mois
+ * précédent (jamais négatif), sans cumuler son propre report. Un mois précédent
+ * sans aucune dépense saisie n'était pas suivi et ne reporte rien.
+ */
+export function getCategoryBudget(
+  category: Category,
+  monthExpenses: Expense[],
+  previousMonthExpenses: Expense[],
+  monthISO: string,
+  today?: string
+): CategoryBudget | undefined {
+  if (category.monthlyBudgetCts === undefined) return undefined;
+
+  const previousMonth = dayjs(monthISO).subtract(1, 'month').format('YYYY-MM');
+  const tracked = previousMonthExpenses.some(expense => expense.dateISO.startsWith(previousMonth));
+  const carryOverCts = category.budgetRollover && tracked
+    ? Math.max(category.monthlyBudgetCts - spentIn(category.id, previousMonthExpenses, previousMonth), 0)
+    : 0;
+
+  return {
+    category,
+    budgetCts: category.monthlyBudgetCts + carryOverCts,
+    carryOverCts,
+    spentCts: spentIn(category.id, monthExpenses, monthISO),
+    paceRatio: getMonthPace(monthISO, today),
+  };
+}
+
+// Budgets de toutes les catégories qui en ont un, dans l'ordre des catégories
+export function getCategoryBudgets(
+  categories: Category[],
+  monthExpenses: Expense[],
+  previousMonthExpenses: Expense[],
+  monthISO: string
+): CategoryBudget[] {
+  return categories.flatMap(category => getCategoryBudget(category, monthExpenses, previousMonthExpenses, monthISO) ?? []);
+}
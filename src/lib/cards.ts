@@ -0,0 +1,132 @@
+import dayjs from 'dayjs';
+import { belongsToAccount } from './accounts';
+import { ForecastLine, ForecastSources, getExpectedExpensesCts, getExpectedIncomesCts } from './forecast';
+import { Account, Expense, ForecastResult, MoneyCts } from '../types';
+
+const ISO_DATE = 'YYYY-MM-DD';
+
+export type DeferredCard = Account & { cutoffDay: number; debitDay: number };
+
+// Relevé d'une carte à débit différé : les achats de la période, prélevés en une fois
+export interface CardStatement {
+  card: DeferredCard;
+  // Du lendemain de l'arrêté précédent au jour d'arrêté inclus
+  periodStartISO: string;
+  periodEndISO: string;
+  debitDateISO: string;
+  amountCts: MoneyCts;
+  expenses: Expense[];
+}
+
+export const isDeferredCard = (account: Account): account is DeferredCard =>
+  account.type === 'deferred_card' && account.cutoffDay !== undefined && account.debitDay !== undefined;
+
+// Jour du mois, ramené au dernier jour pour les mois plus courts
+const getDayOfMonth = (month: dayjs.Dayjs, day: number) =>
+  month.date(Math.min(day, month.daysInMonth())).format(ISO_DATE);
+
+// Jour d'arrêté du relevé couvrant un achat : celui du mois, ou du mois suivant passé l'arrêté
+export function getStatementCutoff(card: DeferredCard, dateISO: string): string {
+  const month = dayjs(dateISO).startOf('month');
+  const cutoffISO = getDayOfMonth(month, card.cutoffDay);
+  return dateISO <= cutoffISO ? cutoffISO : getDayOfMonth(month.add(1, 'month'), card.cutoffDay);
+}
+
+// Un relevé arrêté un mois est prélevé le mois suivant
+export const getStatementDebitDate = (card: DeferredCard, cutoffISO: string): string =>
+  getDayOfMonth(dayjs(cutoffISO).startOf('month').add(1, 'month'), card.debitDay);
+
+// Achats payés avec une carte à débit différé
+export const getCardPurchases = (expenses: Expense[], cards: DeferredCard[], defaultAccountId: string | undefined) =>
+  expenses.filter(expense => cards.some(card => belongsToAccount(expense, card.id, defaultAccountId)));
+
+/**
+ * Relevés prélevés dans le mois : arrêtés le mois précédent, ils couvrent des
+ * achats des deux mois précédents (`expenses` doit les contenir).
+ */
+export function getCardStatements(
+  cards: DeferredCard[],
+  expenses: Expense[],
+  monthISO: string,
+  defaultAccountId: string | undefined
+): CardStatement[] {
+  const previousMonth = dayjs(monthISO).startOf('month').subtract(1, 'month');
+
+  return cards.flatMap(card => {
+    const periodEndISO = getDayOfMonth(previousMonth, card.cutoffDay);
+    const periodStartISO = dayjs(getDayOfMonth(previousMonth.subtract(1, 'month'), card.cutoffDay))
+      .add(1, 'day')
+      .format(ISO_DATE);
+    const purchases = expenses
+      .filter(expense => belongsToAccount(expense, card.id, defaultAccountId))
+      .filter(expense => expense.dateISO >= periodStartISO && expense.dateISO <= periodEndISO)
+      .sort((a, b) => a.dateISO.localeCompare(b.dateISO));
+    if (purchases.length === 0) return [];
+
+    return [{
+      card,
+      periodStartISO,
+      periodEndISO,
+      debitDateISO: getStatementDebitDate(card, periodEndISO),
+      amountCts: purchases.reduce((sum, expense) => sum + expense.amountCts, 0),
+      expenses: purchases,
+    }];
+  });
+}
+
+export const getStatementLabel = (statement: CardStatement) => `Relevé ${statement.card.name}`;
+
+/**
+ * Sources du prévisionnel où les achats par carte à débit différé sont remplacés
+ * par les relevés prélevés dans le mois, comptés comme réalisés une fois leur date passée.
+ */
+export function withCardStatements(
+  sources: ForecastSources,
+  cards: DeferredCard[],
+  statements: CardStatement[],
+  defaultAccountId: string | undefined,
+  today: string = dayjs().format(ISO_DATE)
+): ForecastSources {
+  const purchaseIds = new Set(getCardPurchases(sources.expenses, cards, defaultAccountId).map(expense => expense.id));
+  const toLine = (statement: CardStatement): ForecastLine => ({
+    label: getStatementLabel(statement),
+    dateISO: statement.debitDateISO,
+    amountCts: statement.amountCts,
+  });
+
+  return {
+    ...sources,
+    expenses: sources.expenses.filter(expense => !purchaseIds.has(expense.id)),
+    cardDebits: statements.filter(statement => statement.debitDateISO <= today).map(toLine),
+    pendingCardDebits: statements.filter(statement => statement.debitDateISO > today).map(toLine),
+  };
+}
+
+/**
+ * Même correction appliquée à un prévisionnel déjà calculé (par le serveur),
+ * qui compte les achats par carte à leur date.
+ */
+export function deferCardPurchases(
+  result: ForecastResult,
+  purchases: Expense[],
+  statements: CardStatement[],
+  today: string = dayjs().format(ISO_DATE)
+): ForecastResult {
+  if (purchases.length === 0 && statements.length === 0) return result;
+  const sum = (items: Array<{ amountCts: MoneyCts }>) => items.reduce((total, item) => total + item.amountCts, 0);
+  const debitedCts = sum(statements.filter(statement => statement.debitDateISO <= today));
+  const pendingCts = sum(statements.filter(statement => statement.debitDateISO > today));
+
+  const realizedExpensesCts = result.components.realizedExpensesCts - sum(purchases) + debitedCts;
+  const components = {
+    ...result.components,
+    realizedExpensesCts,
+    budgetBaseCts: result.components.realizedIncomesCts - realizedExpensesCts,
+    fixedRemainingCts: result.components.fixedRemainingCts + pendingCts,
+  };
+
+  return {
+    projectedBalanceCts: components.budgetBaseCts + getExpectedIncomesCts({ components }) - getExpectedExpensesCts({ components }),
+    components,
+  };
+}
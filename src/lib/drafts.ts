@@ -0,0 +1,48 @@
+/**
+ * Brouillons de formulaires conservés pendant une reconnexion : chaque formulaire
+ * ouvert s'inscrit ici, et le gestionnaire de session les sauvegarde avant de
+ * quitter l'application pour la page de connexion.
+ */
+const STORAGE_KEY = 'form-drafts';
+
+// Lecture des valeurs courantes de chaque formulaire, `null` s'il n'y a rien à garder
+const providers = new Map<string, () => unknown>();
+
+const readAll = (): Record<string, unknown> => {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}');
+  } catch {
+    return {};
+  }
+};
+
+export const registerDraft = (key: string, provider: () => unknown) => {
+  providers.set(key, provider);
+  return () => {
+    if (providers.get(key) === provider) providers.delete(key);
+  };
+};
+
+// Sauvegarde les formulaires en cours de saisie
+export const saveDrafts = () => {
+  const drafts = readAll();
+  providers.forEach((provider, key) => {
+    const values = provider();
+    if (values !== null && values !== undefined) drafts[key] = values;
+  });
+  if (Object.keys(drafts).length > 0) {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(drafts));
+  }
+};
+
+// Récupère (et oublie) le brouillon d'un formulaire
+export const takeDraft = <T>(key: string): T | null => {
+  const drafts = readAll();
+  if (!(key in drafts)) return null;
+  const { [key]: draft, ...rest } = drafts;
+  if (Object.keys(rest).length > 0) localStorage.setItem(STORAGE_KEY, JSON.stringify(rest));
+  else localStorage.removeItem(STORAGE_KEY);
+  return draft as T;
+};
+
+export const clearDrafts = () => localStorage.removeItem(STORAGE_KEY);
@@ -0,0 +1,70 @@
+import { getMonthSchedule } from './recurrence';
+import { Category, EnvelopeAllocation, EnvelopeMove, Expense, Income, MoneyCts, RecurringIncome } from '../types';
+
+export interface Envelope {
+  category: Category;
+  allocatedCts: MoneyCts;
+  // Solde des virements reçus moins ceux envoyés
+  movedCts: MoneyCts;
+  spentCts: MoneyCts;
+  availableCts: MoneyCts;
+}
+
+export interface EnvelopeMonth {
+  monthISO: string;
+  // Revenus récurrents et recettes ponctuelles du mois
+  incomeCts: MoneyCts;
+  allocatedCts: MoneyCts;
+  toAllocateCts: MoneyCts;
+  envelopes: Envelope[];
+}
+
+export interface EnvelopeSources {
+  monthISO: string;
+  categories: Category[];
+  allocations: EnvelopeAllocation[];
+  moves: EnvelopeMove[];
+  expenses: Expense[];
+  incomes: Income[];
+  recurringIncomes: RecurringIncome[];
+}
+
+const sumAmounts = (items: Array<{ amountCts: MoneyCts }>) => items.reduce((sum, item) => sum + item.amountCts, 0);
+
+/**
+ * État des enveloppes d'un mois. Les enveloppes repartent de zéro chaque mois :
+ * seul le revenu du mois est à allouer, les virements ne changent pas le total.
+ */
+export function getEnvelopeMonth({
+  monthISO,
+  categories,
+  allocations,
+  moves,
+  expenses,
+  incomes,
+  recurringIncomes,
+}: EnvelopeSources): EnvelopeMonth {
+  const monthExpenses = expenses.filter(expense => expense.dateISO.startsWith(monthISO));
+  const monthAllocations = allocations.filter(allocation => allocation.monthISO === monthISO);
+  const monthMoves = moves.filter(move => move.monthISO === monthISO);
+
+  // Une échéance rapprochée d'une recette saisie est déjà comptée avec celle-ci
+  const recurringCts = sumAmounts(
+    recurringIncomes
+      .flatMap(item => getMonthSchedule(item, monthISO))
+      .filter(occurrence => !occurrence.confirmation?.transactionId)
+  );
+  const incomeCts = recurringCts + sumAmounts(incomes.filter(income => income.dateISO.startsWith(monthISO)));
+
+  const envelopes = categories.map(category => {
+    const allocatedCts = sumAmounts(monthAllocations.filter(allocation => allocation.categoryId === category.id));
+    const movedCts =
+      sumAmounts(monthMoves.filter(move => move.toCategoryId === category.id)) -
+      sumAmounts(monthMoves.filter(move => move.fromCategoryId === category.id));
+    const spentCts = sumAmounts(monthExpenses.filter(expense => expense.categoryId === category.id));
+    return { category, allocatedCts, movedCts, spentCts, availableCts: allocatedCts + movedCts - spentCts };
+  });
+  const allocatedCts = sumAmounts(monthAllocations);
+
+  return { monthISO, incomeCts, allocatedCts, toAllocateCts: incomeCts - allocatedCts, envelopes };
+}
@@ -0,0 +1,217 @@
+import dayjs from 'dayjs';
+import { getMonthSchedule, ScheduledItem } from './recurrence';
+import { PlannedExtraInput } from '../services/api';
+import {
+  Expense,
+  FixedExpense,
+  ForecastComponents,
+  ForecastResult,
+  Income,
+  MoneyCts,
+  MonthSummary,
+  PlannedExtra,
+  RecurringIncome,
+} from '../types';
+
+export const PROJECTION_HORIZONS = [3, 6, 12] as const;
+
+export type ProjectionHorizon = (typeof PROJECTION_HORIZONS)[number];
+
+export interface ProjectedMonth {
+  monthISO: string;
+  openingBalanceCts: MoneyCts;
+  incomesCts: MoneyCts;
+  expensesCts: MoneyCts;
+  closingBalanceCts: MoneyCts;
+}
+
+export interface CashFlowProjectionInput {
+  // Premier mois de la projection, dont le solde de fin est déjà connu
+  startMonth: string;
+  startBalanceCts: MoneyCts;
+  // Nombre de mois projetés, premier mois compris
+  months: number;
+  fixedExpenses: ScheduledItem[];
+  recurringIncomes: ScheduledItem[];
+  plannedExtras: Pick<PlannedExtra, 'amountCts' | 'dateISO' | 'type'>[];
+  averageVariableExpensesCts: MoneyCts;
+}
+
+const sumMonthSchedules = (items: ScheduledItem[], monthISO: string) =>
+  items
+    .flatMap(item => getMonthSchedule(item, monthISO))
+    .reduce((sum, occurrence) => sum + occurrence.amountCts, 0);
+
+// Éléments exceptionnels du mois ; ceux sans date sont rattachés au mois simulé
+export function getExtrasInMonth<T extends Pick<PlannedExtra, 'dateISO'>>(extras: T[], monthISO: string): T[] {
+  return extras.filter(extra => !extra.dateISO || extra.dateISO.startsWith(monthISO));
+}
+
+// Moyenne des dépenses variables des mois terminés avant `beforeMonth`
+export function getAverageVariableExpenses(summaries: MonthSummary[], beforeMonth: string): MoneyCts {
+  const past = summaries.filter(summary => summary.monthISO < beforeMonth);
+  if (past.length === 0) return 0;
+  return Math.round(past.reduce((sum, summary) => sum + summary.variableExpensesTotalCts, 0) / past.length);
+}
+
+/**
+ * Projection de trésorerie sur plusieurs mois : le solde de fin de chaque mois
+ * sert de base au suivant. Les mois suivants comptent les échéances récurrentes,
+ * les éléments exceptionnels datés et la moyenne des dépenses variables.
+ */
+export function projectCashFlow({
+  startMonth,
+  startBalanceCts,
+  months,
+  fixedExpenses,
+  recurringIncomes,
+  plannedExtras,
+  averageVariableExpensesCts,
+}: CashFlowProjectionInput): ProjectedMonth[] {
+  const projection: ProjectedMonth[] = [];
+  let balanceCts = startBalanceCts;
+
+  for (let index = 0; index < months; index++) {
+    const monthISO = dayjs(startMonth).add(index, 'month').format('YYYY-MM');
+    // Mois simulé : son solde de fin est fourni tel quel
+    if (index === 0) {
+      projection.push({ monthISO, openingBalanceCts: startBalanceCts, incomesCts: 0, expensesCts: 0, closingBalanceCts: startBalanceCts });
+      continue;
+    }
+
+    const extras = plannedExtras.filter(extra => extra.dateISO?.startsWith(monthISO));
+    const incomesCts =
+      sumMonthSchedules(recurringIncomes, monthISO) +
+      extras.filter(extra => extra.type === 'income').reduce((sum, extra) => sum + extra.amountCts, 0);
+    const expensesCts =
+      sumMonthSchedules(fixedExpenses, monthISO) +
+      averageVariableExpensesCts +
+      extras.filter(extra => extra.type === 'expense').reduce((sum, extra) => sum + extra.amountCts, 0);
+
+    const closingBalanceCts = balanceCts + incomesCts - expensesCts;
+    projection.push({ monthISO, openingBalanceCts: balanceCts, incomesCts, expensesCts, closingBalanceCts });
+    balanceCts = closingBalanceCts;
+  }
+
+  return projection;
+}
+
+export interface ForecastSources {
+  monthISO: string;
+  fixedExpenses: FixedExpense[];
+  recurringIncomes: RecurringIncome[];
+  // Transactions ponctuelles du mois
+  expenses: Expense[];
+  incomes: Income[];
+  plannedExtras: PlannedExtraInput[];
+  // Vue par compte : virements reçus et émis, neutres dans la vue consolidée
+  transfersIn?: ForecastLine[];
+  transfersOut?: ForecastLine[];
+  // Relevés des cartes à débit différé, déjà prélevés ou encore attendus ; leurs achats sont exclus de `expenses`
+  cardDebits?: ForecastLine[];
+  pendingCardDebits?: ForecastLine[];
+}
+
+// Élément contribuant à une composante du prévisionnel
+export interface ForecastLine {
+  label: string;
+  dateISO?: string;
+  amountCts: MoneyCts;
+}
+
+// Détail des composantes calculées par addition (la base en découle)
+export type ForecastBreakdown = Record<Exclude<keyof ForecastComponents, 'budgetBaseCts'>, ForecastLine[]>;
+
+const sumAmounts = (items: Array<{ amountCts: MoneyCts }>) => items.reduce((sum, item) => sum + item.amountCts, 0);
+
+const byDate = (a: ForecastLine, b: ForecastLine) => (a.dateISO ?? '\uffff').localeCompare(b.dateISO ?? '\uffff');
+
+// Échéances du mois réparties entre réalisées (confirmées) et restant attendues
+const splitSchedules = (items: Array<ScheduledItem & { label: string }>, monthISO: string) => {
+  const occurrences = items.flatMap(item =>
+    getMonthSchedule(item, monthISO).map(occurrence => ({ ...occurrence, label: item.label }))
+  );
+  const toLine = ({ label, dateISO, amountCts }: ForecastLine): ForecastLine => ({ label, dateISO, amountCts });
+  return {
+    // Une échéance rapprochée d'une transaction est déjà comptée avec celle-ci
+    realized: occurrences.filter(occurrence => occurrence.confirmation && !occurrence.confirmation.transactionId).map(toLine),
+    remaining: occurrences.filter(occurrence => !occurrence.confirmation).map(toLine),
+  };
+};
+
+// Éléments (échéances, transactions, extras) dont la somme donne chaque composante
+export function getForecastBreakdown({
+  monthISO,
+  fixedExpenses,
+  recurringIncomes,
+  expenses,
+  incomes,
+  plannedExtras,
+  transfersIn = [],
+  transfersOut = [],
+  cardDebits = [],
+  pendingCardDebits = [],
+}: ForecastSources): ForecastBreakdown {
+  const fixed = splitSchedules(fixedExpenses, monthISO);
+  const recurring = splitSchedules(recurringIncomes, monthISO);
+  const toLine = ({ label, dateISO, amountCts }: ForecastLine): ForecastLine => ({ label, dateISO, amountCts });
+
+  return {
+    realizedExpensesCts: [
+      ...expenses.filter(expense => expense.dateISO.startsWith(monthISO)).map(toLine),
+      ...fixed.realized,
+      ...transfersOut.map(toLine),
+      ...cardDebits.map(toLine),
+    ].sort(byDate),
+    realizedIncomesCts: [
+      ...incomes.filter(income => income.dateISO.startsWith(monthISO)).map(toLine),
+      ...recurring.realized,
+      ...transfersIn.map(toLine),
+    ].sort(byDate),
+    fixedRemainingCts: [...fixed.remaining, ...pendingCardDebits.map(toLine)].sort(byDate),
+    recurringRemainingCts: recurring.remaining.sort(byDate),
+    extrasExpenseCts: plannedExtras.filter(extra => extra.type === 'expense').map(toLine).sort(byDate),
+    extrasIncomeCts: plannedExtras.filter(extra => extra.type === 'income').map(toLine).sort(byDate),
+  };
+}
+
+/**
+ * Prévisionnel d'un mois calculé dans le navigateur, à partir des données en cache.
+ * Sert d'estimation quand l'API ne répond pas : le solde projeté est la base
+ * (réalisé du mois) plus ce qui reste attendu.
+ */
+export function computeForecast(sources: ForecastSources): ForecastResult {
+  const breakdown = getForecastBreakdown(sources);
+  const total = (key: keyof ForecastBreakdown) => sumAmounts(breakdown[key]);
+
+  const components: ForecastComponents = {
+    budgetBaseCts: total('realizedIncomesCts') - total('realizedExpensesCts'),
+    realizedExpensesCts: total('realizedExpensesCts'),
+    realizedIncomesCts: total('realizedIncomesCts'),
+    fixedRemainingCts: total('fixedRemainingCts'),
+    recurringRemainingCts: total('recurringRemainingCts'),
+    extrasExpenseCts: total('extrasExpenseCts'),
+    extrasIncomeCts: total('extrasIncomeCts'),
+  };
+
+  return {
+    projectedBalanceCts: components.budgetBaseCts + getExpectedIncomesCts({ components }) - getExpectedExpensesCts({ components }),
+    components,
+  };
+}
+
+// Recettes encore attendues ce mois-ci : revenus récurrents restants et extras
+export const getExpectedIncomesCts = ({ components }: Pick<ForecastResult, 'components'>): MoneyCts =>
+  components.recurringRemainingCts + components.extrasIncomeCts;
+
+// Dépenses encore attendues ce mois-ci : charges fixes restantes et extras
+export const getExpectedExpensesCts = ({ components }: Pick<ForecastResult, 'components'>): MoneyCts =>
+  components.fixedRemainingCts + components.extrasExpenseCts;
+
+// Composantes dont l'estimation locale s'écarte du calcul du serveur
+export function getForecastDivergences(estimate: ForecastResult, server: ForecastResult): string[] {
+  const divergences = (Object.keys(server.components) as Array<keyof ForecastComponents>).filter(
+    key => estimate.components[key] !== server.components[key]
+  );
+  return estimate.projectedBalanceCts === server.projectedBalanceCts ? divergences : [...divergences, 'projectedBalanceCts'];
+}
@@ -0,0 +1,49 @@
+const DB_NAME = 'finora';
+const DB_VERSION = 1;
+
+// Magasins d'objets de la base locale, indexés par `id`
+export const STORES = {
+  outbox: 'outbox',
+} as const;
+
+type StoreName = (typeof STORES)[keyof typeof STORES];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      Object.values(STORES).forEach((name) => {
+        if (!request.result.objectStoreNames.contains(name)) {
+          request.result.createObjectStore(name, { keyPath: 'id' });
+        }
+      });
+    };
+    dbPromise = promisify(request);
+  }
+  return dbPromise;
+};
+
+const withStore = async <T>(
+  name: StoreName,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDb();
+  return promisify(run(db.transaction(name, mode).objectStore(name)));
+};
+
+export const idbGetAll = <T>(name: StoreName) => withStore<T[]>(name, 'readonly', (store) => store.getAll());
+
+export const idbPut = <T>(name: StoreName, value: T) =>
+  withStore(name, 'readwrite', (store) => store.put(value));
+
+export const idbDelete = (name: StoreName, id: string) =>
+  withStore(name, 'readwrite', (store) => store.delete(id));
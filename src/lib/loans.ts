@@ -0,0 +1,151 @@
+import dayjs from 'dayjs';
+import { FixedExpenseInput } from '../services/api';
+import { Loan, MoneyCts } from '../types';
+
+// Conditions du prêt, seules utiles au calcul
+export type LoanTerms = Omit<Loan, 'id' | 'fixedExpenseId'>;
+
+export interface AmortizationRow {
+  // Numéro de l'échéance, à partir de 1
+  index: number;
+  dateISO: string;
+  interestCts: MoneyCts;
+  capitalCts: MoneyCts;
+  insuranceCts: MoneyCts;
+  // Montant prélevé : capital, intérêts et assurance
+  paymentCts: MoneyCts;
+  // Remboursement anticipé versé avant cette échéance
+  earlyRepaymentCts: MoneyCts;
+  // Capital restant dû après l'échéance
+  remainingCts: MoneyCts;
+}
+
+// Après un remboursement anticipé : durée raccourcie ou mensualité réduite
+export type EarlyRepaymentMode = 'shorten' | 'lower';
+
+export interface EarlyRepayment {
+  dateISO: string;
+  amountCts: MoneyCts;
+  mode: EarlyRepaymentMode;
+}
+
+export interface EarlyRepaymentSimulation {
+  schedule: AmortizationRow[];
+  interestSavedCts: MoneyCts;
+  monthsSaved: number;
+  // Mensualité (hors assurance) avant et après le remboursement
+  instalmentBeforeCts: MoneyCts;
+  instalmentAfterCts: MoneyCts;
+  endDateISO: string;
+}
+
+const monthlyRate = (annualRatePct: number) => annualRatePct / 100 / 12;
+
+// Mensualité constante (capital et intérêts) d'un prêt amortissable
+export function getMonthlyInstalment(principalCts: MoneyCts, annualRatePct: number, months: number): MoneyCts {
+  if (months <= 0) return principalCts;
+  const rate = monthlyRate(annualRatePct);
+  if (rate === 0) return Math.ceil(principalCts / months);
+  return Math.round((principalCts * rate) / (1 - Math.pow(1 + rate, -months)));
+}
+
+// Toujours compté depuis la première échéance pour ne pas dériver après un mois court
+const getPaymentDate = (loan: LoanTerms, index: number) => dayjs(loan.startDate).add(index, 'month').format('YYYY-MM-DD');
+
+/**
+ * Tableau d'amortissement : chaque mensualité paie les intérêts du capital restant
+ * dû, le reste rembourse le capital. La dernière échéance solde le reliquat d'arrondi.
+ * Un remboursement anticipé est versé avant la première échéance qui suit sa date.
+ */
+export function getAmortizationSchedule(loan: LoanTerms, earlyRepayment?: EarlyRepayment): AmortizationRow[] {
+  const rate = monthlyRate(loan.annualRatePct);
+  let instalmentCts = getMonthlyInstalment(loan.principalCts, loan.annualRatePct, loan.durationMonths);
+  let remainingCts = loan.principalCts;
+  let pendingRepayment = earlyRepayment;
+  const rows: AmortizationRow[] = [];
+
+  for (let index = 0; index < loan.durationMonths && remainingCts > 0; index++) {
+    const dateISO = getPaymentDate(loan, index);
+
+    let earlyRepaymentCts = 0;
+    if (pendingRepayment && pendingRepayment.dateISO < dateISO) {
+      earlyRepaymentCts = Math.min(pendingRepayment.amountCts, remainingCts);
+      remainingCts -= earlyRepaymentCts;
+      if (pendingRepayment.mode === 'lower') {
+        instalmentCts = getMonthlyInstalment(remainingCts, loan.annualRatePct, loan.durationMonths - index);
+      }
+      pendingRepayment = undefined;
+    }
+
+    const interestCts = Math.round(remainingCts * rate);
+    const isLast = index === loan.durationMonths - 1;
+    const capitalCts = isLast ? remainingCts : Math.min(Math.max(instalmentCts - interestCts, 0), remainingCts);
+    remainingCts -= capitalCts;
+    // Prêt soldé par anticipation : plus d'échéance ni d'assurance
+    const insuranceCts = capitalCts + interestCts > 0 ? loan.monthlyInsuranceCts : 0;
+
+    rows.push({
+      index: index + 1,
+      dateISO,
+      interestCts,
+      capitalCts,
+      insuranceCts,
+      paymentCts: interestCts + capitalCts + insuranceCts,
+      earlyRepaymentCts,
+      remainingCts,
+    });
+  }
+
+  return rows;
+}
+
+export const getTotalInterest = (schedule: AmortizationRow[]): MoneyCts =>
+  schedule.reduce((sum, row) => sum + row.interestCts, 0);
+
+// Échéances effectivement prélevées (un remboursement total laisse une ligne à zéro)
+const getPayments = (schedule: AmortizationRow[]) => schedule.filter(row => row.paymentCts > 0);
+
+// Compare le tableau d'origine à celui obtenu après un remboursement anticipé
+export function simulateEarlyRepayment(loan: LoanTerms, earlyRepayment: EarlyRepayment): EarlyRepaymentSimulation {
+  const baseline = getAmortizationSchedule(loan);
+  const schedule = getAmortizationSchedule(loan, earlyRepayment);
+  const firstAfter = schedule.find(row => row.dateISO > earlyRepayment.dateISO && row.paymentCts > 0);
+  const payments = getPayments(schedule);
+
+  return {
+    schedule,
+    interestSavedCts: getTotalInterest(baseline) - getTotalInterest(schedule),
+    monthsSaved: getPayments(baseline).length - payments.length,
+    instalmentBeforeCts: getMonthlyInstalment(loan.principalCts, loan.annualRatePct, loan.durationMonths),
+    instalmentAfterCts: firstAfter ? firstAfter.interestCts + firstAfter.capitalCts : 0,
+    endDateISO: payments[payments.length - 1]?.dateISO ?? earlyRepayment.dateISO,
+  };
+}
+
+/**
+ * Charge fixe portant les échéances du prêt : le montant suit le tableau
+ * d'amortissement, avec une révision à chaque changement de mensualité.
+ */
+export function getLoanFixedExpense(
+  loan: LoanTerms,
+  schedule: AmortizationRow[] = getAmortizationSchedule(loan)
+): Pick<FixedExpenseInput, 'label' | 'amountCts' | 'amountRevisions' | 'recurrence' | 'startDate' | 'endDate'> {
+  const payments = getPayments(schedule);
+  const amountRevisions = payments
+    .filter((row, index) => index > 0 && row.paymentCts !== payments[index - 1].paymentCts)
+    .map(row => ({ effectiveDate: row.dateISO, amountCts: row.paymentCts }));
+
+  return {
+    label: loan.label,
+    amountCts: payments[0]?.paymentCts ?? 0,
+    amountRevisions,
+    recurrence: {
+      frequency: 'monthly',
+      interval: 1,
+      byMonthDay: dayjs(loan.startDate).date(),
+      businessDayAdjustment: 'none',
+    },
+    startDate: loan.startDate,
+    endDate: payments[payments.length - 1]?.dateISO ?? loan.startDate,
+  };
+}
@@ -0,0 +1,142 @@
+import { QueryKey } from '@tanstack/react-query';
+import { v4 as uuidv4 } from 'uuid';
+import { queryClient } from './queryClient';
+
+/**
+ * Description d'une ressource dont les listes en cache peuvent être modifiées
+ * avant la réponse du serveur, puis restaurées en cas d'échec.
+ */
+export interface OptimisticResource<TItem extends { id: string }, TInput> {
+  // Préfixe des listes en cache (toutes les variantes, ex. tous les mois)
+  queryKey: QueryKey;
+  // Clés à rafraîchir une fois le serveur à jour
+  invalidates: QueryKey[];
+  toItem: (id: string, input: TInput) => TItem;
+  toInput: (item: TItem) => TInput;
+  // Filtre les listes concernées par un élément (par défaut : toutes)
+  belongsTo?: (queryKey: QueryKey, item: TItem) => boolean;
+  api: {
+    create: (input: TInput) => Promise<{ id?: string }>;
+    update: (id: string, updates: Partial<TInput>) => Promise<unknown>;
+    delete: (id: string) => Promise<unknown>;
+  };
+}
+
+export interface UndoableResult {
+  // Annule la modification (elle-même appliquée de façon optimiste)
+  undo: () => Promise<unknown>;
+  // Vrai si le serveur n'a pas encore reçu la modification (saisie hors ligne)
+  queued: boolean;
+}
+
+const isQueued = (result: unknown) =>
+  typeof result === 'object' && result !== null && 'queued' in result && result.queued === true;
+
+type Snapshot = Array<[QueryKey, unknown]>;
+
+async function applyToLists<TItem extends { id: string }, TInput>(
+  resource: OptimisticResource<TItem, TInput>,
+  transform: (items: TItem[], queryKey: QueryKey) => TItem[]
+): Promise<Snapshot> {
+  await queryClient.cancelQueries({ queryKey: resource.queryKey });
+  const snapshot = queryClient.getQueriesData<TItem[]>({ queryKey: resource.queryKey });
+  snapshot.forEach(([queryKey, items]) => {
+    if (items) queryClient.setQueryData(queryKey, transform(items, queryKey));
+  });
+  return snapshot;
+}
+
+const restore = (snapshot: Snapshot) =>
+  snapshot.forEach(([queryKey, data]) => queryClient.setQueryData(queryKey, data));
+
+const findCachedItem = <TItem extends { id: string }>(queryKey: QueryKey, id: string) =>
+  queryClient
+    .getQueriesData<TItem[]>({ queryKey })
+    .flatMap(([, items]) => items ?? [])
+    .find((item) => item.id === id);
+
+// Exécute l'appel serveur ; restaure le cache en cas d'erreur, rafraîchit dans tous les cas
+async function commit<TItem extends { id: string }, TInput, TResult>(
+  resource: OptimisticResource<TItem, TInput>,
+  snapshot: Snapshot,
+  call: () => Promise<TResult>
+): Promise<TResult> {
+  try {
+    return await call();
+  } catch (error) {
+    restore(snapshot);
+    throw error;
+  } finally {
+    resource.invalidates.forEach((queryKey) => queryClient.invalidateQueries({ queryKey }));
+  }
+}
+
+const belongs = <TItem extends { id: string }, TInput>(
+  resource: OptimisticResource<TItem, TInput>,
+  queryKey: QueryKey,
+  item: TItem
+) => resource.belongsTo?.(queryKey, item) ?? true;
+
+export async function createOptimistic<TItem extends { id: string }, TInput>(
+  resource: OptimisticResource<TItem, TInput>,
+  input: TInput
+): Promise<UndoableResult & { id: string }> {
+  const tempId = `optimistic-${uuidv4()}`;
+  const item = resource.toItem(tempId, input);
+  const snapshot = await applyToLists(resource, (items, queryKey) =>
+    belongs(resource, queryKey, item) ? [...items, item] : items
+  );
+
+  const result = await commit(resource, snapshot, () => resource.api.create(input));
+  const id = result.id ?? tempId;
+  // Remplace l'identifiant provisoire en attendant le rechargement
+  await applyToLists(resource, (items) => items.map((i) => (i.id === tempId ? { ...i, id } : i)));
+
+  return {
+    id,
+    undo: () => deleteOptimistic(resource, id),
+    queued: isQueued(result),
+  };
+}
+
+export async function updateOptimistic<TItem extends { id: string }, TInput>(
+  resource: OptimisticResource<TItem, TInput>,
+  id: string,
+  updates: Partial<TInput>
+): Promise<UndoableResult> {
+  const previous = findCachedItem<TItem>(resource.queryKey, id);
+  const updated = previous ? resource.toItem(id, { ...resource.toInput(previous), ...updates }) : undefined;
+  // Retire puis réinsère : l'élément peut changer de liste (ex. changement de mois)
+  const snapshot = await applyToLists(resource, (items, queryKey) => {
+    if (!updated) return items;
+    const others = items.filter((i) => i.id !== id);
+    return belongs(resource, queryKey, updated) ? [...others, updated] : others;
+  });
+
+  const result = await commit(resource, snapshot, () => resource.api.update(id, updates));
+
+  return {
+    undo: async () => {
+      if (previous) await updateOptimistic(resource, id, resource.toInput(previous));
+    },
+    queued: isQueued(result),
+  };
+}
+
+export async function deleteOptimistic<TItem extends { id: string }, TInput>(
+  resource: OptimisticResource<TItem, TInput>,
+  id: string
+): Promise<UndoableResult> {
+  const previous = findCachedItem<TItem>(resource.queryKey, id);
+  const snapshot = await applyToLists(resource, (items) => items.filter((i) => i.id !== id));
+
+  const result = await commit(resource, snapshot, () => resource.api.delete(id));
+
+  return {
+    // La restauration recrée l'élément (avec un nouvel identifiant côté serveur)
+    undo: async () => {
+      if (previous) await createOptimistic(resource, resource.toInput(previous));
+    },
+    queued: isQueued(result),
+  };
+}
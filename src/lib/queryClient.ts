@@ -0,0 +1,34 @@
+import { MutationCache, QueryCache, QueryClient } from '@tanstack/react-query';
+import { getBackoffDelay, isConnectivityError } from '../services/health';
+import { useHealthStore } from '../store/health';
+
+const MAX_RETRIES = 3;
+
+// Toute réponse ou panne réseau renseigne l'état de santé de l'API
+const trackHealth = {
+  onError: (error: Error) => {
+    if (isConnectivityError(error)) {
+      useHealthStore.getState().reportFailure();
+    }
+  },
+  onSuccess: () => {
+    if (useHealthStore.getState().status === 'offline') {
+      useHealthStore.getState().reportSuccess();
+    }
+  },
+};
+
+// Client React Query partagé (aussi utilisé hors composants pour invalider le cache)
+export const queryClient = new QueryClient({
+  queryCache: new QueryCache(trackHealth),
+  mutationCache: new MutationCache(trackHealth),
+  defaultOptions: {
+    queries: {
+      staleTime: 1000 * 60 * 5, // 5 minutes
+      gcTime: 1000 * 60 * 10, // 10 minutes
+      // Seules les pannes de connectivité valent la peine d'être retentées
+      retry: (failureCount, error) => isConnectivityError(error) && failureCount < MAX_RETRIES,
+      retryDelay: getBackoffDelay,
+    },
+  },
+});
@@ -0,0 +1,289 @@
+import dayjs from 'dayjs';
+import { z } from 'zod';
+import {
+  AmountRevision,
+  BusinessDayAdjustment,
+  IndexationRule,
+  MoneyCts,
+  OccurrenceConfirmation,
+  OccurrenceException,
+  Recurrence,
+} from '../types';
+
+const ISO_DATE = 'YYYY-MM-DD';
+
+export const WEEKDAY_LABELS = ['dimanche', 'lundi', 'mardi', 'mercredi', 'jeudi', 'vendredi', 'samedi'];
+
+const MONTH_LABELS = [
+  'janvier', 'février', 'mars', 'avril', 'mai', 'juin',
+  'juillet', 'août', 'septembre', 'octobre', 'novembre', 'décembre',
+];
+
+export const DEFAULT_RECURRENCE: Recurrence = {
+  frequency: 'monthly',
+  interval: 1,
+  byMonthDay: 1,
+  businessDayAdjustment: 'none',
+};
+
+export const recurrenceFormSchema = z
+  .object({
+    frequency: z.enum(['weekly', 'monthly', 'yearly']),
+    interval: z.number('Intervalle invalide').int('Intervalle invalide').min(1, "L'intervalle doit être d'au moins 1"),
+    byMonthDay: z
+      .number('Le jour doit être entre 1 et 31')
+      .int('Le jour doit être entre 1 et 31')
+      .min(1, 'Le jour doit être entre 1 et 31')
+      .max(31, 'Le jour doit être entre 1 et 31')
+      .optional(),
+    byWeekday: z.number().int().min(0).max(6).optional(),
+    lastDayOfMonth: z.boolean().optional(),
+    businessDayAdjustment: z.enum(['none', 'previous', 'next']),
+  })
+  .refine(
+    (recurrence) => recurrence.frequency === 'weekly' || recurrence.lastDayOfMonth || recurrence.byMonthDay !== undefined,
+    { message: 'Le jour est obligatoire', path: ['byMonthDay'] }
+  ) satisfies z.ZodType<Recurrence>;
+
+export const indexationFormSchema = z.discriminatedUnion('kind', [
+  z.object({
+    kind: z.literal('percent'),
+    ratePct: z.number('Taux invalide').min(-100, 'Taux invalide'),
+    anniversaryDate: z.string().min(1, "La date d'indexation est obligatoire"),
+  }),
+  z.object({
+    kind: z.literal('amount'),
+    amountCts: z.number('Montant invalide').int('Montant invalide'),
+    anniversaryDate: z.string().min(1, "La date d'indexation est obligatoire"),
+  }),
+]) satisfies z.ZodType<IndexationRule>;
+
+// Ce qu'il faut d'un élément récurrent pour en calculer les échéances
+interface Schedule {
+  recurrence: Recurrence;
+  startDate: string;
+  endDate?: string;
+}
+
+const isWeekend = (date: dayjs.Dayjs) => date.day() === 0 || date.day() === 6;
+
+// Les jours fériés ne sont pas pris en compte, seuls les week-ends décalent l'échéance
+const adjustToBusinessDay = (date: dayjs.Dayjs, adjustment: BusinessDayAdjustment) => {
+  if (adjustment === 'none') return date;
+  const step = adjustment === 'previous' ? -1 : 1;
+  let adjusted = date;
+  while (isWeekend(adjusted)) adjusted = adjusted.add(step, 'day');
+  return adjusted;
+};
+
+// Jour demandé dans le mois, ramené au dernier jour pour les mois trop courts
+const dayInMonth = (month: dayjs.Dayjs, recurrence: Recurrence, start: dayjs.Dayjs) => {
+  const daysInMonth = month.daysInMonth();
+  const day = recurrence.lastDayOfMonth ? daysInMonth : Math.min(recurrence.byMonthDay ?? start.date(), daysInMonth);
+  return month.date(day);
+};
+
+/**
+ * Échéances avant report de week-end autour de [from, to] : une période de marge
+ * de chaque côté, un report pouvant faire entrer ou sortir une échéance de l'intervalle.
+ */
+const nominalDates = ({ recurrence, startDate }: Schedule, from: dayjs.Dayjs, to: dayjs.Dayjs) => {
+  const start = dayjs(startDate);
+  const interval = Math.max(recurrence.interval, 1);
+  const dates: dayjs.Dayjs[] = [];
+
+  if (recurrence.frequency === 'weekly') {
+    const weekday = recurrence.byWeekday ?? start.day();
+    const first = start.add((weekday - start.day() + 7) % 7, 'day');
+    const step = 7 * interval;
+    const skipped = Math.max(Math.floor(from.subtract(1, 'week').diff(first, 'day') / step), 0);
+    for (let date = first.add(skipped * step, 'day'); !date.isAfter(to.add(1, 'week')); date = date.add(step, 'day')) {
+      dates.push(date);
+    }
+    return dates;
+  }
+
+  const step = recurrence.frequency === 'yearly' ? 12 * interval : interval;
+  const firstMonth = start.startOf('month');
+  const skipped = Math.max(Math.floor(from.startOf('month').subtract(1, 'month').diff(firstMonth, 'month') / step), 0);
+  for (let month = firstMonth.add(skipped * step, 'month'); !month.isAfter(to.add(1, 'month')); month = month.add(step, 'month')) {
+    dates.push(dayInMonth(month, recurrence, start));
+  }
+  return dates;
+};
+
+/**
+ * Dates (YYYY-MM-DD) des échéances comprises entre `from` et `to` inclus. La
+ * période de validité s'applique à la date prévue, avant report de week-end.
+ */
+export function getOccurrences(schedule: Schedule, from: string, to: string): string[] {
+  const fromDate = dayjs(from);
+  const toDate = dayjs(to);
+  const start = dayjs(schedule.startDate);
+  const end = schedule.endDate ? dayjs(schedule.endDate) : null;
+
+  return nominalDates(schedule, fromDate, toDate)
+    .filter(date => !date.isBefore(start, 'day') && (!end || !date.isAfter(end, 'day')))
+    .map(date => adjustToBusinessDay(date, schedule.recurrence.businessDayAdjustment))
+    .filter(date => !date.isBefore(fromDate, 'day') && !date.isAfter(toDate, 'day'))
+    .map(date => date.format(ISO_DATE));
+}
+
+export function getMonthOccurrences(schedule: Schedule, monthISO: string): string[] {
+  const month = dayjs(monthISO);
+  return getOccurrences(schedule, month.startOf('month').format(ISO_DATE), month.endOf('month').format(ISO_DATE));
+}
+
+
+// Élément récurrent dont le montant peut être révisé ou indexé dans le temps
+export interface ScheduledItem extends Schedule {
+  amountCts: MoneyCts;
+  amountRevisions: AmountRevision[];
+  indexation?: IndexationRule;
+  occurrenceExceptions: OccurrenceException[];
+  occurrenceConfirmations: OccurrenceConfirmation[];
+}
+
+export interface ScheduledOccurrence {
+  dateISO: string;
+  amountCts: MoneyCts;
+  // Date prévue par la règle, qui identifie l'échéance même déplacée
+  occurrenceDate: string;
+  exception?: OccurrenceException;
+  confirmation?: OccurrenceConfirmation;
+}
+
+// Dates anniversaires de l'indexation comprises dans ]after, until]
+const indexationDates = (rule: IndexationRule, after: string, until: string) => {
+  const first = dayjs(rule.anniversaryDate);
+  const dates: string[] = [];
+  // Toujours compté depuis la première date pour ne pas dériver après un 29 février
+  for (let years = Math.max(dayjs(after).diff(first, 'year'), 0); ; years++) {
+    const date = first.add(years, 'year').format(ISO_DATE);
+    if (date > until) return dates;
+    if (date > after) dates.push(date);
+  }
+};
+
+const applyIndexation = (amountCts: MoneyCts, rule: IndexationRule, count: number) => {
+  if (rule.kind === 'amount') return amountCts + count * rule.amountCts;
+  let indexed = amountCts;
+  for (let i = 0; i < count; i++) indexed = Math.round((indexed * (100 + rule.ratePct)) / 100);
+  return indexed;
+};
+
+/**
+ * Montant en vigueur à une date : dernière révision applicable (sinon le montant
+ * initial), indexé à chaque date anniversaire passée depuis cette révision.
+ */
+export function getAmountAt(item: ScheduledItem, dateISO: string): MoneyCts {
+  let amountCts = item.amountCts;
+  let changedOn = item.startDate;
+  item.amountRevisions.forEach(revision => {
+    if (revision.effectiveDate <= dateISO) {
+      amountCts = revision.amountCts;
+      changedOn = revision.effectiveDate;
+    }
+  });
+
+  if (!item.indexation) return amountCts;
+  return applyIndexation(amountCts, item.indexation, indexationDates(item.indexation, changedOn, dateISO).length);
+}
+
+// Prochaine indexation après `from` (aujourd'hui par défaut) et le montant qui en résulte
+export function getNextIndexation(
+  item: ScheduledItem,
+  from: string = dayjs().format(ISO_DATE)
+): Pick<ScheduledOccurrence, 'dateISO' | 'amountCts'> | undefined {
+  if (!item.indexation) return undefined;
+  const [dateISO] = indexationDates(item.indexation, from, dayjs(from).add(1, 'year').format(ISO_DATE));
+  if (!dateISO || (item.endDate && dateISO > item.endDate)) return undefined;
+  return { dateISO, amountCts: getAmountAt(item, dateISO) };
+}
+
+/**
+ * Échéances entre `from` et `to` inclus, exceptions et confirmations appliquées :
+ * une échéance ignorée est retirée, un montant remplacé est repris, et une
+ * échéance déplacée ou payée à une autre date est comptée à cette date.
+ */
+export function getSchedule(item: ScheduledItem, from: string, to: string): ScheduledOccurrence[] {
+  const exceptions = new Map(item.occurrenceExceptions.map(exception => [exception.occurrenceDate, exception]));
+  const confirmations = new Map(item.occurrenceConfirmations.map(confirmation => [confirmation.occurrenceDate, confirmation]));
+  const planned = getOccurrences(item, from, to);
+  // Échéances prévues hors de l'intervalle mais qui ont pu y être déplacées ou payées
+  const elsewhere = [...exceptions.keys(), ...confirmations.keys()].filter(date => date < from || date > to);
+
+  return [...new Set([...planned, ...elsewhere])]
+    .flatMap((occurrenceDate): ScheduledOccurrence[] => {
+      const exception = exceptions.get(occurrenceDate);
+      const confirmation = confirmations.get(occurrenceDate);
+      // Une échéance payée a bien eu lieu, même si elle devait être ignorée
+      if (exception?.kind === 'skip' && !confirmation) return [];
+
+      const dateISO = confirmation?.dateISO ?? (exception?.kind === 'move' ? exception.dateISO : occurrenceDate);
+      if (dateISO < from || dateISO > to) return [];
+      // Une date qui ne correspond plus à la règle (modifiée depuis) est ignorée
+      if (!planned.includes(occurrenceDate) && !isOccurrence(item, occurrenceDate)) return [];
+
+      const plannedAmountCts = exception?.kind === 'override' ? exception.amountCts : getAmountAt(item, occurrenceDate);
+      return [{
+        dateISO,
+        amountCts: confirmation?.amountCts ?? plannedAmountCts,
+        occurrenceDate,
+        exception,
+        confirmation,
+      }];
+    })
+    .sort((a, b) => a.dateISO.localeCompare(b.dateISO));
+}
+
+// Échéance passée qui n'a pas encore été confirmée
+export function isOverdue(occurrence: ScheduledOccurrence, today: string = dayjs().format(ISO_DATE)): boolean {
+  return !occurrence.confirmation && occurrence.dateISO < today;
+}
+
+export function getMonthSchedule(item: ScheduledItem, monthISO: string): ScheduledOccurrence[] {
+  const month = dayjs(monthISO);
+  return getSchedule(item, month.startOf('month').format(ISO_DATE), month.endOf('month').format(ISO_DATE));
+}
+
+// Prochaine échéance à partir de `from` (aujourd'hui par défaut), si l'élément est encore actif
+export function getNextOccurrence(item: ScheduledItem, from: string = dayjs().format(ISO_DATE)): string | undefined {
+  const origin = dayjs(item.startDate).isAfter(from) ? dayjs(item.startDate) : dayjs(from);
+  const unit = item.recurrence.frequency === 'weekly' ? 'week' : item.recurrence.frequency === 'monthly' ? 'month' : 'year';
+  // Deux périodes, une échéance pouvant être ignorée
+  const horizon = origin.add(2 * item.recurrence.interval + 1, unit);
+  return getSchedule(item, origin.format(ISO_DATE), horizon.format(ISO_DATE))[0]?.dateISO;
+}
+
+export function isOccurrence(schedule: Schedule, dateISO: string): boolean {
+  return getOccurrences(schedule, dateISO, dateISO).length > 0;
+}
+
+const ADJUSTMENT_LABELS: Record<BusinessDayAdjustment, string> = {
+  none: '',
+  previous: ', avancé au vendredi si week-end',
+  next: ', reporté au lundi si week-end',
+};
+
+// Libellé de la règle, par exemple « Le 5 de chaque mois » ou « Le vendredi, toutes les 2 semaines »
+export function describeRecurrence(recurrence: Recurrence, startDate: string): string {
+  const start = dayjs(startDate);
+  const { interval } = recurrence;
+  const day = recurrence.lastDayOfMonth ? 'Le dernier jour' : `Le ${recurrence.byMonthDay ?? start.date()}`;
+  let label: string;
+
+  if (recurrence.frequency === 'weekly') {
+    const weekday = WEEKDAY_LABELS[recurrence.byWeekday ?? start.day()];
+    label = interval === 1 ? `Chaque ${weekday}` : `Le ${weekday}, toutes les ${interval} semaines`;
+  } else if (recurrence.frequency === 'monthly') {
+    label = interval === 1 ? `${day} de chaque mois` : `${day} du mois, tous les ${interval} mois`;
+  } else {
+    const month = MONTH_LABELS[start.month()];
+    label = `${recurrence.lastDayOfMonth ? `Le dernier jour de ${month}` : `${day} ${month}`}, ${
+      interval === 1 ? 'chaque année' : `tous les ${interval} ans`
+    }`;
+  }
+
+  return label + ADJUSTMENT_LABELS[recurrence.businessDayAdjustment];
+}
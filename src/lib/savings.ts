@@ -0,0 +1,59 @@
+import dayjs from 'dayjs';
+import { getCurrentMonth } from './utils';
+import { MoneyCts, SavingsGoal } from '../types';
+
+export interface SavingsPlan {
+  goal: SavingsGoal;
+  remainingCts: MoneyCts;
+  // Mois restants pour épargner, mois en cours compris
+  monthsLeft: number;
+  monthlyContributionCts: MoneyCts;
+  // Part de l'objectif déjà atteinte (0 à 1)
+  progressRatio: number;
+  isReached: boolean;
+  // Date cible dépassée sans avoir atteint l'objectif
+  isLate: boolean;
+  // Le solde prévisionnel ne couvre pas le versement du mois
+  isUnfunded: boolean;
+}
+
+// Versement mensuel nécessaire pour atteindre l'objectif à la date cible
+export function getSavingsPlan(goal: SavingsGoal, monthISO: string = getCurrentMonth()): Omit<SavingsPlan, 'isUnfunded'> {
+  const remainingCts = Math.max(goal.targetCts - goal.currentCts, 0);
+  const isLate = remainingCts > 0 && goal.targetDateISO.slice(0, 7) < monthISO;
+  // Une date cible dépassée rend tout le reste exigible ce mois-ci
+  const monthsLeft = Math.max(dayjs(goal.targetDateISO).startOf('month').diff(dayjs(monthISO), 'month') + 1, 1);
+
+  return {
+    goal,
+    remainingCts,
+    monthsLeft,
+    monthlyContributionCts: Math.ceil(remainingCts / monthsLeft),
+    progressRatio: goal.targetCts > 0 ? Math.min(goal.currentCts / goal.targetCts, 1) : 1,
+    isReached: remainingCts === 0,
+    isLate,
+  };
+}
+
+/**
+ * Plans d'épargne triés par date cible. Le solde prévisionnel du mois finance
+ * les versements dans cet ordre : dès qu'il ne suffit plus, les objectifs
+ * suivants sont signalés comme non financés.
+ */
+export function getSavingsPlans(
+  goals: SavingsGoal[],
+  projectedBalanceCts: MoneyCts | undefined,
+  monthISO: string = getCurrentMonth()
+): SavingsPlan[] {
+  let fundedCts = 0;
+  return [...goals]
+    .sort((a, b) => a.targetDateISO.localeCompare(b.targetDateISO))
+    .map(goal => {
+      const plan = getSavingsPlan(goal, monthISO);
+      fundedCts += plan.monthlyContributionCts;
+      return {
+        ...plan,
+        isUnfunded: projectedBalanceCts !== undefined && !plan.isReached && fundedCts > projectedBalanceCts,
+      };
+    });
+}
@@ -0,0 +1,594 @@
+import { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Plus, Edit, Trash2, X, Check, ArrowRightLeft } from 'lucide-react';
+import { Button } from '../components/ui/button';
+import { Input } from '../components/ui/input';
+import { Loading, LoadingCard } from '../components/ui/loading';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../components/ui/card';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '../components/ui/dialog';
+import { useToast } from '../components/ui/use-toast';
+import { UndoToastAction } from '../components/UndoToastAction';
+import { useFormDraft } from '../hooks/useFormDraft';
+import { useAccounts, useTransfers } from '../hooks/queries';
+import {
+  useAddAccount,
+  useAddTransfer,
+  useDeleteAccount,
+  useDeleteTransfer,
+  useUpdateAccount,
+} from '../hooks/mutations';
+import { formatCurrency, formatDate, getCurrentDate, getCurrentMonth, parseCurrency } from '../lib/utils';
+import { ACCOUNT_TYPE_LABELS, getAccountName, getDefaultAccountId } from '../lib/accounts';
+import { isDeferredCard } from '../lib/cards';
+import { Account, AccountType } from '../types';
+
+const dayOfMonthSchema = z.number('Jour invalide').int('Jour invalide').min(1, 'Jour invalide').max(31, 'Jour invalide');
+
+const accountSchema = z
+  .object({
+    name: z.string().trim().min(1, 'Le nom est obligatoire'),
+    type: z.enum(['current', 'savings', 'deferred_card', 'cash']),
+    // Carte à débit différé uniquement
+    cutoffDay: dayOfMonthSchema.optional(),
+    debitDay: dayOfMonthSchema.optional(),
+  })
+  .refine(account => account.type !== 'deferred_card' || account.cutoffDay !== undefined, {
+    message: "Le jour d'arrêté est obligatoire",
+    path: ['cutoffDay'],
+  })
+  .refine(account => account.type !== 'deferred_card' || account.debitDay !== undefined, {
+    message: 'Le jour de prélèvement est obligatoire',
+    path: ['debitDay'],
+  });
+
+type AccountForm = z.infer<typeof accountSchema>;
+
+const EMPTY_FORM: AccountForm = { name: '', type: 'current' };
+
+const transferSchema = z
+  .object({
+    fromAccountId: z.string().min(1, 'Choisissez un compte'),
+    toAccountId: z.string().min(1, 'Choisissez un compte'),
+    amount: z.string().refine(value => parseCurrency(value) > 0, 'Le montant doit être positif'),
+    date: z.string().min(1, 'La date est obligatoire'),
+    label: z.string(),
+  })
+  .refine(transfer => transfer.fromAccountId !== transfer.toAccountId, {
+    message: 'Les deux comptes doivent être différents',
+    path: ['toAccountId'],
+  });
+
+type TransferForm = z.infer<typeof transferSchema>;
+
+// Suppression d'un compte : ses éléments sont d'abord rattachés à `targetId`
+interface DeleteRequest {
+  sourceId: string;
+  targetId: string;
+}
+
+const selectClassName =
+  'w-full rounded-md border border-gray-300 bg-white px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+export function Accounts() {
+  const [selectedMonth, setSelectedMonth] = useState(getCurrentMonth());
+  const { data: accounts = [], isPending, error: loadError } = useAccounts();
+  const { data: transfers = [] } = useTransfers(selectedMonth);
+  const addAccount = useAddAccount();
+  const updateAccount = useUpdateAccount();
+  const deleteAccount = useDeleteAccount();
+  const addTransfer = useAddTransfer();
+  const deleteTransfer = useDeleteTransfer();
+  const loading =
+    isPending || addAccount.isPending || updateAccount.isPending || deleteAccount.isPending || deleteTransfer.isPending;
+  const error =
+    loadError ?? addAccount.error ?? updateAccount.error ?? deleteAccount.error ?? addTransfer.error ?? deleteTransfer.error;
+  const { toast } = useToast();
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [showTransferDialog, setShowTransferDialog] = useState(false);
+  const [deleteRequest, setDeleteRequest] = useState<DeleteRequest | null>(null);
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+    reset,
+    setValue,
+    watch,
+  } = useForm<AccountForm>({
+    resolver: zodResolver(accountSchema),
+    defaultValues: EMPTY_FORM,
+  });
+
+  const {
+    register: registerTransfer,
+    handleSubmit: handleSubmitTransfer,
+    formState: { errors: transferErrors },
+    reset: resetTransfer,
+  } = useForm<TransferForm>({
+    resolver: zodResolver(transferSchema),
+    defaultValues: { fromAccountId: '', toAccountId: '', amount: '', date: getCurrentDate(), label: '' },
+  });
+
+  // Saisie conservée si la session expire avant l'enregistrement
+  useFormDraft<{ editingId: string | null; values: AccountForm }>(
+    'account-form',
+    showForm ? { editingId, values: watch() } : null,
+    (draft) => {
+      setEditingId(draft.editingId);
+      setShowForm(true);
+      reset({ ...EMPTY_FORM, ...draft.values });
+    }
+  );
+
+  const onSubmit = async (form: AccountForm) => {
+    const isCard = form.type === 'deferred_card';
+    const data = {
+      name: form.name,
+      type: form.type,
+      cutoffDay: isCard ? form.cutoffDay : undefined,
+      debitDay: isCard ? form.debitDay : undefined,
+    };
+    if (editingId) {
+      try {
+        const { undo } = await updateAccount.mutateAsync({ id: editingId, updates: data });
+        toast({
+          title: 'Compte modifié',
+          description: `"${data.name}" a été mis à jour`,
+          action: <UndoToastAction onUndo={undo} />,
+        });
+        setEditingId(null);
+      } catch {
+        // Error is shown in the page banner
+      }
+    } else {
+      try {
+        const { undo } = await addAccount.mutateAsync(data);
+        toast({
+          title: 'Compte ajouté',
+          description: `"${data.name}" a été ajouté`,
+          action: <UndoToastAction onUndo={undo} />,
+        });
+      } catch {
+        // Error is shown in the page banner
+      }
+    }
+
+    reset(EMPTY_FORM);
+    setShowForm(false);
+  };
+
+  const handleEdit = (account: Account) => {
+    setEditingId(account.id);
+    setShowForm(true);
+    setValue('name', account.name);
+    setValue('type', account.type);
+    setValue('cutoffDay', account.cutoffDay);
+    setValue('debitDay', account.debitDay);
+  };
+
+  const openDelete = (account: Account) => {
+    const target = accounts.find(other => other.id !== account.id);
+    setDeleteRequest({ sourceId: account.id, targetId: target?.id ?? '' });
+  };
+
+  const handleConfirmDelete = async () => {
+    if (!deleteRequest) return;
+    const source = accounts.find(account => account.id === deleteRequest.sourceId);
+    const target = accounts.find(account => account.id === deleteRequest.targetId);
+    if (!source || !target || source.id === target.id) return;
+
+    try {
+      const { moved } = await deleteAccount.mutateAsync({ sourceId: source.id, targetId: target.id });
+      toast({
+        title: 'Compte supprimé',
+        description: `${moved} élément${moved > 1 ? 's' : ''} rattaché${moved > 1 ? 's' : ''} à "${target.name}"`,
+      });
+      setDeleteRequest(null);
+    } catch {
+      // Error is shown in the page banner
+    }
+  };
+
+  const handleCancel = () => {
+    setEditingId(null);
+    setShowForm(false);
+    reset(EMPTY_FORM);
+  };
+
+  const onSubmitTransfer = async (data: TransferForm) => {
+    const amountCts = parseCurrency(data.amount);
+    try {
+      const { undo } = await addTransfer.mutateAsync({
+        dateISO: data.date,
+        fromAccountId: data.fromAccountId,
+        toAccountId: data.toAccountId,
+        amountCts,
+        label: data.label.trim() || undefined,
+      });
+      toast({
+        title: 'Virement enregistré',
+        description: `${formatCurrency(amountCts)} de "${getAccountName(accounts, data.fromAccountId)}" vers "${getAccountName(accounts, data.toAccountId)}"`,
+        action: <UndoToastAction onUndo={undo} />,
+      });
+      resetTransfer();
+      setShowTransferDialog(false);
+    } catch {
+      // Error is shown in the page banner
+    }
+  };
+
+  const handleDeleteTransfer = async (id: string) => {
+    try {
+      const { undo } = await deleteTransfer.mutateAsync(id);
+      toast({
+        title: 'Virement supprimé',
+        action: <UndoToastAction onUndo={undo} />,
+      });
+    } catch {
+      // Error is shown in the page banner
+    }
+  };
+
+  if (isPending) {
+    return <LoadingCard text="Chargement des comptes..." />;
+  }
+
+  const defaultAccountId = getDefaultAccountId(accounts);
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-md p-4">
+          <p className="text-red-600">Erreur: {error.message}</p>
+        </div>
+      )}
+
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Comptes</h1>
+          <p className="text-gray-600 mt-1">
+            Comptes courants, épargne, cartes et espèces, et virements internes entre eux
+          </p>
+        </div>
+        <Button onClick={() => setShowForm(true)} disabled={showForm}>
+          <Plus className="h-4 w-4 mr-2" />
+          Ajouter un compte
+        </Button>
+      </div>
+
+      {/* Form */}
+      {showForm && (
+        <Card>
+          <CardHeader>
+            <CardTitle>{editingId ? 'Modifier' : 'Ajouter'} un compte</CardTitle>
+            {loading && <Loading size="sm" />}
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleSubmit(onSubmit)} className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Nom *
+                </label>
+                <Input
+                  {...register('name')}
+                  placeholder="Compte joint, Livret A, Porte-monnaie..."
+                  className={errors.name ? 'border-red-500' : ''}
+                />
+                {errors.name && (
+                  <p className="mt-1 text-sm text-red-600">{errors.name.message}</p>
+                )}
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Type *
+                </label>
+                <select {...register('type')} className={selectClassName}>
+                  {(Object.keys(ACCOUNT_TYPE_LABELS) as AccountType[]).map(type => (
+                    <option key={type} value={type}>{ACCOUNT_TYPE_LABELS[type]}</option>
+                  ))}
+                </select>
+              </div>
+
+              {watch('type') === 'deferred_card' && (
+                <>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Jour d'arrêté *
+                    </label>
+                    <Input
+                      {...register('cutoffDay', { valueAsNumber: true, shouldUnregister: true })}
+                      type="number"
+                      min={1}
+                      max={31}
+                      placeholder="25"
+                      className={errors.cutoffDay ? 'border-red-500' : ''}
+                    />
+                    {errors.cutoffDay ? (
+                      <p className="mt-1 text-sm text-red-600">{errors.cutoffDay.message}</p>
+                    ) : (
+                      <p className="mt-1 text-xs text-gray-500">Les achats faits après ce jour passent sur le relevé suivant</p>
+                    )}
+                  </div>
+
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Jour de prélèvement *
+                    </label>
+                    <Input
+                      {...register('debitDay', { valueAsNumber: true, shouldUnregister: true })}
+                      type="number"
+                      min={1}
+                      max={31}
+                      placeholder="5"
+                      className={errors.debitDay ? 'border-red-500' : ''}
+                    />
+                    {errors.debitDay ? (
+                      <p className="mt-1 text-sm text-red-600">{errors.debitDay.message}</p>
+                    ) : (
+                      <p className="mt-1 text-xs text-gray-500">Le relevé est prélevé ce jour-là le mois suivant, sur le compte par défaut</p>
+                    )}
+                  </div>
+                </>
+              )}
+
+              <div className="md:col-span-2 flex justify-end space-x-2">
+                <Button type="button" variant="outline" onClick={handleCancel}>
+                  <X className="h-4 w-4 mr-2" />
+                  Annuler
+                </Button>
+                <Button type="submit">
+                  <Check className="h-4 w-4 mr-2" />
+                  {editingId ? 'Modifier' : 'Ajouter'}
+                </Button>
+              </div>
+            </form>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* List */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Liste des comptes</CardTitle>
+          <CardDescription>
+            {accounts.length} compte{accounts.length > 1 ? 's' : ''} · les opérations saisies sans compte
+            sont rattachées au compte par défaut
+          </CardDescription>
+          {loading && <Loading size="sm" />}
+        </CardHeader>
+        <CardContent>
+          {accounts.length === 0 ? (
+            <div className="text-center py-8 text-gray-500">
+              <p>Aucun compte</p>
+              <p className="text-sm mt-1">Ajoutez vos comptes pour suivre chacun séparément</p>
+            </div>
+          ) : (
+            <ul className="divide-y divide-gray-200">
+              {accounts.map(account => (
+                <li key={account.id} className="flex items-center justify-between py-3">
+                  <div>
+                    <div className="text-sm font-medium text-gray-900">
+                      {account.name}
+                      {account.id === defaultAccountId && (
+                        <span className="ml-2 text-xs text-blue-600">Par défaut</span>
+                      )}
+                    </div>
+                    <div className="text-sm text-gray-500">
+                      {ACCOUNT_TYPE_LABELS[account.type]}
+                      {isDeferredCard(account) &&
+                        ` · arrêté le ${account.cutoffDay}, prélevé le ${account.debitDay} du mois suivant`}
+                    </div>
+                  </div>
+                  <div className="flex space-x-2">
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => handleEdit(account)}
+                      disabled={showForm}
+                    >
+                      <Edit className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => openDelete(account)}
+                      disabled={accounts.length < 2}
+                      className="text-red-600 hover:text-red-700"
+                      title={accounts.length < 2 ? 'Ajoutez un autre compte pour pouvoir supprimer celui-ci' : 'Supprimer'}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle>Virements internes</CardTitle>
+              <CardDescription>
+                {transfers.length} virement{transfers.length > 1 ? 's' : ''} ce mois-ci · ni dépense ni recette
+                dans la vue consolidée
+              </CardDescription>
+            </div>
+            <div className="flex items-center space-x-4">
+              <input
+                type="month"
+                value={selectedMonth}
+                onChange={(e) => setSelectedMonth(e.target.value)}
+                className="rounded-md border border-gray-300 px-3 py-2 text-sm"
+              />
+              <Button onClick={() => setShowTransferDialog(true)} disabled={accounts.length < 2}>
+                <ArrowRightLeft className="h-4 w-4 mr-2" />
+                Virement
+              </Button>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {transfers.length === 0 ? (
+            <p className="text-sm text-gray-500">Aucun virement enregistré</p>
+          ) : (
+            <ul className="divide-y divide-gray-200 text-sm">
+              {[...transfers]
+                .sort((a, b) => b.dateISO.localeCompare(a.dateISO))
+                .map(transfer => (
+                  <li key={transfer.id} className="flex items-center justify-between py-2">
+                    <div>
+                      <span className="text-gray-500 mr-2">{formatDate(transfer.dateISO)}</span>
+                      {getAccountName(accounts, transfer.fromAccountId)} → {getAccountName(accounts, transfer.toAccountId)}
+                      {transfer.label && <span className="text-gray-500"> · {transfer.label}</span>}
+                    </div>
+                    <div className="flex items-center space-x-4">
+                      <span className="font-medium">{formatCurrency(transfer.amountCts)}</span>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => handleDeleteTransfer(transfer.id)}
+                        className="text-red-600 hover:text-red-700"
+                        title="Supprimer"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </li>
+                ))}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Transfer between accounts */}
+      <Dialog open={showTransferDialog} onOpenChange={setShowTransferDialog}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Virement entre comptes</DialogTitle>
+            <DialogDescription>
+              Le montant quitte le premier compte pour le second, sans compter comme une dépense.
+            </DialogDescription>
+          </DialogHeader>
+
+          <form onSubmit={handleSubmitTransfer(onSubmitTransfer)} className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Depuis *</label>
+              <select {...registerTransfer('fromAccountId')} className={selectClassName}>
+                <option value="">Choisir un compte</option>
+                {accounts.map(account => (
+                  <option key={account.id} value={account.id}>{account.name}</option>
+                ))}
+              </select>
+              {transferErrors.fromAccountId && (
+                <p className="mt-1 text-sm text-red-600">{transferErrors.fromAccountId.message}</p>
+              )}
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Vers *</label>
+              <select {...registerTransfer('toAccountId')} className={selectClassName}>
+                <option value="">Choisir un compte</option>
+                {accounts.map(account => (
+                  <option key={account.id} value={account.id}>{account.name}</option>
+                ))}
+              </select>
+              {transferErrors.toAccountId && (
+                <p className="mt-1 text-sm text-red-600">{transferErrors.toAccountId.message}</p>
+              )}
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Montant (€) *</label>
+                <Input {...registerTransfer('amount')} placeholder="0,00" lang="fr-FR" />
+                {transferErrors.amount && (
+                  <p className="mt-1 text-sm text-red-600">{transferErrors.amount.message}</p>
+                )}
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Date *</label>
+                <Input {...registerTransfer('date')} type="date" />
+                {transferErrors.date && (
+                  <p className="mt-1 text-sm text-red-600">{transferErrors.date.message}</p>
+                )}
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Libellé</label>
+              <Input {...registerTransfer('label')} placeholder="Épargne du mois, retrait..." />
+            </div>
+
+            <DialogFooter className="gap-2">
+              <Button type="button" variant="outline" onClick={() => setShowTransferDialog(false)}>
+                Annuler
+              </Button>
+              <Button type="submit" disabled={addTransfer.isPending}>
+                {addTransfer.isPending && <Loading size="sm" className="mr-2" />}
+                Virer
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete with reassignment */}
+      <Dialog open={deleteRequest !== null} onOpenChange={(open) => !open && setDeleteRequest(null)}>
+        {deleteRequest && (
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>Supprimer "{getAccountName(accounts, deleteRequest.sourceId)}"</DialogTitle>
+              <DialogDescription>
+                Les dépenses, recettes, échéances et virements de ce compte doivent être rattachés à un autre
+                compte avant sa suppression, qui est définitive.
+              </DialogDescription>
+            </DialogHeader>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Rattacher ses éléments à</label>
+              <select
+                className={selectClassName}
+                value={deleteRequest.targetId}
+                onChange={(e) => setDeleteRequest({ ...deleteRequest, targetId: e.target.value })}
+              >
+                {accounts
+                  .filter(account => account.id !== deleteRequest.sourceId)
+                  .map(account => (
+                    <option key={account.id} value={account.id}>{account.name}</option>
+                  ))}
+              </select>
+            </div>
+
+            <DialogFooter className="gap-2">
+              <Button variant="outline" onClick={() => setDeleteRequest(null)}>
+                Annuler
+              </Button>
+              <Button
+                onClick={handleConfirmDelete}
+                disabled={deleteAccount.isPending || !deleteRequest.targetId}
+                className="bg-red-600 hover:bg-red-700"
+              >
+                {deleteAccount.isPending && <Loading size="sm" className="mr-2" />}
+                Rattacher et supprimer
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        )}
+      </Dialog>
+    </div>
+  );
+}
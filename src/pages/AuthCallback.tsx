@@ -0,0 +1,118 @@
+import React, { useEffect, useRef } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { Euro, AlertCircle } from 'lucide-react';
+import { Loading } from '../components/ui/loading';
+import { Button } from '../components/ui/button';
+import { useAuthStore } from '../store/auth';
+import { authApi } from '../services/api';
+import { completeLogin, OidcError } from '../services/oidc';
+
+// Messages des erreurs OIDC les plus courantes
+const ERROR_MESSAGES: Record<string, string> = {
+  access_denied: 'La connexion a été refusée ou annulée.',
+  login_required: 'Votre session a expiré, veuillez vous reconnecter.',
+  consent_required: "L'accès à votre compte n'a pas été autorisé.",
+  interaction_required: 'Une action est requise sur la page de connexion.',
+  invalid_state: 'Cette réponse de connexion ne correspond à aucune demande en cours.',
+  invalid_grant: 'Le code de connexion a expiré ou a déjà été utilisé.',
+  temporarily_unavailable: "Le service d'authentification est momentanément indisponible.",
+  server_error: "Le service d'authentification a rencontré une erreur.",
+  configuration: "La connexion n'est pas configurée sur cette application.",
+};
+
+interface CallbackError {
+  code: string;
+  message: string;
+  details?: string;
+}
+
+const toCallbackError = (error: unknown): CallbackError => {
+  const code = error instanceof OidcError ? error.code : 'unknown';
+  const details = error instanceof Error && error.message !== code ? error.message : undefined;
+  return {
+    code,
+    message: ERROR_MESSAGES[code] ?? 'La connexion a échoué.',
+    details,
+  };
+};
+
+export function AuthCallback() {
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const { setTokens, setAuthData, login } = useAuthStore();
+  const [error, setError] = React.useState<CallbackError | null>(null);
+  // Le code ne peut être échangé qu'une fois (double effet en mode strict)
+  const handled = useRef(false);
+
+  useEffect(() => {
+    if (handled.current) return;
+    handled.current = true;
+
+    const handleCallback = async () => {
+      try {
+        const { tokens, returnTo } = await completeLogin(searchParams);
+        // `/auth/me` doit partir avec le nouveau jeton
+        setTokens(tokens);
+        const user = await authApi.getUserInfo();
+        setAuthData(user, tokens);
+        navigate(returnTo, { replace: true });
+      } catch (error) {
+        console.error('Error during login callback:', error);
+        setError(toCallbackError(error));
+      }
+    };
+
+    handleCallback();
+  }, [searchParams, navigate, setTokens, setAuthData]);
+
+  const handleRetry = async () => {
+    try {
+      setError(null);
+      await login();
+    } catch (error) {
+      setError(toCallbackError(error));
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md w-full space-y-8">
+        <div className="text-center">
+          <div className="mx-auto h-16 w-16 bg-blue-600 rounded-xl flex items-center justify-center">
+            <Euro className="h-8 w-8 text-white" />
+          </div>
+          <h2 className="mt-6 text-3xl font-bold text-gray-900">
+            Budget App
+          </h2>
+        </div>
+
+        <div className="flex flex-col items-center space-y-4">
+          {error ? (
+            <>
+              <div className="w-full bg-red-50 border border-red-200 rounded-md p-4">
+                <div className="flex items-start">
+                  <AlertCircle className="h-5 w-5 text-red-600 mr-2 mt-0.5 shrink-0" />
+                  <div>
+                    <p className="text-red-600 text-sm font-medium">{error.message}</p>
+                    {error.details && (
+                      <p className="text-red-500 text-xs mt-1">{error.details}</p>
+                    )}
+                    <p className="text-red-400 text-xs mt-1">Code : {error.code}</p>
+                  </div>
+                </div>
+              </div>
+              <Button onClick={handleRetry} className="w-full" size="lg">
+                Se reconnecter
+              </Button>
+              <Button variant="outline" onClick={() => navigate('/auth/login', { replace: true })} className="w-full">
+                Retour à l'accueil
+              </Button>
+            </>
+          ) : (
+            <Loading size="lg" text="Connexion en cours..." />
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
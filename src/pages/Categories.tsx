@@ -0,0 +1,465 @@
+import { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Plus, Edit, Trash2, X, Check, ArrowUp, ArrowDown, Merge } from 'lucide-react';
+import { Button } from '../components/ui/button';
+import { Input } from '../components/ui/input';
+import { Loading, LoadingCard } from '../components/ui/loading';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../components/ui/card';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '../components/ui/dialog';
+import { useToast } from '../components/ui/use-toast';
+import { UndoToastAction } from '../components/UndoToastAction';
+import { useFormDraft } from '../hooks/useFormDraft';
+import { useCategories } from '../hooks/queries';
+import {
+  useAddCategory,
+  useMergeCategories,
+  useReorderCategories,
+  useUpdateCategory,
+} from '../hooks/mutations';
+import { formatCurrency, parseCurrency } from '../lib/utils';
+import { Category } from '../types';
+
+// Couleurs proposées par défaut (palette Tailwind)
+const PRESET_COLORS = [
+  '#10B981', '#3B82F6', '#8B5CF6', '#EF4444', '#F59E0B',
+  '#EC4899', '#14B8A6', '#6366F1', '#84CC16', '#6B7280',
+];
+
+const categorySchema = z.object({
+  name: z.string().trim().min(1, 'Le nom est obligatoire'),
+  color: z.string().regex(/^#[0-9a-fA-F]{6}$/, 'Couleur invalide'),
+  // Vide : pas de budget
+  budget: z.string(),
+  budgetRollover: z.boolean(),
+});
+
+type CategoryForm = z.infer<typeof categorySchema>;
+
+const EMPTY_FORM: CategoryForm = { name: '', color: PRESET_COLORS[0], budget: '', budgetRollover: false };
+
+// Fusion d'une catégorie dans une autre ; `sourceId` fixé pour une suppression
+interface MergeRequest {
+  mode: 'merge' | 'delete';
+  sourceId: string;
+  targetId: string;
+}
+
+const selectClassName =
+  'w-full rounded-md border border-gray-300 bg-white px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+export function Categories() {
+  const { data: categories = [], isPending, error: loadError } = useCategories();
+  const addCategory = useAddCategory();
+  const updateCategory = useUpdateCategory();
+  const reorderCategories = useReorderCategories();
+  const mergeCategories = useMergeCategories();
+  const loading =
+    isPending || addCategory.isPending || updateCategory.isPending || reorderCategories.isPending || mergeCategories.isPending;
+  const error = loadError ?? addCategory.error ?? updateCategory.error ?? reorderCategories.error ?? mergeCategories.error;
+  const { toast } = useToast();
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [mergeRequest, setMergeRequest] = useState<MergeRequest | null>(null);
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+    reset,
+    setValue,
+    watch,
+  } = useForm<CategoryForm>({
+    resolver: zodResolver(categorySchema),
+    defaultValues: EMPTY_FORM,
+  });
+  const selectedColor = watch('color');
+
+  // Saisie conservée si la session expire avant l'enregistrement
+  useFormDraft<{ editingId: string | null; values: CategoryForm }>(
+    'category-form',
+    showForm ? { editingId, values: watch() } : null,
+    (draft) => {
+      setEditingId(draft.editingId);
+      setShowForm(true);
+      reset({ ...EMPTY_FORM, ...draft.values });
+    }
+  );
+
+  const onSubmit = async ({ budget, ...form }: CategoryForm) => {
+    const data = {
+      ...form,
+      monthlyBudgetCts: budget.trim() ? parseCurrency(budget) : null,
+    };
+    try {
+      if (editingId) {
+        const { undo } = await updateCategory.mutateAsync({ id: editingId, updates: data });
+        toast({
+          title: 'Catégorie modifiée',
+          description: `"${data.name}" a été mise à jour`,
+          action: <UndoToastAction onUndo={undo} />,
+        });
+        setEditingId(null);
+      } else {
+        // Les nouvelles catégories se placent en fin de liste
+        const { undo } = await addCategory.mutateAsync({ ...data, order: categories.length });
+        toast({
+          title: 'Catégorie ajoutée',
+          description: `"${data.name}" est disponible pour vos dépenses`,
+          action: <UndoToastAction onUndo={undo} />,
+        });
+      }
+      // La saisie n'est effacée qu'une fois enregistrée
+      reset(EMPTY_FORM);
+      setShowForm(false);
+    } catch {
+      // Error is shown in the page banner
+    }
+  };
+
+  const handleEdit = (category: Category) => {
+    setEditingId(category.id);
+    setShowForm(true);
+    setValue('name', category.name);
+    setValue('color', category.color);
+    setValue('budget', category.monthlyBudgetCts !== undefined ? (category.monthlyBudgetCts / 100).toFixed(2) : '');
+    setValue('budgetRollover', category.budgetRollover ?? false);
+  };
+
+  const handleCancel = () => {
+    setEditingId(null);
+    setShowForm(false);
+    reset(EMPTY_FORM);
+  };
+
+  const handleMove = async (index: number, direction: -1 | 1) => {
+    const reordered = [...categories];
+    const [moved] = reordered.splice(index, 1);
+    reordered.splice(index + direction, 0, moved);
+    try {
+      const { undo } = await reorderCategories.mutateAsync(reordered);
+      toast({
+        title: 'Ordre mis à jour',
+        description: `"${moved.name}" a été déplacée`,
+        action: <UndoToastAction onUndo={undo} />,
+      });
+    } catch {
+      // Error is shown in the page banner
+    }
+  };
+
+  // La cible proposée n'est jamais la catégorie fusionnée
+  const withSource = (mode: MergeRequest['mode'], sourceId: string, targetId?: string): MergeRequest => ({
+    mode,
+    sourceId,
+    targetId:
+      targetId && targetId !== sourceId
+        ? targetId
+        : categories.find(category => category.id !== sourceId)?.id ?? '',
+  });
+
+  const openMerge = (mode: MergeRequest['mode'], sourceId: string) => {
+    setMergeRequest(withSource(mode, sourceId));
+  };
+
+  const handleConfirmMerge = async () => {
+    if (!mergeRequest) return;
+    const source = categories.find(category => category.id === mergeRequest.sourceId);
+    const target = categories.find(category => category.id === mergeRequest.targetId);
+    if (!source || !target || source.id === target.id) return;
+
+    try {
+      const { moved } = await mergeCategories.mutateAsync({ sourceId: source.id, targetId: target.id });
+      toast({
+        title: mergeRequest.mode === 'delete' ? 'Catégorie supprimée' : 'Catégories fusionnées',
+        description: `${moved} dépense${moved > 1 ? 's' : ''} réaffectée${moved > 1 ? 's' : ''} à "${target.name}"`,
+      });
+      setMergeRequest(null);
+    } catch {
+      // Error is shown in the page banner
+    }
+  };
+
+  if (isPending) {
+    return <LoadingCard text="Chargement des catégories..." />;
+  }
+
+  const mergeSource = categories.find(category => category.id === mergeRequest?.sourceId);
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-md p-4">
+          <p className="text-red-600">Erreur: {error.message}</p>
+        </div>
+      )}
+
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Catégories</h1>
+          <p className="text-gray-600 mt-1">
+            Organisez les catégories utilisées pour classer vos dépenses
+          </p>
+        </div>
+        <div className="flex space-x-2">
+          <Button
+            variant="outline"
+            onClick={() => categories[0] && openMerge('merge', categories[0].id)}
+            disabled={categories.length < 2}
+          >
+            <Merge className="h-4 w-4 mr-2" />
+            Fusionner
+          </Button>
+          <Button onClick={() => setShowForm(true)} disabled={showForm}>
+            <Plus className="h-4 w-4 mr-2" />
+            Ajouter une catégorie
+          </Button>
+        </div>
+      </div>
+
+      {/* Form */}
+      {showForm && (
+        <Card>
+          <CardHeader>
+            <CardTitle>{editingId ? 'Modifier' : 'Ajouter'} une catégorie</CardTitle>
+            {loading && <Loading size="sm" />}
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleSubmit(onSubmit)} className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Nom *
+                </label>
+                <Input
+                  {...register('name')}
+                  placeholder="Alimentation, Transport, Loisirs..."
+                  className={errors.name ? 'border-red-500' : ''}
+                />
+                {errors.name && (
+                  <p className="mt-1 text-sm text-red-600">{errors.name.message}</p>
+                )}
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Couleur *
+                </label>
+                <div className="flex items-center flex-wrap gap-2">
+                  {PRESET_COLORS.map(color => (
+                    <button
+                      key={color}
+                      type="button"
+                      title={color}
+                      onClick={() => setValue('color', color, { shouldValidate: true })}
+                      className={`h-7 w-7 rounded-full border-2 ${
+                        selectedColor?.toLowerCase() === color.toLowerCase() ? 'border-gray-900' : 'border-transparent'
+                      }`}
+                      style={{ backgroundColor: color }}
+                    />
+                  ))}
+                  <input
+                    {...register('color')}
+                    type="color"
+                    className="h-8 w-10 cursor-pointer rounded border border-gray-300 bg-white"
+                    title="Couleur personnalisée"
+                  />
+                </div>
+                {errors.color && (
+                  <p className="mt-1 text-sm text-red-600">{errors.color.message}</p>
+                )}
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Budget mensuel (€)
+                </label>
+                <Input
+                  {...register('budget')}
+                  type="text"
+                  placeholder="Aucun budget"
+                  lang="fr-FR"
+                />
+              </div>
+
+              <div className="flex items-end">
+                <label className="flex items-center text-sm text-gray-700 pb-2">
+                  <input {...register('budgetRollover')} type="checkbox" className="mr-2" />
+                  Reporter le reliquat non dépensé sur le mois suivant (un mois, non cumulé)
+                </label>
+              </div>
+
+              <div className="md:col-span-2 flex justify-end space-x-2">
+                <Button type="button" variant="outline" onClick={handleCancel}>
+                  <X className="h-4 w-4 mr-2" />
+                  Annuler
+                </Button>
+                <Button type="submit">
+                  <Check className="h-4 w-4 mr-2" />
+                  {editingId ? 'Modifier' : 'Ajouter'}
+                </Button>
+              </div>
+            </form>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* List */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Liste des catégories</CardTitle>
+          <CardDescription>
+            {categories.length} catégorie{categories.length > 1 ? 's' : ''}, dans l'ordre proposé à la saisie
+          </CardDescription>
+          {loading && <Loading size="sm" />}
+        </CardHeader>
+        <CardContent>
+          {categories.length === 0 ? (
+            <div className="text-center py-8 text-gray-500">
+              <p>Aucune catégorie configurée</p>
+              <p className="text-sm mt-1">Ajoutez une catégorie pour classer vos dépenses</p>
+            </div>
+          ) : (
+            <ul className="divide-y divide-gray-200">
+              {categories.map((category, index) => (
+                <li key={category.id} className="flex items-center justify-between py-3">
+                  <div className="flex items-center">
+                    <span
+                      className="h-4 w-4 rounded-full mr-3 shrink-0"
+                      style={{ backgroundColor: category.color }}
+                    />
+                    <div>
+                      <span className="text-sm font-medium text-gray-900">{category.name}</span>
+                      {category.monthlyBudgetCts !== undefined && (
+                        <div className="text-xs text-gray-500">
+                          Budget {formatCurrency(category.monthlyBudgetCts)} / mois
+                          {category.budgetRollover && ', avec report d\'un mois'}
+                        </div>
+                      )}
+                    </div>
+                  </div>
+                  <div className="flex space-x-2">
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => handleMove(index, -1)}
+                      disabled={index === 0 || loading}
+                      title="Monter"
+                    >
+                      <ArrowUp className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => handleMove(index, 1)}
+                      disabled={index === categories.length - 1 || loading}
+                      title="Descendre"
+                    >
+                      <ArrowDown className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => handleEdit(category)}
+                      disabled={showForm}
+                    >
+                      <Edit className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => openMerge('delete', category.id)}
+                      disabled={categories.length < 2}
+                      title={categories.length < 2 ? 'Au moins une catégorie est nécessaire' : 'Supprimer'}
+                      className="text-red-600 hover:text-red-700"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Merge / delete with reassignment */}
+      <Dialog open={mergeRequest !== null} onOpenChange={(open) => !open && setMergeRequest(null)}>
+        {mergeRequest && (
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>
+                {mergeRequest.mode === 'delete' ? `Supprimer "${mergeSource?.name}"` : 'Fusionner deux catégories'}
+              </DialogTitle>
+              <DialogDescription>
+                {mergeRequest.mode === 'delete'
+                  ? 'Les dépenses et enveloppes de cette catégorie doivent être réaffectées avant sa suppression, qui est définitive.'
+                  : 'Les dépenses et enveloppes de la première catégorie sont déplacées dans la seconde, puis la première est supprimée définitivement.'}
+              </DialogDescription>
+            </DialogHeader>
+
+            <div className="space-y-4">
+              {mergeRequest.mode === 'merge' && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Catégorie à fusionner
+                  </label>
+                  <select
+                    className={selectClassName}
+                    value={mergeRequest.sourceId}
+                    onChange={(e) => setMergeRequest(withSource(mergeRequest.mode, e.target.value, mergeRequest.targetId))}
+                  >
+                    {categories.map(category => (
+                      <option key={category.id} value={category.id}>{category.name}</option>
+                    ))}
+                  </select>
+                </div>
+              )}
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  {mergeRequest.mode === 'delete' ? 'Réaffecter ses dépenses et enveloppes à' : 'Catégorie conservée'}
+                </label>
+                <select
+                  className={selectClassName}
+                  value={mergeRequest.targetId}
+                  onChange={(e) => setMergeRequest({ ...mergeRequest, targetId: e.target.value })}
+                >
+                  {categories
+                    .filter(category => category.id !== mergeRequest.sourceId)
+                    .map(category => (
+                      <option key={category.id} value={category.id}>{category.name}</option>
+                    ))}
+                </select>
+              </div>
+            </div>
+
+            <DialogFooter className="gap-2">
+              <Button variant="outline" onClick={() => setMergeRequest(null)}>
+                Annuler
+              </Button>
+              <Button
+                onClick={handleConfirmMerge}
+                disabled={
+                  mergeCategories.isPending ||
+                  !mergeRequest.targetId ||
+                  mergeRequest.targetId === mergeRequest.sourceId
+                }
+                className={mergeRequest.mode === 'delete' ? 'bg-red-600 hover:bg-red-700' : ''}
+              >
+                {mergeCategories.isPending && <Loading size="sm" className="mr-2" />}
+                {mergeRequest.mode === 'delete' ? 'Réaffecter et supprimer' : 'Fusionner'}
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        )}
+      </Dialog>
+    </div>
+  );
+}
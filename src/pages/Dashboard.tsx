@@ -1,103 +1,130 @@
-import React, { useState, useEffect, useMemo } from 'react';
+import React, { useState, useMemo } from 'react';
 import { PieChart, Pie, Cell, LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, BarChart, Bar } from 'recharts';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../components/ui/card';
 import { Button } from '../components/ui/button';
-import { Loading, LoadingCard } from '../components/ui/loading';
-import { useBudgetStore } from '../store/budget';
-import { useToast } from '../components/ui/use-toast';
+import { Loading } from '../components/ui/loading';
+import {
+  useCategories,
+  useExpenses,
+  useFixedExpenses,
+  useForecastWithFallback,
+  useLastMonthsSummary,
+  useMonthSummary,
+  useSavingsGoals,
+} from '../hooks/queries';
 import { formatCurrency, getCurrentMonth, getBalanceColor } from '../lib/utils';
+import { getMonthSchedule } from '../lib/recurrence';
+import { getCategoryBudgets } from '../lib/budget';
+import { BudgetProgress } from '../components/BudgetProgress';
+import { getSavingsPlans } from '../lib/savings';
+import { SavingsGoalProgress } from '../components/SavingsGoalProgress';
+import { MoneyCts } from '../types';
 import dayjs from 'dayjs';
-import { TrendingUp, TrendingDown, Euro, CreditCard, Calendar, ChevronLeft, ChevronRight } from 'lucide-react';
+import { TrendingUp, TrendingDown, Euro, CreditCard, Calendar, ChevronLeft, ChevronRight, AlertCircle, RefreshCw } from 'lucide-react';
 
-// Mock data
-const mockCategories = [
-  { id: '1', name: 'Alimentation', color: '#10B981' },
-  { id: '2', name: 'Transport', color: '#3B82F6' },
-  { id: '3', name: 'Loisirs', color: '#8B5CF6' },
-  { id: '4', name: 'Santé', color: '#EF4444' },
-  { id: '5', name: 'Shopping', color: '#F59E0B' },
-];
+// Nombre de mois à demander pour couvrir l'année `year` jusqu'au mois en cours
+const monthsBackTo = (year: number) =>
+  Math.max(dayjs().diff(dayjs(`${year}-01-01`), 'month') + 1, 0);
 
-const mockExpenses = [
-  { id: '1', dateISO: '2025-01-15', label: 'Courses Leclerc', amountCts: 8500, categoryId: '1' },
-  { id: '2', dateISO: '2025-01-10', label: 'Essence', amountCts: 6000, categoryId: '2' },
-  { id: '3', dateISO: '2025-01-20', label: 'Cinéma', amountCts: 2400, categoryId: '3' },
-  { id: '4', dateISO: '2025-01-05', label: 'Pharmacie', amountCts: 1800, categoryId: '4' },
-  { id: '5', dateISO: '2025-01-12', label: 'Vêtements', amountCts: 12000, categoryId: '5' },
-];
+interface WidgetQuery {
+  isPending: boolean;
+  error: Error | null;
+  refetch: () => unknown;
+}
 
-const mockFixedExpenses = [
-  { id: '1', label: 'Loyer', amountCts: 120000, dayOfMonth: 1 },
-  { id: '2', label: 'Électricité', amountCts: 8500, dayOfMonth: 15 },
-  { id: '3', label: 'Internet', amountCts: 3500, dayOfMonth: 10 },
-];
+// Agrège l'état de plusieurs requêtes alimentant un même widget
+const combineQueries = (...queries: WidgetQuery[]): WidgetQuery => ({
+  isPending: queries.some(query => query.isPending),
+  error: queries.find(query => query.error)?.error ?? null,
+  refetch: () => queries.filter(query => query.error).forEach(query => query.refetch()),
+});
 
-const mockMonthSummary = {
-  monthISO: getCurrentMonth(),
-  fixedExpensesTotalCts: 132000, // 1320€
-  recurringIncomesTotalCts: 280000, // 2800€
-  variableExpensesTotalCts: 30700, // 307€
-  otherIncomesTotalCts: 5000, // 50€
-  balanceCts: 122300, // 1223€
-};
+// Chargement et erreur propres à chaque widget, sans bloquer le reste de la page
+function WidgetState({ query, height, children }: { query: WidgetQuery; height: number; children: React.ReactNode }) {
+  if (query.isPending) {
+    return (
+      <div className="flex items-center justify-center" style={{ height }}>
+        <Loading text="Chargement..." />
+      </div>
+    );
+  }
+  
+  if (query.error) {
+    return (
+      <div className="flex flex-col items-center justify-center space-y-3 text-center" style={{ height }}>
+        <div className="flex items-center text-sm text-red-600">
+          <AlertCircle className="h-4 w-4 mr-2" />
+          {query.error.message}
+        </div>
+        <Button variant="outline" size="sm" onClick={() => query.refetch()}>
+          <RefreshCw className="h-4 w-4 mr-2" />
+          Réessayer
+        </Button>
+      </div>
+    );
+  }
+  
+  return <>{children}</>;
+}
 
-// Generate mock year data
-const generateMockYearData = (year: number) => {
-  return Array.from({ length: 12 }, (_, i) => {
-    const monthISO = dayjs().year(year).month(i).format('YYYY-MM');
-    const baseIncome = 280000 + Math.random() * 20000 - 10000;
-    const baseExpenses = 150000 + Math.random() * 30000 - 15000;
-    
-    return {
-      monthISO,
-      recurringIncomesTotalCts: Math.round(baseIncome),
-      otherIncomesTotalCts: Math.round(Math.random() * 10000),
-      fixedExpensesTotalCts: Math.round(baseExpenses * 0.8),
-      variableExpensesTotalCts: Math.round(baseExpenses * 0.2),
-      balanceCts: Math.round(baseIncome - baseExpenses),
-    };
-  });
-};
+function KpiValue({ query, value, className = 'text-gray-900' }: { query: WidgetQuery; value: MoneyCts; className?: string }) {
+  if (query.isPending) return <Loading size="sm" className="justify-start" />;
+  if (query.error) return <span className="text-sm text-red-600">Indisponible</span>;
+  return <span className={className}>{formatCurrency(value)}</span>;
+}
 
 export function Dashboard() {
   const [selectedMonth, setSelectedMonth] = useState(getCurrentMonth());
   const [selectedYear, setSelectedYear] = useState(dayjs().year());
-  const [monthSummary, setMonthSummary] = useState(mockMonthSummary);
-  const [yearSummary, setYearSummary] = useState(generateMockYearData(dayjs().year()));
+  const currentYear = dayjs().year();
+  
+  const yearQuery = useLastMonthsSummary(monthsBackTo(selectedYear));
+  const monthQuery = useMonthSummary(selectedMonth);
+  const categoriesQuery = useCategories();
+  const expensesQuery = useExpenses(selectedMonth);
+  // Mois précédent : reliquat reporté sur les budgets
+  const previousExpensesQuery = useExpenses(dayjs(selectedMonth).subtract(1, 'month').format('YYYY-MM'));
+  const fixedExpensesQuery = useFixedExpenses();
+  const savingsGoalsQuery = useSavingsGoals();
+  // Les versements d'épargne sont financés par le solde prévisionnel du mois en cours
+  const { data: currentForecast } = useForecastWithFallback(getCurrentMonth());
   
-  const { toast } = useToast();
+  const monthSummary = monthQuery.data;
+  const categories = categoriesQuery.data ?? [];
+  const expenses = expensesQuery.data ?? [];
+  const fixedExpenses = fixedExpensesQuery.data ?? [];
   
-  // Update month summary when month changes
-  useEffect(() => {
-    const yearData = generateMockYearData(selectedYear);
-    const monthData = yearData.find(data => data.monthISO === selectedMonth);
-    if (monthData) {
-      setMonthSummary(monthData);
-    }
-  }, [selectedMonth, selectedYear]);
+  const pieQuery = combineQueries(categoriesQuery, expensesQuery, monthQuery);
+  const dailyQuery = combineQueries(expensesQuery, fixedExpensesQuery);
+  const budgetsQuery = combineQueries(categoriesQuery, expensesQuery, previousExpensesQuery);
   
-  // Update year summary when year changes
-  useEffect(() => {
-    setYearSummary(generateMockYearData(selectedYear));
-  }, [selectedYear]);
+  const budgets = getCategoryBudgets(categories, expenses, previousExpensesQuery.data ?? [], selectedMonth);
+  const savingsPlans = getSavingsPlans(savingsGoalsQuery.data ?? [], currentForecast?.projectedBalanceCts);
+  const unfundedPlans = savingsPlans.filter(plan => plan.isUnfunded || plan.isLate);
   
-  // Generate timeline data from year summary
+  // Generate timeline data for the 12 months of the selected year (future months have no summary)
   const timelineData = useMemo(() => {
-    return yearSummary.map((summary) => ({
-      month: dayjs(summary.monthISO).format('MMM'),
-      monthFull: dayjs(summary.monthISO).format('MMMM'),
-      monthISO: summary.monthISO,
-      recettes: summary.recurringIncomesTotalCts + summary.otherIncomesTotalCts,
-      depenses: summary.fixedExpensesTotalCts + summary.variableExpensesTotalCts,
-      solde: summary.balanceCts,
-      isCurrentMonth: summary.monthISO === selectedMonth,
-      isCurrentActualMonth: summary.monthISO === getCurrentMonth(),
-    }));
-  }, [yearSummary, selectedMonth]);
+    const summaries = new Map((yearQuery.data ?? []).map(summary => [summary.monthISO, summary]));
+    return Array.from({ length: 12 }, (_, i) => {
+      const monthISO = dayjs(`${selectedYear}-01-01`).month(i).format('YYYY-MM');
+      const summary = summaries.get(monthISO);
+      return {
+        month: dayjs(monthISO).format('MMM'),
+        monthFull: dayjs(monthISO).format('MMMM'),
+        monthISO,
+        hasData: Boolean(summary),
+        recettes: summary ? summary.recurringIncomesTotalCts + summary.otherIncomesTotalCts : 0,
+        depenses: summary ? summary.fixedExpensesTotalCts + summary.variableExpensesTotalCts : 0,
+        solde: summary?.balanceCts ?? 0,
+        isCurrentMonth: monthISO === selectedMonth,
+        isCurrentActualMonth: monthISO === getCurrentMonth(),
+      };
+    });
+  }, [yearQuery.data, selectedYear, selectedMonth]);
   
   // Generate months data for charts
   const monthsData = useMemo(() => {
-    return timelineData.map(data => ({
+    return timelineData.filter(data => data.hasData).map(data => ({
       month: data.month,
       monthFull: data.monthFull,
       monthISO: data.monthISO,
@@ -108,8 +135,8 @@ export function Dashboard() {
   }, [timelineData]);
   
   // Prepare pie chart data for categories
-  const categoryData = mockCategories.map(category => {
-    const totalCts = mockExpenses
+  const categoryData = categories.map(category => {
+    const totalCts = expenses
       .filter(exp => exp.categoryId === category.id)
       .reduce((sum, exp) => sum + exp.amountCts, 0);
     
@@ -121,7 +148,7 @@ export function Dashboard() {
   }).filter(item => item.value > 0);
   
   // Add fixed expenses as a separate segment
-  if (monthSummary?.fixedExpensesTotalCts > 0) {
+  if (monthSummary && monthSummary.fixedExpensesTotalCts > 0) {
     categoryData.push({
       name: 'Charges fixes',
       value: monthSummary.fixedExpensesTotalCts,
@@ -130,24 +157,29 @@ export function Dashboard() {
   }
   
   // Generate daily cumulative data for the month
+  // Les échéances rapprochées d'une dépense saisie sont déjà comptées avec celle-ci
+  const fixedExpenseOccurrences = fixedExpenses
+    .flatMap(exp => getMonthSchedule(exp, selectedMonth))
+    .filter(occurrence => !occurrence.confirmation?.transactionId);
   const daysInMonth = dayjs(selectedMonth).daysInMonth();
   const dailyData = Array.from({ length: daysInMonth }, (_, i) => {
     const day = i + 1;
+    const date = dayjs(`${selectedMonth}-${day.toString().padStart(2, '0')}`);
     
     // Calculate cumulative expenses up to this day
-    const cumulativeExpenses = mockExpenses
+    const cumulativeExpenses = expenses
       .filter(exp => dayjs(exp.dateISO).date() <= day && dayjs(exp.dateISO).format('YYYY-MM') === selectedMonth)
       .reduce((sum, exp) => sum + exp.amountCts, 0);
     
-    // Add fixed expenses that have occurred up to this day
-    const fixedExpensesCumulative = mockFixedExpenses
-      .filter(exp => exp.dayOfMonth <= day)
-      .reduce((sum, exp) => sum + exp.amountCts, 0);
+    // Add fixed expense occurrences due up to this day
+    const fixedExpensesCumulative = fixedExpenseOccurrences
+      .filter(occurrence => dayjs(occurrence.dateISO).date() <= day)
+      .reduce((sum, occurrence) => sum + occurrence.amountCts, 0);
     
     return {
       day,
       depenses: (cumulativeExpenses + fixedExpensesCumulative) / 100,
-      date: dayjs(`${selectedMonth}-${day.toString().padStart(2, '0')}`).format('DD/MM'),
+      date: date.format('DD/MM'),
     };
   });
   
@@ -160,7 +192,9 @@ export function Dashboard() {
     setSelectedYear(newYear);
     // Update selected month to the same month in the new year
     const currentMonthNumber = dayjs(selectedMonth).month();
-    setSelectedMonth(dayjs().year(newYear).month(currentMonthNumber).format('YYYY-MM'));
+    const month = dayjs().year(newYear).month(currentMonthNumber).format('YYYY-MM');
+    // Pas de données au-delà du mois en cours
+    setSelectedMonth(month > getCurrentMonth() ? getCurrentMonth() : month);
   };
   
   return (
@@ -168,7 +202,6 @@ export function Dashboard() {
       <div className="flex justify-between items-center">
         <div>
           <h1 className="text-3xl font-bold text-gray-900">Tableau de bord</h1>
-          <p className="text-sm text-blue-600 mt-1">Mode démonstration - Données simulées</p>
         </div>
         <div className="flex items-center space-x-2">
           <Button
@@ -183,6 +216,7 @@ export function Dashboard() {
             variant="outline"
             size="sm"
             onClick={() => handleYearChange('next')}
+            disabled={selectedYear >= currentYear}
           >
             <ChevronRight className="h-4 w-4" />
           </Button>
@@ -201,32 +235,41 @@ export function Dashboard() {
           </CardDescription>
         </CardHeader>
         <CardContent>
-          <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-6 xl:grid-cols-12 gap-2">
-            {timelineData.map((data) => (
-              <button
-                key={data.monthISO}
-                onClick={() => handleMonthClick(data.monthISO)}
-                className={`p-3 rounded-lg border-2 transition-all hover:shadow-md ${
-                  data.isCurrentMonth
-                    ? 'border-blue-500 bg-blue-50'
-                    : data.isCurrentActualMonth
-                    ? 'border-green-500 bg-green-50'
-                    : 'border-gray-200 hover:border-gray-300'
-                }`}
-              >
-                <div className="text-sm font-medium text-gray-900 mb-1">
-                  {data.month}
-                </div>
-                <div className={`text-xs font-semibold ${getBalanceColor(data.solde)}`}>
-                  {formatCurrency(data.solde)}
-                </div>
-                <div className="text-xs text-gray-500 mt-1">
-                  <div className="text-green-600">+{formatCurrency(data.recettes)}</div>
-                  <div className="text-red-600">-{formatCurrency(data.depenses)}</div>
-                </div>
-              </button>
-            ))}
-          </div>
+          <WidgetState query={yearQuery} height={120}>
+            <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-6 xl:grid-cols-12 gap-2">
+              {timelineData.map((data) => (
+                <button
+                  key={data.monthISO}
+                  onClick={() => handleMonthClick(data.monthISO)}
+                  disabled={!data.hasData}
+                  className={`p-3 rounded-lg border-2 transition-all hover:shadow-md disabled:opacity-50 disabled:hover:shadow-none ${
+                    data.isCurrentMonth
+                      ? 'border-blue-500 bg-blue-50'
+                      : data.isCurrentActualMonth
+                      ? 'border-green-500 bg-green-50'
+                      : 'border-gray-200 hover:border-gray-300'
+                  }`}
+                >
+                  <div className="text-sm font-medium text-gray-900 mb-1">
+                    {data.month}
+                  </div>
+                  {data.hasData ? (
+                    <>
+                      <div className={`text-xs font-semibold ${getBalanceColor(data.solde)}`}>
+                        {formatCurrency(data.solde)}
+                      </div>
+                      <div className="text-xs text-gray-500 mt-1">
+                        <div className="text-green-600">+{formatCurrency(data.recettes)}</div>
+                        <div className="text-red-600">-{formatCurrency(data.depenses)}</div>
+                      </div>
+                    </>
+                  ) : (
+                    <div className="text-xs text-gray-400">—</div>
+                  )}
+                </button>
+              ))}
+            </div>
+          </WidgetState>
           <div className="mt-4 flex items-center justify-center space-x-6 text-sm text-gray-600">
             <div className="flex items-center">
               <div className="w-3 h-3 border-2 border-blue-500 bg-blue-50 rounded mr-2"></div>
@@ -254,7 +297,10 @@ export function Dashboard() {
                     Total recettes
                   </dt>
                   <dd className="text-lg font-medium text-gray-900">
-                    {formatCurrency((monthSummary?.recurringIncomesTotalCts || 0) + (monthSummary?.otherIncomesTotalCts || 0))}
+                    <KpiValue
+                      query={monthQuery}
+                      value={(monthSummary?.recurringIncomesTotalCts ?? 0) + (monthSummary?.otherIncomesTotalCts ?? 0)}
+                    />
                   </dd>
                 </dl>
               </div>
@@ -274,7 +320,10 @@ export function Dashboard() {
                     Total dépenses
                   </dt>
                   <dd className="text-lg font-medium text-gray-900">
-                    {formatCurrency((monthSummary?.fixedExpensesTotalCts || 0) + (monthSummary?.variableExpensesTotalCts || 0))}
+                    <KpiValue
+                      query={monthQuery}
+                      value={(monthSummary?.fixedExpensesTotalCts ?? 0) + (monthSummary?.variableExpensesTotalCts ?? 0)}
+                    />
                   </dd>
                 </dl>
               </div>
@@ -286,15 +335,19 @@ export function Dashboard() {
           <CardContent className="p-6">
             <div className="flex items-center">
               <div className="flex-shrink-0">
-                <Euro className={`h-8 w-8 ${getBalanceColor(monthSummary?.balanceCts || 0).replace('text-', '')}`} />
+                <Euro className={`h-8 w-8 ${getBalanceColor(monthSummary?.balanceCts ?? 0)}`} />
               </div>
               <div className="ml-5 w-0 flex-1">
                 <dl>
                   <dt className="text-sm font-medium text-gray-500 truncate">
                     Solde du mois
                   </dt>
-                  <dd className={`text-lg font-medium ${getBalanceColor(monthSummary?.balanceCts || 0)}`}>
-                    {formatCurrency(monthSummary?.balanceCts || 0)}
+                  <dd className="text-lg font-medium">
+                    <KpiValue
+                      query={monthQuery}
+                      value={monthSummary?.balanceCts ?? 0}
+                      className={getBalanceColor(monthSummary?.balanceCts ?? 0)}
+                    />
                   </dd>
                 </dl>
               </div>
@@ -314,7 +367,7 @@ export function Dashboard() {
                     Charges fixes
                   </dt>
                   <dd className="text-lg font-medium text-gray-900">
-                    {formatCurrency(monthSummary?.fixedExpensesTotalCts || 0)}
+                    <KpiValue query={monthQuery} value={monthSummary?.fixedExpensesTotalCts ?? 0} />
                   </dd>
                 </dl>
               </div>
@@ -332,30 +385,32 @@ export function Dashboard() {
             <CardDescription>Par catégorie pour {dayjs(selectedMonth).format('MMMM YYYY')}</CardDescription>
           </CardHeader>
           <CardContent>
-            {categoryData.length > 0 ? (
-              <ResponsiveContainer width="100%" height={300}>
-                <PieChart>
-                  <Pie
-                    data={categoryData}
-                    cx="50%"
-                    cy="50%"
-                    outerRadius={80}
-                    dataKey="value"
-                    labelLine={false}
-                    label={({ name, percent }) => `${name} ${(percent * 100).toFixed(0)}%`}
-                  >
-                    {categoryData.map((entry, index) => (
-                      <Cell key={`cell-${index}`} fill={entry.color} />
-                    ))}
-                  </Pie>
-                  <Tooltip formatter={(value) => formatCurrency(value as number)} />
-                </PieChart>
-              </ResponsiveContainer>
-            ) : (
-              <div className="flex items-center justify-center h-[300px] text-gray-500">
-                Aucune dépense pour ce mois
-              </div>
-            )}
+            <WidgetState query={pieQuery} height={300}>
+              {categoryData.length > 0 ? (
+                <ResponsiveContainer width="100%" height={300}>
+                  <PieChart>
+                    <Pie
+                      data={categoryData}
+                      cx="50%"
+                      cy="50%"
+                      outerRadius={80}
+                      dataKey="value"
+                      labelLine={false}
+                      label={({ name, percent }) => `${name} ${((percent ?? 0) * 100).toFixed(0)}%`}
+                    >
+                      {categoryData.map((entry, index) => (
+                        <Cell key={`cell-${index}`} fill={entry.color} />
+                      ))}
+                    </Pie>
+                    <Tooltip formatter={(value) => formatCurrency(value as number)} />
+                  </PieChart>
+                </ResponsiveContainer>
+              ) : (
+                <div className="flex items-center justify-center h-[300px] text-gray-500">
+                  Aucune dépense pour ce mois
+                </div>
+              )}
+            </WidgetState>
           </CardContent>
         </Card>
         
@@ -366,27 +421,82 @@ export function Dashboard() {
             <CardDescription>Cumul journalier pour {dayjs(selectedMonth).format('MMMM YYYY')}</CardDescription>
           </CardHeader>
           <CardContent>
-            <ResponsiveContainer width="100%" height={300}>
-              <LineChart data={dailyData}>
-                <CartesianGrid strokeDasharray="3 3" />
-                <XAxis dataKey="day" />
-                <YAxis tickFormatter={(value) => `${value}€`} />
-                <Tooltip 
-                  formatter={(value) => [`${value}€`, 'Dépenses cumulées']}
-                  labelFormatter={(day) => `Jour ${day}`}
-                />
-                <Line 
-                  type="monotone" 
-                  dataKey="depenses" 
-                  stroke="#DC2626" 
-                  strokeWidth={2}
-                />
-              </LineChart>
-            </ResponsiveContainer>
+            <WidgetState query={dailyQuery} height={300}>
+              <ResponsiveContainer width="100%" height={300}>
+                <LineChart data={dailyData}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="day" />
+                  <YAxis tickFormatter={(value) => `${value}€`} />
+                  <Tooltip 
+                    formatter={(value) => [`${value}€`, 'Dépenses cumulées']}
+                    labelFormatter={(day) => `Jour ${day}`}
+                  />
+                  <Line 
+                    type="monotone" 
+                    dataKey="depenses" 
+                    stroke="#DC2626" 
+                    strokeWidth={2}
+                  />
+                </LineChart>
+              </ResponsiveContainer>
+            </WidgetState>
           </CardContent>
         </Card>
       </div>
       
+      {/* Category budgets */}
+      {budgets.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Budgets par catégorie</CardTitle>
+            <CardDescription>
+              Dépensé pour {dayjs(selectedMonth).format('MMMM YYYY')}, le trait indique le rythme attendu à ce jour
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <WidgetState query={budgetsQuery} height={120}>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-x-8 gap-y-4">
+                {budgets.map(budget => (
+                  <div key={budget.category.id}>
+                    <div className="flex items-center text-sm font-medium text-gray-900 mb-1">
+                      <span className="h-3 w-3 rounded-full mr-2" style={{ backgroundColor: budget.category.color }} />
+                      {budget.category.name}
+                    </div>
+                    <BudgetProgress budget={budget} />
+                  </div>
+                ))}
+              </div>
+            </WidgetState>
+          </CardContent>
+        </Card>
+      )}
+      
+      {/* Savings goals */}
+      {(savingsGoalsQuery.isPending || savingsGoalsQuery.error || savingsPlans.length > 0) && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Objectifs d'épargne</CardTitle>
+            <CardDescription>
+              {unfundedPlans.length > 0
+                ? `${unfundedPlans.length} objectif${unfundedPlans.length > 1 ? 's' : ''} non couvert${unfundedPlans.length > 1 ? 's' : ''} par le solde prévisionnel du mois`
+                : 'Versements du mois couverts par le solde prévisionnel'}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <WidgetState query={savingsGoalsQuery} height={120}>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-x-8 gap-y-4">
+                {savingsPlans.map(plan => (
+                  <div key={plan.goal.id}>
+                    <div className="text-sm font-medium text-gray-900 mb-1">{plan.goal.name}</div>
+                    <SavingsGoalProgress plan={plan} />
+                  </div>
+                ))}
+              </div>
+            </WidgetState>
+          </CardContent>
+        </Card>
+      )}
+      
       {/* Bar Chart - 12 months comparison */}
       <Card>
         <CardHeader>
@@ -394,22 +504,24 @@ export function Dashboard() {
           <CardDescription>Comparaison recettes vs dépenses</CardDescription>
         </CardHeader>
         <CardContent>
-          <ResponsiveContainer width="100%" height={400}>
-            <BarChart data={monthsData} margin={{ top: 20, right: 30, left: 20, bottom: 5 }}>
-              <CartesianGrid strokeDasharray="3 3" />
-              <XAxis dataKey="month" />
-              <YAxis tickFormatter={(value) => `${(value / 100).toFixed(0)}€`} />
-              <Tooltip 
-                formatter={(value, name) => [
-                  formatCurrency(value as number), 
-                  name === 'recettes' ? 'Recettes' : name === 'depenses' ? 'Dépenses' : 'Solde'
-                ]}
-              />
-              <Bar dataKey="recettes" fill="#16A34A" name="recettes" />
-              <Bar dataKey="depenses" fill="#DC2626" name="depenses" />
-              <Bar dataKey="solde" fill="#2563EB" name="solde" />
-            </BarChart>
-          </ResponsiveContainer>
+          <WidgetState query={yearQuery} height={400}>
+            <ResponsiveContainer width="100%" height={400}>
+              <BarChart data={monthsData} margin={{ top: 20, right: 30, left: 20, bottom: 5 }}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="month" />
+                <YAxis tickFormatter={(value) => `${(value / 100).toFixed(0)}€`} />
+                <Tooltip 
+                  formatter={(value, name) => [
+                    formatCurrency(value as number), 
+                    name === 'recettes' ? 'Recettes' : name === 'depenses' ? 'Dépenses' : 'Solde'
+                  ]}
+                />
+                <Bar dataKey="recettes" fill="#16A34A" name="recettes" />
+                <Bar dataKey="depenses" fill="#DC2626" name="depenses" />
+                <Bar dataKey="solde" fill="#2563EB" name="solde" />
+              </BarChart>
+            </ResponsiveContainer>
+          </WidgetState>
         </CardContent>
       </Card>
     </div>
@@ -0,0 +1,380 @@
+import { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { ArrowRightLeft, Trash2 } from 'lucide-react';
+import { Button } from '../components/ui/button';
+import { Input } from '../components/ui/input';
+import { Loading, LoadingCard } from '../components/ui/loading';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../components/ui/card';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '../components/ui/dialog';
+import { useToast } from '../components/ui/use-toast';
+import { UndoToastAction } from '../components/UndoToastAction';
+import { useEnvelopeAllocations, useEnvelopeMonth, useEnvelopeMoves } from '../hooks/queries';
+import { useAddEnvelopeAllocation, useAddEnvelopeMove, useDeleteEnvelopeMove, useUpdateEnvelopeAllocation } from '../hooks/mutations';
+import { usePreferencesStore } from '../store/preferences';
+import { formatCurrency, formatDate, getBalanceColor, getCurrentDate, getCurrentMonth, parseCurrency } from '../lib/utils';
+import { Envelope } from '../lib/envelopes';
+
+const moveSchema = z
+  .object({
+    fromCategoryId: z.string().min(1, 'Choisissez une enveloppe'),
+    toCategoryId: z.string().min(1, 'Choisissez une enveloppe'),
+    amount: z.string().refine(value => parseCurrency(value) > 0, 'Le montant doit être positif'),
+    note: z.string(),
+  })
+  .refine(move => move.fromCategoryId !== move.toCategoryId, {
+    message: 'Les deux enveloppes doivent être différentes',
+    path: ['toCategoryId'],
+  });
+
+type MoveForm = z.infer<typeof moveSchema>;
+
+const selectClassName =
+  'w-full rounded-md border border-gray-300 bg-white px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+export function Envelopes() {
+  const [selectedMonth, setSelectedMonth] = useState(getCurrentMonth());
+  const [showMoveDialog, setShowMoveDialog] = useState(false);
+  const { envelopeMode, setEnvelopeMode } = usePreferencesStore();
+  const { data: envelopeMonth, isPending, error: loadError } = useEnvelopeMonth(selectedMonth);
+  const { data: allocations = [] } = useEnvelopeAllocations(selectedMonth);
+  const { data: moves = [] } = useEnvelopeMoves(selectedMonth);
+  const addAllocation = useAddEnvelopeAllocation();
+  const updateAllocation = useUpdateEnvelopeAllocation();
+  const addMove = useAddEnvelopeMove();
+  const deleteMove = useDeleteEnvelopeMove();
+  const loading = addAllocation.isPending || updateAllocation.isPending || addMove.isPending || deleteMove.isPending;
+  const error = loadError ?? addAllocation.error ?? updateAllocation.error ?? addMove.error ?? deleteMove.error;
+  const { toast } = useToast();
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+    reset,
+  } = useForm<MoveForm>({
+    resolver: zodResolver(moveSchema),
+    defaultValues: { fromCategoryId: '', toCategoryId: '', amount: '', note: '' },
+  });
+
+  // Une seule allocation par enveloppe et par mois : modifiée si elle existe déjà
+  const handleAllocate = async (envelope: Envelope, value: string) => {
+    const amountCts = value.trim() ? parseCurrency(value) : 0;
+    if (amountCts === envelope.allocatedCts) return;
+    const existing = allocations.find(allocation => allocation.categoryId === envelope.category.id);
+
+    try {
+      const { undo } = existing
+        ? await updateAllocation.mutateAsync({ id: existing.id, updates: { amountCts } })
+        : await addAllocation.mutateAsync({ monthISO: selectedMonth, categoryId: envelope.category.id, amountCts });
+      toast({
+        title: 'Enveloppe mise à jour',
+        description: `${formatCurrency(amountCts)} alloués à "${envelope.category.name}"`,
+        action: <UndoToastAction onUndo={undo} />,
+      });
+    } catch {
+      // Error is shown in the page banner
+    }
+  };
+
+  const onSubmitMove = async (data: MoveForm) => {
+    try {
+      const { undo } = await addMove.mutateAsync({
+        monthISO: selectedMonth,
+        // Un virement saisi depuis un autre mois est daté du premier jour du mois concerné
+        dateISO: getCurrentDate().startsWith(selectedMonth) ? getCurrentDate() : `${selectedMonth}-01`,
+        fromCategoryId: data.fromCategoryId,
+        toCategoryId: data.toCategoryId,
+        amountCts: parseCurrency(data.amount),
+        note: data.note.trim() || undefined,
+      });
+      toast({
+        title: 'Virement enregistré',
+        description: `${formatCurrency(parseCurrency(data.amount))} déplacés entre enveloppes`,
+        action: <UndoToastAction onUndo={undo} />,
+      });
+      reset();
+      setShowMoveDialog(false);
+    } catch {
+      // Error is shown in the page banner
+    }
+  };
+
+  const handleDeleteMove = async (id: string) => {
+    try {
+      const { undo } = await deleteMove.mutateAsync(id);
+      toast({
+        title: 'Virement supprimé',
+        action: <UndoToastAction onUndo={undo} />,
+      });
+    } catch {
+      // Error is shown in the page banner
+    }
+  };
+
+  if (isPending && !error) {
+    return <LoadingCard text="Chargement des enveloppes..." />;
+  }
+
+  const envelopes = envelopeMonth?.envelopes ?? [];
+  const categoryName = (id: string) => envelopes.find(envelope => envelope.category.id === id)?.category.name ?? 'Catégorie supprimée';
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-md p-4">
+          <p className="text-red-600">Erreur: {error.message}</p>
+        </div>
+      )}
+
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Enveloppes</h1>
+          <p className="text-gray-600 mt-1">
+            Répartissez chaque euro reçu dans le mois entre vos catégories de dépenses
+          </p>
+        </div>
+        <div className="flex items-center space-x-4">
+          <label className="flex items-center text-sm text-gray-700">
+            <input
+              type="checkbox"
+              className="mr-2"
+              checked={envelopeMode}
+              onChange={(e) => setEnvelopeMode(e.target.checked)}
+            />
+            Mode enveloppes
+          </label>
+          <input
+            type="month"
+            value={selectedMonth}
+            onChange={(e) => setSelectedMonth(e.target.value)}
+            className="rounded-md border border-gray-300 px-3 py-2 text-sm"
+          />
+        </div>
+      </div>
+
+      {!envelopeMode && (
+        <div className="bg-blue-50 border border-blue-200 rounded-md p-4">
+          <p className="text-blue-800">
+            Le mode enveloppes est désactivé : activez-le pour suivre le reste à allouer et le solde des enveloppes
+            lors de la saisie des dépenses.
+          </p>
+        </div>
+      )}
+
+      {envelopeMonth && (
+        <div className="grid grid-cols-1 gap-5 sm:grid-cols-3">
+          <Card>
+            <CardContent className="p-6">
+              <dt className="text-sm font-medium text-gray-500">Revenus du mois</dt>
+              <dd className="text-lg font-medium text-green-600">{formatCurrency(envelopeMonth.incomeCts)}</dd>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardContent className="p-6">
+              <dt className="text-sm font-medium text-gray-500">Alloué</dt>
+              <dd className="text-lg font-medium text-gray-900">{formatCurrency(envelopeMonth.allocatedCts)}</dd>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardContent className="p-6">
+              <dt className="text-sm font-medium text-gray-500">Reste à allouer</dt>
+              <dd className={`text-lg font-medium ${getBalanceColor(envelopeMonth.toAllocateCts)}`}>
+                {formatCurrency(envelopeMonth.toAllocateCts)}
+              </dd>
+              {envelopeMonth.toAllocateCts < 0 && (
+                <p className="text-xs text-red-600 mt-1">Vous avez alloué plus que vos revenus du mois</p>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      )}
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle>Enveloppes du mois</CardTitle>
+              <CardDescription>Modifiez le montant alloué puis quittez le champ pour l'enregistrer</CardDescription>
+            </div>
+            <Button variant="outline" onClick={() => setShowMoveDialog(true)} disabled={envelopes.length < 2}>
+              <ArrowRightLeft className="h-4 w-4 mr-2" />
+              Déplacer
+            </Button>
+          </div>
+          {loading && <Loading size="sm" />}
+        </CardHeader>
+        <CardContent>
+          {envelopes.length === 0 ? (
+            <div className="text-center py-8 text-gray-500">
+              <p>Aucune catégorie configurée</p>
+              <p className="text-sm mt-1">Chaque catégorie de dépenses dispose de son enveloppe</p>
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-500 border-b border-gray-200">
+                    <th className="py-2 pr-4 font-medium">Enveloppe</th>
+                    <th className="py-2 pr-4 font-medium">Alloué (€)</th>
+                    <th className="py-2 pr-4 font-medium text-right">Virements</th>
+                    <th className="py-2 pr-4 font-medium text-right">Dépensé</th>
+                    <th className="py-2 font-medium text-right">Disponible</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {envelopes.map(envelope => (
+                    <tr key={envelope.category.id}>
+                      <td className="py-2 pr-4">
+                        <span className="flex items-center">
+                          <span
+                            className="h-3 w-3 rounded-full mr-2 shrink-0"
+                            style={{ backgroundColor: envelope.category.color }}
+                          />
+                          {envelope.category.name}
+                        </span>
+                      </td>
+                      <td className="py-2 pr-4">
+                        <Input
+                          // Réinitialisé quand l'allocation change ailleurs (annulation, autre onglet)
+                          key={`${selectedMonth}-${envelope.allocatedCts}`}
+                          defaultValue={envelope.allocatedCts ? (envelope.allocatedCts / 100).toFixed(2) : ''}
+                          placeholder="0,00"
+                          lang="fr-FR"
+                          className="w-32"
+                          onBlur={(e) => handleAllocate(envelope, e.target.value)}
+                          onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+                        />
+                      </td>
+                      <td className="py-2 pr-4 text-right text-gray-600">
+                        {envelope.movedCts > 0 && '+'}
+                        {formatCurrency(envelope.movedCts)}
+                      </td>
+                      <td className="py-2 pr-4 text-right text-gray-600">{formatCurrency(envelope.spentCts)}</td>
+                      <td className={`py-2 text-right font-medium ${getBalanceColor(envelope.availableCts)}`}>
+                        {formatCurrency(envelope.availableCts)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Virements entre enveloppes</CardTitle>
+          <CardDescription>
+            {moves.length} virement{moves.length > 1 ? 's' : ''} ce mois-ci
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {moves.length === 0 ? (
+            <p className="text-sm text-gray-500">Aucun virement enregistré</p>
+          ) : (
+            <ul className="divide-y divide-gray-200 text-sm">
+              {[...moves]
+                .sort((a, b) => b.dateISO.localeCompare(a.dateISO))
+                .map(move => (
+                  <li key={move.id} className="flex items-center justify-between py-2">
+                    <div>
+                      <span className="text-gray-500 mr-2">{formatDate(move.dateISO)}</span>
+                      {categoryName(move.fromCategoryId)} → {categoryName(move.toCategoryId)}
+                      {move.note && <span className="text-gray-500"> · {move.note}</span>}
+                    </div>
+                    <div className="flex items-center space-x-4">
+                      <span className="font-medium">{formatCurrency(move.amountCts)}</span>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => handleDeleteMove(move.id)}
+                        className="text-red-600 hover:text-red-700"
+                        title="Supprimer"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </li>
+                ))}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Move between envelopes */}
+      <Dialog open={showMoveDialog} onOpenChange={setShowMoveDialog}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Déplacer entre enveloppes</DialogTitle>
+            <DialogDescription>
+              Le montant est retiré de la première enveloppe et ajouté à la seconde, sans changer le reste à allouer.
+            </DialogDescription>
+          </DialogHeader>
+
+          <form onSubmit={handleSubmit(onSubmitMove)} className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Depuis *</label>
+              <select {...register('fromCategoryId')} className={selectClassName}>
+                <option value="">Choisir une enveloppe</option>
+                {envelopes.map(envelope => (
+                  <option key={envelope.category.id} value={envelope.category.id}>
+                    {envelope.category.name} ({formatCurrency(envelope.availableCts)})
+                  </option>
+                ))}
+              </select>
+              {errors.fromCategoryId && (
+                <p className="mt-1 text-sm text-red-600">{errors.fromCategoryId.message}</p>
+              )}
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Vers *</label>
+              <select {...register('toCategoryId')} className={selectClassName}>
+                <option value="">Choisir une enveloppe</option>
+                {envelopes.map(envelope => (
+                  <option key={envelope.category.id} value={envelope.category.id}>
+                    {envelope.category.name} ({formatCurrency(envelope.availableCts)})
+                  </option>
+                ))}
+              </select>
+              {errors.toCategoryId && (
+                <p className="mt-1 text-sm text-red-600">{errors.toCategoryId.message}</p>
+              )}
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Montant (€) *</label>
+              <Input {...register('amount')} placeholder="0,00" lang="fr-FR" />
+              {errors.amount && <p className="mt-1 text-sm text-red-600">{errors.amount.message}</p>}
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Note</label>
+              <Input {...register('note')} placeholder="Courses plus chères que prévu..." />
+            </div>
+
+            <DialogFooter className="gap-2">
+              <Button type="button" variant="outline" onClick={() => setShowMoveDialog(false)}>
+                Annuler
+              </Button>
+              <Button type="submit" disabled={addMove.isPending}>
+                {addMove.isPending && <Loading size="sm" className="mr-2" />}
+                Déplacer
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -8,10 +8,19 @@ import React, {
   FormEvent,
 } from "react";
 import { useNavigate } from "react-router-dom";
-import { useBudgetStore } from '../store/budget';
+import { useAccounts, useCategories, useExpenses } from '../hooks/queries';
+import { useAddExpense } from '../hooks/mutations';
 import { useToast } from '../components/ui/use-toast';
+import { UndoToastAction } from '../components/UndoToastAction';
+import { useFormDraft } from '../hooks/useFormDraft';
 import { Loading } from '../components/ui/loading';
-import { parseCurrency } from '../lib/utils';
+import { getCurrentMonth, parseCurrency } from '../lib/utils';
+import { getCategoryBudget } from '../lib/budget';
+import { getDefaultAccountId } from '../lib/accounts';
+import { BudgetProgress } from '../components/BudgetProgress';
+import { EnvelopeBalance } from '../components/EnvelopeBalance';
+import { usePreferencesStore } from '../store/preferences';
+import dayjs from 'dayjs';
 
 /**
  * Types locaux (adapte si tu as déjà des types globaux)
@@ -244,15 +253,11 @@ const Card: React.FC<{ title?: string; children: React.ReactNode }> = ({
  */
 const ExpenseEntry: React.FC = () => {
   const navigate = useNavigate();
-  const { 
-    categories, 
-    addExpense, 
-    loadCategories, 
-    getExpenseLabels,
-    loading,
-    error,
-    apiFailure
-  } = useBudgetStore();
+  const { data: categories = [], isPending: loading, error } = useCategories();
+  const { data: monthExpenses = [] } = useExpenses(getCurrentMonth());
+  const { data: accounts = [] } = useAccounts();
+  const addExpense = useAddExpense();
+  const envelopeMode = usePreferencesStore((state) => state.envelopeMode);
   const { toast } = useToast();
 
   // État formulaire
@@ -260,8 +265,22 @@ const ExpenseEntry: React.FC = () => {
   const [label, setLabel] = useState<string>("");
   const [amount, setAmount] = useState<string>("");
   const [categoryId, setCategoryId] = useState<string>("");
+  const [accountId, setAccountId] = useState<string>("");
   const [submitting, setSubmitting] = useState(false);
 
+  // Budget de la catégorie choisie, pour le mois de la dépense
+  const entryMonth = date.slice(0, 7);
+  const { data: entryMonthExpenses } = useExpenses(entryMonth);
+  const { data: previousMonthExpenses = [] } = useExpenses(dayjs(entryMonth).subtract(1, 'month').format('YYYY-MM'));
+  const selectedCategory = categories.find((c) => c.id === categoryId);
+  const categoryBudget =
+    selectedCategory && entryMonthExpenses
+      ? getCategoryBudget(selectedCategory, entryMonthExpenses, previousMonthExpenses, entryMonth)
+      : undefined;
+  const pendingCts = Number(amount) > 0 ? parseCurrency(amount) : 0;
+  const exceedsBudget =
+    categoryBudget !== undefined && pendingCts > 0 && categoryBudget.spentCts + pendingCts > categoryBudget.budgetCts;
+
   // Suggestions
   const [openSuggest, setOpenSuggest] = useState<boolean>(false);
   const [activeIndex, setActiveIndex] = useState<number>(-1); // navigation clavier
@@ -273,28 +292,30 @@ const ExpenseEntry: React.FC = () => {
   const [labelToCategory, setLabelToCategory] = useState<Record<string, string>>(
     () => loadLabelToCategory()
   );
+
+  // Saisie conservée si la session expire avant l'enregistrement
+  useFormDraft(
+    'expense-entry',
+    label || amount ? { date, label, amount, categoryId, accountId } : null,
+    (draft) => {
+      setDate(draft.date);
+      setLabel(draft.label);
+      setAmount(draft.amount);
+      setCategoryId(draft.categoryId);
+      setAccountId(draft.accountId ?? "");
+    }
+  );
   
-  // Load categories on mount
+  // Signale le mode dégradé si les catégories n'ont pas pu être chargées
   useEffect(() => {
-    if (apiFailure) {
-      console.log('API marked as failed, skipping categories load');
+    if (error) {
       toast({
         title: 'Mode hors ligne',
         description: 'Impossible de charger les catégories. Fonctionnalité limitée.',
         variant: 'destructive',
       });
-      return;
     }
-    
-    const loadData = async () => {
-      try {
-        await loadCategories();
-      } catch (error) {
-        console.error('Error loading categories:', error);
-      }
-    };
-    loadData();
-  }, [loadCategories, apiFailure, toast]);
+  }, [error, toast]);
   
   // Set default category when categories are loaded
   useEffect(() => {
@@ -303,19 +324,30 @@ const ExpenseEntry: React.FC = () => {
     }
   }, [categories, categoryId]);
 
-  // Debug: log categories to see if they're loaded
-  console.log('Categories in ExpenseEntry:', categories);
+  // Compte par défaut pré-sélectionné quand des comptes existent
+  useEffect(() => {
+    const defaultAccountId = getDefaultAccountId(accounts);
+    if (defaultAccountId && !accountId) {
+      setAccountId(defaultAccountId);
+    }
+  }, [accounts, accountId]);
+
+  // Libellés déjà saisis ce mois-ci, du plus fréquent au moins fréquent
+  const expenseLabels = useMemo(() => {
+    const counts = new Map<string, number>();
+    monthExpenses.forEach((exp) => counts.set(exp.label, (counts.get(exp.label) ?? 0) + 1));
+    return Array.from(counts.keys()).sort((a, b) => counts.get(b)! - counts.get(a)!);
+  }, [monthExpenses]);
 
   // Suggestions filtrées
   const suggestions = useMemo(() => {
     const value = label.trim().toLowerCase();
-    const expenseLabels = getExpenseLabels();
     const pool = [...expenseLabels, ...SUGGESTION_POOL];
     if (!value) return pool.slice(0, 6);
     return pool
       .filter((x) => x.toLowerCase().includes(value))
       .slice(0, 8);
-  }, [label]);
+  }, [label, expenseLabels]);
 
   // Ouvre les suggestions quand on tape, les ferme si champ vide blur etc.
   useEffect(() => {
@@ -386,11 +418,12 @@ const ExpenseEntry: React.FC = () => {
       label: label.trim(),
       amountCts: parseCurrency(amount),
       categoryId,
+      accountId: accountId || undefined,
     };
 
     try {
       setSubmitting(true);
-      await addExpense(expenseData);
+      const { queued, undo } = await addExpense.mutateAsync(expenseData);
       
       // Mémoriser le mapping label→catégorie
       const key = expenseData.label.toLowerCase();
@@ -399,8 +432,11 @@ const ExpenseEntry: React.FC = () => {
       saveLabelToCategory(updated);
       
       toast({
-        title: 'Dépense ajoutée',
-        description: `${expenseData.label} - ${currency(a)}`,
+        title: queued ? 'Dépense enregistrée hors ligne' : exceedsBudget ? 'Dépense ajoutée, budget dépassé' : 'Dépense ajoutée',
+        description: queued
+          ? `${expenseData.label} - ${currency(a)}, en attente de synchronisation`
+          : `${expenseData.label} - ${currency(a)}`,
+        action: <UndoToastAction onUndo={undo} />,
       });
       
       // Redirige vers la chronologie après enregistrement
@@ -411,7 +447,7 @@ const ExpenseEntry: React.FC = () => {
       console.error('Error adding expense:', error);
       toast({
         title: 'Erreur',
-        description: 'Impossible d\'ajouter la dépense',
+        description: error instanceof Error ? error.message : 'Impossible d\'ajouter la dépense',
         variant: 'destructive',
       });
     } finally {
@@ -440,7 +476,7 @@ const ExpenseEntry: React.FC = () => {
     <div className="max-w-5xl mx-auto p-4 lg:p-6">
       {error && (
         <div className="mb-4 bg-red-50 border border-red-200 rounded-md p-4">
-          <p className="text-red-600">Erreur: {error}</p>
+          <p className="text-red-600">Erreur: {error.message}</p>
         </div>
       )}
       
@@ -540,6 +576,35 @@ const ExpenseEntry: React.FC = () => {
               ))}
             </Select>
 
+            {accounts.length > 0 && (
+              <Select
+                label="Compte"
+                value={accountId}
+                onChange={(e) => setAccountId(e.target.value)}
+              >
+                {accounts.map((account) => (
+                  <option value={account.id} key={account.id}>
+                    {account.name}
+                  </option>
+                ))}
+              </Select>
+            )}
+
+            {categoryBudget && (
+              <div>
+                <BudgetProgress budget={categoryBudget} pendingCts={pendingCts} />
+                {exceedsBudget && (
+                  <p className="mt-1 text-xs text-red-600">
+                    Cette dépense fait dépasser le budget « {categoryBudget.category.name} »
+                  </p>
+                )}
+              </div>
+            )}
+
+            {envelopeMode && categoryId && (
+              <EnvelopeBalance categoryId={categoryId} monthISO={entryMonth} pendingCts={pendingCts} />
+            )}
+
             <div className="pt-2 flex items-center gap-2">
               <Button type="submit" disabled={submitting || loading}>
                 {submitting ? <Loading size="sm" /> : 'Enregistrer'}
@@ -1,46 +1,65 @@
-import React, { useState } from 'react';
-import { useEffect } from 'react';
-import { useForm } from 'react-hook-form';
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Controller, useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
-import { Plus, Edit, Trash2, X, Check } from 'lucide-react';
+import { Plus, Edit, Trash2, X, Check, History } from 'lucide-react';
 import { Button } from '../components/ui/button';
 import { Input } from '../components/ui/input';
 import { Loading, LoadingCard } from '../components/ui/loading';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../components/ui/card';
 import { useToast } from '../components/ui/use-toast';
-import { useBudgetStore } from '../store/budget';
-import { formatCurrency, formatDate, parseCurrency } from '../lib/utils';
-import { FixedExpense } from '../types';
+import { UndoToastAction } from '../components/UndoToastAction';
+import { RecurrenceFields } from '../components/RecurrenceFields';
+import { AmountHistoryDialog } from '../components/AmountHistoryDialog';
+import { IndexationFields } from '../components/IndexationFields';
+import { useFormDraft } from '../hooks/useFormDraft';
+import { useAccounts, useFixedExpenses, useLoans } from '../hooks/queries';
+import { useAddFixedExpense, useUpdateFixedExpense, useDeleteFixedExpense } from '../hooks/mutations';
+import { formatCurrency, formatDate, getCurrentDate, parseCurrency } from '../lib/utils';
+import {
+  DEFAULT_RECURRENCE,
+  describeRecurrence,
+  getAmountAt,
+  getNextIndexation,
+  getNextOccurrence,
+  indexationFormSchema,
+  recurrenceFormSchema,
+} from '../lib/recurrence';
+import { AmountRevision, FixedExpense } from '../types';
 
 const fixedExpenseSchema = z.object({
   label: z.string().min(1, 'Le libellé est obligatoire'),
   amount: z.string().min(1, 'Le montant est obligatoire'),
-  dayOfMonth: z.coerce.number().min(1, 'Le jour doit être entre 1 et 31').max(31, 'Le jour doit être entre 1 et 31'),
+  recurrence: recurrenceFormSchema,
+  indexation: indexationFormSchema.optional(),
   startDate: z.string().min(1, 'La date de début est obligatoire'),
   endDate: z.string().optional(),
+  // Vide : compte par défaut
+  accountId: z.string().optional(),
 });
 
 type FixedExpenseForm = z.infer<typeof fixedExpenseSchema>;
 
+const selectClassName =
+  'w-full rounded-md border border-gray-300 bg-white px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500';
+
 export function FixedExpenses() {
-  const { 
-    fixedExpenses, 
-    addFixedExpense, 
-    updateFixedExpense, 
-    deleteFixedExpense,
-    loadFixedExpenses,
-    loading,
-    error 
-  } = useBudgetStore();
+  const { data: fixedExpenses = [], isPending, error: loadError } = useFixedExpenses();
+  // Les charges générées par un prêt se modifient depuis le prêt
+  const { data: loans = [] } = useLoans();
+  const { data: accounts = [] } = useAccounts();
+  const loanIds = new Set(loans.map(loan => loan.fixedExpenseId));
+  const addFixedExpense = useAddFixedExpense();
+  const updateFixedExpense = useUpdateFixedExpense();
+  const deleteFixedExpense = useDeleteFixedExpense();
+  const loading = isPending || addFixedExpense.isPending || updateFixedExpense.isPending || deleteFixedExpense.isPending;
+  const error = loadError ?? addFixedExpense.error ?? updateFixedExpense.error ?? deleteFixedExpense.error;
   const { toast } = useToast();
   const [editingId, setEditingId] = useState<string | null>(null);
   const [showForm, setShowForm] = useState(false);
-  
-  // Load data on mount
-  useEffect(() => {
-    loadFixedExpenses();
-  }, []);
+  const [historyId, setHistoryId] = useState<string | null>(null);
+  const editingItem = fixedExpenses.find(expense => expense.id === editingId);
   
   const {
     register,
@@ -48,10 +67,24 @@ export function FixedExpenses() {
     formState: { errors },
     reset,
     setValue,
+    watch,
+    control,
   } = useForm<FixedExpenseForm>({
     resolver: zodResolver(fixedExpenseSchema),
+    defaultValues: { recurrence: DEFAULT_RECURRENCE },
   });
   
+  // Saisie conservée si la session expire avant l'enregistrement
+  useFormDraft<{ editingId: string | null; values: FixedExpenseForm }>(
+    'fixed-expense-form',
+    showForm ? { editingId, values: watch() } : null,
+    (draft) => {
+      setEditingId(draft.editingId);
+      setShowForm(true);
+      reset(draft.values);
+    }
+  );
+  
   const onSubmit = async (data: FixedExpenseForm) => {
     const amountCts = parseCurrency(data.amount);
     
@@ -67,31 +100,35 @@ export function FixedExpenses() {
     const expenseData = {
       label: data.label,
       amountCts,
-      dayOfMonth: data.dayOfMonth,
+      recurrence: data.recurrence,
+      indexation: data.indexation ?? null,
       startDate: data.startDate,
       endDate: data.endDate || undefined,
+      accountId: data.accountId || undefined,
     };
     
     if (editingId) {
       try {
-        await updateFixedExpense(editingId, expenseData);
+        const { undo } = await updateFixedExpense.mutateAsync({ id: editingId, updates: expenseData });
         toast({
           title: 'Charge fixe modifiée',
           description: 'La charge fixe a été mise à jour avec succès',
+          action: <UndoToastAction onUndo={undo} />,
         });
         setEditingId(null);
       } catch (error) {
-        // Error is handled in the store
+        // Error is shown in the page banner
       }
     } else {
       try {
-        await addFixedExpense(expenseData);
+        const { undo } = await addFixedExpense.mutateAsync(expenseData);
         toast({
           title: 'Charge fixe ajoutée',
           description: 'La nouvelle charge fixe a été créée avec succès',
+          action: <UndoToastAction onUndo={undo} />,
         });
       } catch (error) {
-        // Error is handled in the store
+        // Error is shown in the page banner
       }
     }
     
@@ -104,39 +141,55 @@ export function FixedExpenses() {
     setShowForm(true);
     setValue('label', expense.label);
     setValue('amount', (expense.amountCts / 100).toFixed(2));
-    setValue('dayOfMonth', expense.dayOfMonth);
+    setValue('recurrence', expense.recurrence);
+    setValue('indexation', expense.indexation);
     setValue('startDate', expense.startDate);
     setValue('endDate', expense.endDate || '');
+    setValue('accountId', expense.accountId ?? '');
   };
   
   const handleDelete = async (id: string, label: string) => {
-    if (window.confirm(`Êtes-vous sûr de vouloir supprimer "${label}" ?`)) {
-      try {
-        await deleteFixedExpense(id);
-        toast({
-          title: 'Charge fixe supprimée',
-          description: 'La charge fixe a été supprimée avec succès',
-        });
-      } catch (error) {
-        // Error is handled in the store
-      }
+    try {
+      const { undo } = await deleteFixedExpense.mutateAsync(id);
+      toast({
+        title: 'Charge fixe supprimée',
+        description: `"${label}" a été retiré de la liste`,
+        action: <UndoToastAction onUndo={undo} />,
+      });
+    } catch (error) {
+      // Error is shown in the page banner
     }
   };
   
+  const handleSaveRevisions = async (amountRevisions: AmountRevision[]) => {
+    if (!historyId) return;
+    const { undo } = await updateFixedExpense.mutateAsync({ id: historyId, updates: { amountRevisions } });
+    toast({
+      title: 'Historique mis à jour',
+      description: 'Les échéances utilisent le montant en vigueur à leur date',
+      action: <UndoToastAction onUndo={undo} />,
+    });
+  };
+  
   const handleCancel = () => {
     setEditingId(null);
     setShowForm(false);
     reset();
   };
   
+  // Par prochaine échéance, les éléments terminés en dernier
+  const nextOccurrences = new Map(fixedExpenses.map(expense => [expense.id, getNextOccurrence(expense)]));
+  const nextIndexations = new Map(fixedExpenses.map(expense => [expense.id, getNextIndexation(expense)]));
   const sortedExpenses = [...fixedExpenses].sort((a, b) => {
-    if (a.dayOfMonth !== b.dayOfMonth) {
-      return a.dayOfMonth - b.dayOfMonth;
+    const nextA = nextOccurrences.get(a.id) ?? '9999-12-31';
+    const nextB = nextOccurrences.get(b.id) ?? '9999-12-31';
+    if (nextA !== nextB) {
+      return nextA.localeCompare(nextB);
     }
     return a.label.localeCompare(b.label);
   });
   
-  if (loading && fixedExpenses.length === 0) {
+  if (isPending) {
     return <LoadingCard text="Chargement des charges fixes..." />;
   }
   
@@ -144,7 +197,7 @@ export function FixedExpenses() {
     <div className="space-y-6">
       {error && (
         <div className="bg-red-50 border border-red-200 rounded-md p-4">
-          <p className="text-red-600">Erreur: {error}</p>
+          <p className="text-red-600">Erreur: {error.message}</p>
         </div>
       )}
       
@@ -186,7 +239,7 @@ export function FixedExpenses() {
               
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-1">
-                  Montant (€) *
+                  {editingItem?.amountRevisions.length ? 'Montant initial (€) *' : 'Montant (€) *'}
                 </label>
                 <Input
                   {...register('amount')}
@@ -200,22 +253,13 @@ export function FixedExpenses() {
                 )}
               </div>
               
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-1">
-                  Jour du mois *
-                </label>
-                <Input
-                  {...register('dayOfMonth')}
-                  type="number"
-                  min="1"
-                  max="31"
-                  placeholder="1"
-                  className={errors.dayOfMonth ? 'border-red-500' : ''}
-                />
-                {errors.dayOfMonth && (
-                  <p className="mt-1 text-sm text-red-600">{errors.dayOfMonth.message}</p>
+              <Controller
+                control={control}
+                name="recurrence"
+                render={({ field }) => (
+                  <RecurrenceFields value={field.value} onChange={field.onChange} errors={errors.recurrence} />
                 )}
-              </div>
+              />
               
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-1">
@@ -241,6 +285,33 @@ export function FixedExpenses() {
                 />
               </div>
               
+              {accounts.length > 0 && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Compte
+                  </label>
+                  <select {...register('accountId')} className={selectClassName}>
+                    <option value="">Compte par défaut</option>
+                    {accounts.map(account => (
+                      <option key={account.id} value={account.id}>{account.name}</option>
+                    ))}
+                  </select>
+                </div>
+              )}
+              
+              <Controller
+                control={control}
+                name="indexation"
+                render={({ field }) => (
+                  <IndexationFields
+                    value={field.value}
+                    onChange={field.onChange}
+                    startDate={watch('startDate')}
+                    errors={errors.indexation}
+                  />
+                )}
+              />
+              
               <div className="md:col-span-2 flex justify-end space-x-2">
                 <Button type="button" variant="outline" onClick={handleCancel}>
                   <X className="h-4 w-4 mr-2" />
@@ -283,7 +354,7 @@ export function FixedExpenses() {
                       Montant
                     </th>
                     <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                      Jour
+                      Échéance
                     </th>
                     <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                       Période
@@ -298,12 +369,35 @@ export function FixedExpenses() {
                     <tr key={expense.id} className="hover:bg-gray-50">
                       <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
                         {expense.label}
+                        {loanIds.has(expense.id) && (
+                          <div className="text-xs font-normal">
+                            <Link to="/settings/loans" className="text-blue-600 hover:underline">
+                              Mensualité de prêt
+                            </Link>
+                          </div>
+                        )}
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                        {formatCurrency(expense.amountCts)}
+                        {formatCurrency(getAmountAt(expense, getCurrentDate()))}
+                        {expense.amountRevisions.length > 0 && (
+                          <div className="text-xs text-gray-500">
+                            {expense.amountRevisions.length} révision{expense.amountRevisions.length > 1 ? 's' : ''}
+                          </div>
+                        )}
+                        {nextIndexations.get(expense.id) && (
+                          <div className="text-xs text-blue-600">
+                            Puis {formatCurrency(nextIndexations.get(expense.id)!.amountCts)} le{' '}
+                            {formatDate(nextIndexations.get(expense.id)!.dateISO)}
+                          </div>
+                        )}
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                        Le {expense.dayOfMonth}
+                        {describeRecurrence(expense.recurrence, expense.startDate)}
+                        {nextOccurrences.get(expense.id) && (
+                          <div className="text-xs text-gray-500">
+                            Prochaine le {formatDate(nextOccurrences.get(expense.id)!)}
+                          </div>
+                        )}
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
                         Du {formatDate(expense.startDate)}
@@ -311,11 +405,21 @@ export function FixedExpenses() {
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
                         <div className="flex justify-end space-x-2">
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => setHistoryId(expense.id)}
+                            disabled={loanIds.has(expense.id)}
+                            title="Historique des montants"
+                          >
+                            <History className="h-4 w-4" />
+                          </Button>
                           <Button
                             size="sm"
                             variant="outline"
                             onClick={() => handleEdit(expense)}
-                            disabled={showForm}
+                            disabled={showForm || loanIds.has(expense.id)}
+                            title={loanIds.has(expense.id) ? 'Modifiable depuis la page Prêts' : undefined}
                           >
                             <Edit className="h-4 w-4" />
                           </Button>
@@ -323,6 +427,8 @@ export function FixedExpenses() {
                             size="sm"
                             variant="destructive"
                             onClick={() => handleDelete(expense.id, expense.label)}
+                            disabled={loanIds.has(expense.id)}
+                            title={loanIds.has(expense.id) ? 'Supprimez le prêt pour retirer cette charge' : undefined}
                           >
                             <Trash2 className="h-4 w-4" />
                           </Button>
@@ -336,6 +442,12 @@ export function FixedExpenses() {
           )}
         </CardContent>
       </Card>
+      
+      <AmountHistoryDialog
+        item={fixedExpenses.find(expense => expense.id === historyId) ?? null}
+        onClose={() => setHistoryId(null)}
+        onSave={handleSaveRevisions}
+      />
     </div>
   );
 }
\ No newline at end of file
@@ -1,18 +1,56 @@
-import React, { useState } from 'react';
-import { useEffect } from 'react';
+import { useEffect, useMemo, useState } from 'react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
-import { Plus, X, TrendingUp, TrendingDown, Calculator } from 'lucide-react';
+import { Link } from 'react-router-dom';
+import { v4 as uuidv4 } from 'uuid';
+import { Plus, X, TrendingUp, TrendingDown, Calculator, AlertTriangle, Trash2, Target } from 'lucide-react';
 import { Button } from '../components/ui/button';
 import { Input } from '../components/ui/input';
 import { Loading, LoadingCard } from '../components/ui/loading';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../components/ui/card';
 import { useToast } from '../components/ui/use-toast';
-import { useBudgetStore } from '../store/budget';
-import { forecastApi } from '../services/api';
-import { formatCurrency, formatMonth, parseCurrency, getCurrentMonth } from '../lib/utils';
+import { UndoToastAction } from '../components/UndoToastAction';
+import {
+  useAccounts,
+  useCardStatements,
+  useFixedExpenses,
+  useForecast,
+  useForecastScenarios,
+  useForecastWithFallback,
+  useExpenses,
+  useIncomes,
+  useLastMonthsSummary,
+  useLoans,
+  useRecurringIncomes,
+  useSavingsGoals,
+  useScenarioForecasts,
+  useTransfers,
+} from '../hooks/queries';
+import { useAddForecastScenario, useDeleteForecastScenario, useUpdateForecastScenario } from '../hooks/mutations';
+import { ForecastBreakdownPanel } from '../components/ForecastBreakdownPanel';
+import { EarlyRepaymentCard, LoanEarlyRepayment } from '../components/EarlyRepaymentCard';
+import { formatCurrency, formatDate, formatMonth, parseCurrency, getCurrentMonth } from '../lib/utils';
+import { getMonthSchedule, isOverdue } from '../lib/recurrence';
+import { getSavingsPlans, SavingsPlan } from '../lib/savings';
+import { getLoanFixedExpense, simulateEarlyRepayment } from '../lib/loans';
+import { belongsToAccount, getAccountForecastSources, getAccountName, getDefaultAccountId } from '../lib/accounts';
+import { deferCardPurchases, getCardPurchases, withCardStatements } from '../lib/cards';
+import {
+  computeForecast,
+  getAverageVariableExpenses,
+  getExpectedExpensesCts,
+  getExpectedIncomesCts,
+  getExtrasInMonth,
+  getForecastBreakdown,
+  ForecastSources,
+  PROJECTION_HORIZONS,
+  ProjectionHorizon,
+  projectCashFlow,
+} from '../lib/forecast';
+import { ForecastResult, ForecastScenario, PlannedExtra } from '../types';
 import dayjs from 'dayjs';
+import { CartesianGrid, Line, LineChart, ReferenceDot, ReferenceLine, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
 
 const extraSchema = z.object({
   label: z.string().min(1, 'Le libellé est obligatoire'),
@@ -23,63 +61,111 @@ const extraSchema = z.object({
 
 type ExtraForm = z.infer<typeof extraSchema>;
 
-interface PlannedExtra {
-  id: string;
-  label: string;
-  amountCts: number;
-  dateISO?: string;
-  type: 'expense' | 'income';
-}
+const scenarioSchema = z.object({
+  name: z.string().min(1, 'Le nom est obligatoire'),
+});
+
+type ScenarioForm = z.infer<typeof scenarioSchema>;
+
+// Mois d'historique pour la moyenne des dépenses variables
+const HISTORY_MONTHS = 6;
+
+const getContributionLabel = (plan: SavingsPlan) => `Épargne : ${plan.goal.name}`;
 
 export function Forecast() {
   const [selectedMonth, setSelectedMonth] = useState(getCurrentMonth());
-  const [plannedExtras, setPlannedExtras] = useState<PlannedExtra[]>([]);
-  const [forecastData, setForecastData] = useState<any>(null);
-  const [loading, setLoading] = useState(false);
+  // Scénarios pris en compte dans la projection
+  const [activeScenarioIds, setActiveScenarioIds] = useState<string[]>([]);
+  // Scénario dont les éléments sont affichés et modifiables
+  const [editedScenarioId, setEditedScenarioId] = useState<string | null>(null);
   const [showForm, setShowForm] = useState(false);
-  const { error } = useBudgetStore();
+  const [horizon, setHorizon] = useState<ProjectionHorizon>(6);
+  const [earlyRepayment, setEarlyRepayment] = useState<LoanEarlyRepayment | null>(null);
+  // 'all' : prévisionnel consolidé de tous les comptes
+  const [selectedAccountId, setSelectedAccountId] = useState<string>('all');
   const { toast } = useToast();
   
-  // Load forecast data
-  useEffect(() => {
-    const loadForecast = async () => {
-      try {
-        setLoading(true);
-        const data = await forecastApi.calculate({
-          month: selectedMonth,
-          plannedExtras: plannedExtras.map(extra => ({
-            label: extra.label,
-            amountCts: extra.amountCts,
-            dateISO: extra.dateISO,
-            type: extra.type,
-          })),
-        });
-        setForecastData(data);
-      } catch (error) {
-        toast({
-          title: 'Erreur',
-          description: 'Impossible de charger le prévisionnel',
-          variant: 'destructive',
-        });
-        // Set fallback data in case of error
-        setForecastData({
-          projectedBalanceCts: 0,
-          components: {
-            realizedExpensesCts: 0,
-            realizedIncomesCts: 0,
-            fixedRemainingCts: 0,
-            recurringRemainingCts: 0,
-            extrasExpenseCts: 0,
-            extrasIncomeCts: 0,
+  const { data: scenarioData, error: scenariosError } = useForecastScenarios(selectedMonth);
+  const scenarios = useMemo(() => scenarioData ?? [], [scenarioData]);
+  const addScenario = useAddForecastScenario();
+  const updateScenario = useUpdateForecastScenario();
+  const deleteScenario = useDeleteForecastScenario();
+  
+  const activeScenarios = useMemo(
+    () => scenarios.filter(scenario => activeScenarioIds.includes(scenario.id)),
+    [scenarios, activeScenarioIds]
+  );
+  const editedScenario = scenarios.find(scenario => scenario.id === editedScenarioId);
+  const scenarioExtras = activeScenarios.flatMap(scenario => scenario.extras);
+  
+  // Remboursement anticipé simulé : versé comme une dépense exceptionnelle à sa date
+  const { data: loans } = useLoans();
+  const repaidLoan = loans?.find(loan => loan.id === earlyRepayment?.loanId);
+  const repaymentExtra = useMemo(
+    () =>
+      repaidLoan && earlyRepayment
+        ? {
+            label: `Remboursement anticipé : ${repaidLoan.label}`,
+            amountCts: earlyRepayment.amountCts,
+            dateISO: earlyRepayment.dateISO,
+            type: 'expense' as const,
           }
-        });
-      } finally {
-        setLoading(false);
-      }
-    };
-    
-    loadForecast();
-  }, [selectedMonth, plannedExtras]);
+        : undefined,
+    [repaidLoan, earlyRepayment]
+  );
+  const repaymentSimulation = repaidLoan && earlyRepayment ? simulateEarlyRepayment(repaidLoan, earlyRepayment) : undefined;
+  
+  const plannedExtrasInput = useMemo(
+    () => [
+      ...getExtrasInMonth(activeScenarios.flatMap(scenario => scenario.extras), selectedMonth).map(extra => ({
+        label: extra.label,
+        amountCts: extra.amountCts,
+        dateISO: extra.dateISO,
+        type: extra.type,
+      })),
+      ...(repaymentExtra?.dateISO.startsWith(selectedMonth) ? [repaymentExtra] : []),
+    ],
+    [activeScenarios, selectedMonth, repaymentExtra]
+  );
+  const {
+    data: forecastData,
+    isEstimate,
+    isPending,
+    isFetching: loading,
+    error: forecastError,
+  } = useForecastWithFallback(selectedMonth, plannedExtrasInput);
+  // Projections sans scénario puis avec chaque scénario seul, pour la comparaison
+  const { data: baseForecast } = useForecast(selectedMonth);
+  const scenarioForecasts = useScenarioForecasts(
+    selectedMonth,
+    scenarios.map(scenario => ({ ...scenario, extras: getExtrasInMonth(scenario.extras, selectedMonth) }))
+  );
+  
+  const { data: fixedExpenses = [] } = useFixedExpenses();
+  const { data: recurringIncomes = [] } = useRecurringIncomes();
+  const { data: pastSummaries = [] } = useLastMonthsSummary(HISTORY_MONTHS);
+  const { data: monthExpenses } = useExpenses(selectedMonth);
+  const { data: monthIncomes } = useIncomes(selectedMonth);
+  const { data: savingsGoals = [] } = useSavingsGoals();
+  const { data: accounts = [] } = useAccounts();
+  const { data: transfers = [] } = useTransfers(selectedMonth);
+  const { data: cardData } = useCardStatements(selectedMonth);
+  const defaultAccountId = getDefaultAccountId(accounts);
+  const isAccountView = selectedAccountId !== 'all';
+  // Avec une estimation locale, l'échec du calcul est signalé à part
+  const error = (isEstimate ? null : forecastError) ?? scenariosError ?? addScenario.error ?? updateScenario.error ?? deleteScenario.error;
+  
+  useEffect(() => {
+    if (forecastError) {
+      toast({
+        title: 'Erreur',
+        description: isEstimate
+          ? 'Prévisionnel indisponible, estimation calculée localement'
+          : 'Impossible de charger le prévisionnel',
+        variant: 'destructive',
+      });
+    }
+  }, [forecastError, isEstimate, toast]);
   
   const {
     register,
@@ -93,70 +179,251 @@ export function Forecast() {
     },
   });
   
-  // Calculate forecast with planned extras
-  const plannedExpensesCts = plannedExtras
-    .filter(extra => extra.type === 'expense')
-    .reduce((sum, extra) => sum + extra.amountCts, 0);
+  const {
+    register: registerScenario,
+    handleSubmit: handleSubmitScenario,
+    formState: { errors: scenarioErrors },
+    reset: resetScenario,
+  } = useForm<ScenarioForm>({
+    resolver: zodResolver(scenarioSchema),
+    defaultValues: { name: '' },
+  });
   
-  const plannedIncomesCts = plannedExtras
-    .filter(extra => extra.type === 'income')
-    .reduce((sum, extra) => sum + extra.amountCts, 0);
-    
-  // Calculate values from API components
-  const components = forecastData?.components || {};
+  // Sources du mois, restreintes au compte choisi (virements compris) dans la vue par compte
+  const consolidatedSources: ForecastSources | undefined = monthExpenses && monthIncomes
+    ? {
+        monthISO: selectedMonth,
+        fixedExpenses,
+        recurringIncomes,
+        expenses: monthExpenses,
+        incomes: monthIncomes,
+        plannedExtras: plannedExtrasInput,
+      }
+    : undefined;
+  const accountSources = consolidatedSources && isAccountView
+    ? getAccountForecastSources(consolidatedSources, transfers, selectedAccountId, defaultAccountId)
+    : consolidatedSources;
+  // Extras, dépenses variables moyennes et relevés de carte n'ont pas de compte : rattachés au compte par défaut
+  const includesUnassigned = !isAccountView || selectedAccountId === defaultAccountId;
+  // Relevés des cartes à débit différé à la place de leurs achats ; la vue d'une carte garde ses achats
+  const sources = accountSources && cardData && includesUnassigned
+    ? withCardStatements(accountSources, cardData.cards, cardData.statements, cardData.defaultAccountId)
+    : accountSources;
+  
+  // Le serveur ne calcule que le consolidé : la vue par compte est calculée localement
+  const displayedForecast = isAccountView ? (sources && computeForecast(sources)) : forecastData;
+  const inView = (item: { accountId?: string }) =>
+    !isAccountView || belongsToAccount(item, selectedAccountId, defaultAccountId);
+  const viewFixedExpenses = fixedExpenses.filter(inView);
+  const viewRecurringIncomes = recurringIncomes.filter(inView);
+  
+  // Composantes du calcul ; les extras simulés y sont déjà comptés (envoyés avec la requête)
+  const components = displayedForecast?.components;
   
   // Budget de base : directement fourni par l'API
-  const baseBudgetCts = components.budgetBaseCts || 0;
+  const baseBudgetCts = components?.budgetBaseCts ?? 0;
   
   // Recettes prévues : ce qui est encore attendu ce mois-ci (récurrentes + extras income)
-  const expectedIncomesCts = (components.recurringRemainingCts || 0) + (components.extrasIncomeCts || 0) + plannedIncomesCts;
+  const expectedIncomesCts = displayedForecast ? getExpectedIncomesCts(displayedForecast) : 0;
   
   // Dépenses prévues : charges fixes pas encore tombées + extras expense
-  const expectedExpensesCts = (components.fixedRemainingCts || 0) + (components.extrasExpenseCts || 0) + plannedExpensesCts;
+  const expectedExpensesCts = displayedForecast ? getExpectedExpensesCts(displayedForecast) : 0;
   
   // Solde prévisionnel : solde final estimé à la fin du mois
-  const projectedBalanceCts = (forecastData?.projectedBalanceCts || 0) + plannedIncomesCts - plannedExpensesCts;
+  const projectedBalanceCts = displayedForecast?.projectedBalanceCts ?? 0;
   
-  const onSubmit = (data: ExtraForm) => {
+  // Éléments à l'origine de chaque composante, pour le détail
+  const breakdown = sources ? getForecastBreakdown(sources) : undefined;
+  
+  // Échéances récurrentes du mois : confirmées, à venir ou en retard
+  const scheduledOccurrences = [
+    ...viewFixedExpenses.flatMap(item =>
+      getMonthSchedule(item, selectedMonth).map(occurrence => ({ ...occurrence, label: item.label, isIncome: false }))
+    ),
+    ...viewRecurringIncomes.flatMap(item =>
+      getMonthSchedule(item, selectedMonth).map(occurrence => ({ ...occurrence, label: item.label, isIncome: true }))
+    ),
+  ].sort((a, b) => a.dateISO.localeCompare(b.dateISO));
+  const confirmedOccurrences = scheduledOccurrences.filter(occurrence => occurrence.confirmation);
+  const overdueOccurrences = scheduledOccurrences.filter(occurrence => isOverdue(occurrence));
+  const upcomingOccurrences = scheduledOccurrences.filter(
+    occurrence => !occurrence.confirmation && !isOverdue(occurrence)
+  );
+  
+  const onSubmit = async (data: ExtraForm) => {
+    if (!editedScenario) return;
     const amountCts = parseCurrency(data.amount);
     
     const newExtra: PlannedExtra = {
-      id: Date.now().toString(),
+      id: uuidv4(),
       label: data.label,
       amountCts,
       dateISO: data.date || undefined,
       type: data.type,
     };
     
-    setPlannedExtras(prev => [...prev, newExtra]);
-    reset();
-    setShowForm(false);
+    try {
+      const { undo } = await updateScenario.mutateAsync({
+        id: editedScenario.id,
+        updates: { extras: [...editedScenario.extras, newExtra] },
+      });
+      reset();
+      setShowForm(false);
+      toast({
+        title: 'Élément ajouté',
+        description: `${data.label} - ${formatCurrency(amountCts)}`,
+        action: <UndoToastAction onUndo={undo} />,
+      });
+    } catch {
+      // Error is shown in the page banner
+    }
+  };
+  
+  // Versement d'épargne du mois ajouté au scénario comme dépense exceptionnelle, en fin de mois
+  const addSavingsContribution = async (scenario: ForecastScenario, plan: SavingsPlan) => {
+    const contribution: PlannedExtra = {
+      id: uuidv4(),
+      label: getContributionLabel(plan),
+      amountCts: plan.monthlyContributionCts,
+      dateISO: dayjs(selectedMonth).endOf('month').format('YYYY-MM-DD'),
+      type: 'expense',
+      goalId: plan.goal.id,
+      monthISO: selectedMonth,
+    };
     
-    toast({
-      title: 'Élément ajouté',
-      description: `${data.label} - ${formatCurrency(amountCts)}`,
-    });
+    try {
+      const { undo } = await updateScenario.mutateAsync({
+        id: scenario.id,
+        updates: { extras: [...scenario.extras, contribution] },
+      });
+      toast({
+        title: 'Versement ajouté',
+        description: `${contribution.label} - ${formatCurrency(contribution.amountCts)}`,
+        action: <UndoToastAction onUndo={undo} />,
+      });
+    } catch {
+      // Error is shown in the page banner
+    }
   };
   
-  const removeExtra = (id: string) => {
-    setPlannedExtras(prev => prev.filter(extra => extra.id !== id));
+  const removeExtra = async (scenario: ForecastScenario, extra: PlannedExtra) => {
+    try {
+      const { undo } = await updateScenario.mutateAsync({
+        id: scenario.id,
+        updates: { extras: scenario.extras.filter(existing => existing.id !== extra.id) },
+      });
+      toast({
+        title: 'Élément retiré',
+        description: `"${extra.label}" a été retiré du scénario`,
+        action: <UndoToastAction onUndo={undo} />,
+      });
+    } catch {
+      // Error is shown in the page banner
+    }
   };
   
+  const onCreateScenario = async (data: ScenarioForm) => {
+    try {
+      const { undo } = await addScenario.mutateAsync({ monthISO: selectedMonth, name: data.name, extras: [] });
+      resetScenario();
+      toast({
+        title: 'Scénario créé',
+        description: `"${data.name}" est enregistré pour ${formatMonth(selectedMonth)}`,
+        action: <UndoToastAction onUndo={undo} />,
+      });
+    } catch {
+      // Error is shown in the page banner
+    }
+  };
+  
+  const handleDeleteScenario = async (scenario: ForecastScenario) => {
+    try {
+      const { undo } = await deleteScenario.mutateAsync(scenario.id);
+      if (editedScenarioId === scenario.id) setEditedScenarioId(null);
+      toast({
+        title: 'Scénario supprimé',
+        description: `"${scenario.name}" a été supprimé`,
+        action: <UndoToastAction onUndo={undo} />,
+      });
+    } catch {
+      // Error is shown in the page banner
+    }
+  };
+  
+  const toggleScenario = (id: string) => {
+    setActiveScenarioIds(prev => prev.includes(id) ? prev.filter(activeId => activeId !== id) : [...prev, id]);
+  };
+  
+  // Projections du serveur, corrigées comme le prévisionnel affiché pour les cartes à débit différé
+  const deferCards = (result: ForecastResult | undefined) =>
+    result && cardData && monthExpenses
+      ? deferCardPurchases(result, getCardPurchases(monthExpenses, cardData.cards, cardData.defaultAccountId), cardData.statements)
+      : result;
+  
+  const baseBalanceCts = deferCards(baseForecast)?.projectedBalanceCts;
+  const comparisonRows = [
+    { key: 'base', name: 'Sans scénario', balanceCts: baseBalanceCts },
+    ...scenarios.map((scenario, index) => ({
+      key: scenario.id,
+      name: scenario.name,
+      balanceCts: deferCards(scenarioForecasts[index]?.data)?.projectedBalanceCts,
+    })),
+    ...(activeScenarios.length > 1
+      ? [{ key: 'active', name: 'Scénarios actifs cumulés', balanceCts: forecastData?.projectedBalanceCts }]
+      : []),
+  ];
+  
+  const projectedExtras = repaymentExtra ? [...scenarioExtras, repaymentExtra] : scenarioExtras;
+  const projection = projectCashFlow({
+    startMonth: selectedMonth,
+    startBalanceCts: projectedBalanceCts,
+    months: horizon,
+    // Échéances du prêt remplacées par celles qui suivent le remboursement anticipé
+    fixedExpenses:
+      repaidLoan && repaymentSimulation
+        ? viewFixedExpenses.map(expense =>
+            expense.id === repaidLoan.fixedExpenseId
+              ? { ...expense, ...getLoanFixedExpense(repaidLoan, repaymentSimulation.schedule) }
+              : expense
+          )
+        : viewFixedExpenses,
+    recurringIncomes: viewRecurringIncomes,
+    plannedExtras: includesUnassigned ? projectedExtras : [],
+    averageVariableExpensesCts: includesUnassigned ? getAverageVariableExpenses(pastSummaries, getCurrentMonth()) : 0,
+  });
+  const firstNegativeMonth = projection.find(month => month.closingBalanceCts < 0);
+  const projectionData = projection.map(month => ({
+    month: dayjs(month.monthISO).format('MMM YY'),
+    monthISO: month.monthISO,
+    solde: month.closingBalanceCts,
+  }));
+  
+  const savingsPlans = getSavingsPlans(savingsGoals, baseBalanceCts, selectedMonth).filter(plan => !plan.isReached);
+  
   const getBalanceColor = (balanceCts: number) => {
     if (balanceCts < 0) return 'text-red-600';
     if (balanceCts < 20000) return 'text-orange-600';
     return 'text-green-600';
   };
   
-  if (loading && !forecastData) {
+  if (isPending && !error) {
     return <LoadingCard text="Chargement du prévisionnel..." />;
   }
   
   return (
     <div className="space-y-6">
+      {isEstimate && (
+        <div className="bg-amber-50 border border-amber-200 rounded-md p-4">
+          <p className="text-amber-800">
+            Estimation hors ligne : le serveur ne répond pas, les montants sont calculés à partir des données
+            enregistrées sur cet appareil et peuvent différer du prévisionnel officiel.
+          </p>
+        </div>
+      )}
+      
       {error && (
         <div className="bg-red-50 border border-red-200 rounded-md p-4">
-          <p className="text-red-600">Erreur: {error}</p>
+          <p className="text-red-600">Erreur: {error.message}</p>
         </div>
       )}
       
@@ -164,19 +431,44 @@ export function Forecast() {
         <div>
           <h1 className="text-3xl font-bold text-gray-900">Prévisionnel</h1>
           <p className="text-gray-600 mt-1">
-            Simulez votre budget avec des dépenses et recettes exceptionnelles
+            Simulez votre budget avec des scénarios de dépenses et recettes exceptionnelles
           </p>
         </div>
         <div className="flex items-center space-x-4">
+          {accounts.length > 0 && (
+            <select
+              value={selectedAccountId}
+              onChange={(e) => setSelectedAccountId(e.target.value)}
+              className="rounded-md border border-gray-300 bg-white px-3 py-2 text-sm"
+            >
+              <option value="all">Tous les comptes</option>
+              {accounts.map(account => (
+                <option key={account.id} value={account.id}>{account.name}</option>
+              ))}
+            </select>
+          )}
           <input
             type="month"
             value={selectedMonth}
-            onChange={(e) => setSelectedMonth(e.target.value)}
+            onChange={(e) => {
+              setSelectedMonth(e.target.value);
+              setActiveScenarioIds([]);
+              setEditedScenarioId(null);
+            }}
             className="rounded-md border border-gray-300 px-3 py-2 text-sm"
           />
         </div>
       </div>
       
+      {isAccountView && (
+        <div className="bg-blue-50 border border-blue-200 rounded-md p-4">
+          <p className="text-blue-800">
+            Vue du compte « {getAccountName(accounts, selectedAccountId)} » : les virements internes y comptent comme
+            recettes ou dépenses. La comparaison des scénarios et les objectifs d'épargne restent consolidés.
+          </p>
+        </div>
+      )}
+
       {/* Summary Cards */}
       <div className="grid grid-cols-1 gap-5 sm:grid-cols-2 lg:grid-cols-4">
         <Card>
@@ -260,6 +552,75 @@ export function Forecast() {
         </Card>
       </div>
       
+      {/* Multi-month projection */}
+      <Card>
+        <CardHeader>
+          <div className="flex justify-between items-center">
+            <div>
+              <CardTitle>Projection de trésorerie</CardTitle>
+              <CardDescription>
+                Solde de fin de mois à partir de {formatMonth(selectedMonth)}, dépenses variables estimées sur
+                les {HISTORY_MONTHS} derniers mois
+              </CardDescription>
+            </div>
+            <div className="flex space-x-1">
+              {PROJECTION_HORIZONS.map(months => (
+                <Button
+                  key={months}
+                  size="sm"
+                  variant={horizon === months ? 'default' : 'outline'}
+                  onClick={() => setHorizon(months)}
+                >
+                  {months} mois
+                </Button>
+              ))}
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <ResponsiveContainer width="100%" height={260}>
+            <LineChart data={projectionData} margin={{ top: 10, right: 20, left: 10, bottom: 5 }}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis dataKey="month" />
+              <YAxis tickFormatter={(value) => `${(value / 100).toFixed(0)}€`} width={70} />
+              <Tooltip formatter={(value) => [formatCurrency(value as number), 'Solde fin de mois']} />
+              <ReferenceLine y={0} stroke="#9CA3AF" strokeDasharray="4 4" />
+              <Line type="monotone" dataKey="solde" stroke="#7C3AED" strokeWidth={2} />
+              {firstNegativeMonth && (
+                <ReferenceDot
+                  x={dayjs(firstNegativeMonth.monthISO).format('MMM YY')}
+                  y={firstNegativeMonth.closingBalanceCts}
+                  r={6}
+                  fill="#DC2626"
+                  stroke="none"
+                />
+              )}
+            </LineChart>
+          </ResponsiveContainer>
+          {firstNegativeMonth ? (
+            <p className="mt-2 flex items-center text-sm text-red-600">
+              <AlertTriangle className="h-4 w-4 mr-2" />
+              Solde négatif prévu fin {formatMonth(firstNegativeMonth.monthISO)} :{' '}
+              {formatCurrency(firstNegativeMonth.closingBalanceCts)}
+            </p>
+          ) : (
+            <p className="mt-2 text-sm text-gray-500">
+              Aucun solde négatif prévu sur les {horizon} prochains mois
+            </p>
+          )}
+        </CardContent>
+      </Card>
+      
+      {/* Early loan repayment */}
+      {loans && loans.length > 0 && (
+        <EarlyRepaymentCard
+          loans={loans}
+          value={earlyRepayment}
+          simulation={repaymentSimulation}
+          onChange={setEarlyRepayment}
+        />
+      )}
+      
       {/* Realized Transactions */}
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
         <Card>
@@ -274,9 +635,9 @@ export function Forecast() {
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold text-green-600">
-              +{formatCurrency(components.realizedIncomesCts || 0)}
+              +{formatCurrency(components?.realizedIncomesCts ?? 0)}
             </div>
-            {(components.realizedIncomesCts || 0) === 0 && (
+            {!components?.realizedIncomesCts && (
               <p className="text-sm text-gray-500 mt-2">
                 Aucune recette enregistrée pour le moment
               </p>
@@ -296,9 +657,9 @@ export function Forecast() {
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold text-red-600">
-              -{formatCurrency(components.realizedExpensesCts || 0)}
+              -{formatCurrency(components?.realizedExpensesCts ?? 0)}
             </div>
-            {(components.realizedExpensesCts || 0) === 0 && (
+            {!components?.realizedExpensesCts && (
               <p className="text-sm text-gray-500 mt-2">
                 Aucune dépense enregistrée pour le moment
               </p>
@@ -307,126 +668,338 @@ export function Forecast() {
         </Card>
       </div>
       
-      {/* Add Extra Form */}
+      {/* Forecast breakdown */}
+      {displayedForecast && breakdown && <ForecastBreakdownPanel result={displayedForecast} breakdown={breakdown} />}
+      
+      {/* Recurring occurrences reconciliation */}
+      {scheduledOccurrences.length > 0 && (
+        <Card>
+          <CardHeader>
+            <div className="flex justify-between items-center">
+              <div>
+                <CardTitle>Échéances récurrentes</CardTitle>
+                <CardDescription>
+                  Charges fixes et revenus récurrents de {formatMonth(selectedMonth)}
+                </CardDescription>
+              </div>
+              <Link to="/timeline" className="text-sm text-blue-600 hover:underline">
+                Confirmer dans la timeline
+              </Link>
+            </div>
+          </CardHeader>
+          <CardContent>
+            <dl className="grid grid-cols-3 gap-4 text-sm">
+              <div>
+                <dt className="text-gray-500">Confirmées</dt>
+                <dd className="text-lg font-medium text-green-600">{confirmedOccurrences.length}</dd>
+              </div>
+              <div>
+                <dt className="text-gray-500">À venir</dt>
+                <dd className="text-lg font-medium text-gray-900">{upcomingOccurrences.length}</dd>
+              </div>
+              <div>
+                <dt className="text-gray-500">En retard</dt>
+                <dd className={`text-lg font-medium ${overdueOccurrences.length > 0 ? 'text-red-600' : 'text-gray-900'}`}>
+                  {overdueOccurrences.length}
+                </dd>
+              </div>
+            </dl>
+            
+            {overdueOccurrences.length > 0 && (
+              <ul className="mt-4 space-y-2">
+                {overdueOccurrences.map(occurrence => (
+                  <li
+                    key={`${occurrence.label}-${occurrence.occurrenceDate}`}
+                    className="flex items-center justify-between p-3 bg-red-50 border border-red-200 rounded-lg text-sm"
+                  >
+                    <span className="flex items-center text-red-700">
+                      <AlertTriangle className="h-4 w-4 mr-2" />
+                      {occurrence.label}, prévu le {formatDate(occurrence.dateISO)} et {occurrence.isIncome ? 'non reçu' : 'non payé'}
+                    </span>
+                    <span className={`font-medium ${occurrence.isIncome ? 'text-green-600' : 'text-red-600'}`}>
+                      {occurrence.isIncome ? '+' : '-'}{formatCurrency(occurrence.amountCts)}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </CardContent>
+        </Card>
+      )}
+      
+      {/* Scenarios */}
       <Card>
         <CardHeader>
-          <div className="flex justify-between items-center">
-            <div>
-              <CardTitle>Éléments exceptionnels</CardTitle>
-              <CardDescription>
-                Ajoutez des recettes ou dépenses ponctuelles pour {formatMonth(selectedMonth)}
-              </CardDescription>
+          <CardTitle>Scénarios</CardTitle>
+          <CardDescription>
+            Activez un ou plusieurs scénarios pour {formatMonth(selectedMonth)} et comparez leurs soldes prévisionnels
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <form onSubmit={handleSubmitScenario(onCreateScenario)} className="flex items-start space-x-2">
+            <div className="flex-1">
+              <Input
+                {...registerScenario('name')}
+                placeholder="Vacances été, Achat voiture..."
+                className={scenarioErrors.name ? 'border-red-500' : ''}
+              />
+              {scenarioErrors.name && (
+                <p className="mt-1 text-sm text-red-600">{scenarioErrors.name.message}</p>
+              )}
             </div>
-            <Button onClick={() => setShowForm(!showForm)}>
+            <Button type="submit" disabled={addScenario.isPending}>
               <Plus className="h-4 w-4 mr-2" />
-              Ajouter
+              Nouveau scénario
             </Button>
-          </div>
-        </CardHeader>
-        <CardContent>
-          {showForm && (
-            <form onSubmit={handleSubmit(onSubmit)} className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-6 p-4 bg-gray-50 rounded-lg">
+          </form>
+          
+          {scenarios.length > 0 ? (
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead>
+                <tr className="text-left text-gray-500">
+                  <th className="py-2 font-medium">Scénario</th>
+                  <th className="py-2 font-medium text-right">Éléments</th>
+                  <th className="py-2 font-medium text-right">Solde prévisionnel</th>
+                  <th className="py-2 font-medium text-right">Écart</th>
+                  <th className="py-2" />
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {comparisonRows.map(row => {
+                  const scenario = scenarios.find(candidate => candidate.id === row.key);
+                  const deltaCts = row.balanceCts !== undefined && baseBalanceCts !== undefined
+                    ? row.balanceCts - baseBalanceCts
+                    : undefined;
+                  return (
+                    <tr key={row.key} className={scenario && scenario.id === editedScenarioId ? 'bg-blue-50' : ''}>
+                      <td className="py-2">
+                        {scenario ? (
+                          <label className="flex items-center">
+                            <input
+                              type="checkbox"
+                              checked={activeScenarioIds.includes(scenario.id)}
+                              onChange={() => toggleScenario(scenario.id)}
+                              className="mr-2"
+                            />
+                            {row.name}
+                          </label>
+                        ) : (
+                          <span className="font-medium">{row.name}</span>
+                        )}
+                      </td>
+                      <td className="py-2 text-right text-gray-600">
+                        {scenario && scenario.extras.length}
+                      </td>
+                      <td className={`py-2 text-right font-medium ${row.balanceCts !== undefined ? getBalanceColor(row.balanceCts) : ''}`}>
+                        {row.balanceCts !== undefined ? formatCurrency(row.balanceCts) : <Loading size="sm" />}
+                      </td>
+                      <td className="py-2 text-right text-gray-600">
+                        {row.key !== 'base' && deltaCts !== undefined && `${deltaCts >= 0 ? '+' : '-'}${formatCurrency(Math.abs(deltaCts))}`}
+                      </td>
+                      <td className="py-2 text-right whitespace-nowrap">
+                        {scenario && (
+                          <>
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              onClick={() => setEditedScenarioId(scenario.id === editedScenarioId ? null : scenario.id)}
+                            >
+                              {scenario.id === editedScenarioId ? 'Fermer' : 'Modifier'}
+                            </Button>
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              onClick={() => handleDeleteScenario(scenario)}
+                              title="Supprimer le scénario"
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          ) : (
+            <p className="text-center py-4 text-gray-500">
+              Aucun scénario enregistré pour ce mois
+            </p>
+          )}
+        </CardContent>
+      </Card>
+      
+      {/* Add Extra Form */}
+      {editedScenario && (
+        <Card>
+          <CardHeader>
+            <div className="flex justify-between items-center">
               <div>
-                <label className="block text-sm font-medium text-gray-700 mb-1">
-                  Type *
-                </label>
-                <select
-                  {...register('type')}
-                  className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm bg-white appearance-none cursor-pointer hover:border-gray-400 transition-colors focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-200"
-                  style={{
-                    backgroundImage: `url("data:image/svg+xml,%3csvg xmlns='http://www.w3.org/2000/svg' fill='none' viewBox='0 0 20 20'%3e%3cpath stroke='%236b7280' stroke-linecap='round' stroke-linejoin='round' stroke-width='1.5' d='m6 8 4 4 4-4'/%3e%3c/svg%3e")`,
-                    backgroundPosition: 'right 0.5rem center',
-                    backgroundRepeat: 'no-repeat',
-                    backgroundSize: '1.5em 1.5em',
-                    paddingRight: '2.5rem'
-                  }}
-                >
-                  <option value="expense">Dépense</option>
-                  <option value="income">Recette</option>
-                </select>
+                <CardTitle>Éléments exceptionnels : {editedScenario.name}</CardTitle>
+                <CardDescription>
+                  Ajoutez des recettes ou dépenses ponctuelles à ce scénario
+                </CardDescription>
               </div>
+              <Button onClick={() => setShowForm(!showForm)}>
+                <Plus className="h-4 w-4 mr-2" />
+                Ajouter
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent>
+            {showForm && (
+              <form onSubmit={handleSubmit(onSubmit)} className="grid grid-cols-1 md:grid-cols-5 gap-4 mb-6 p-4 bg-gray-50 rounded-lg">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Type *
+                  </label>
+                  <select
+                    {...register('type')}
+                    className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm bg-white appearance-none cursor-pointer hover:border-gray-400 transition-colors focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-200"
+                    style={{
+                      backgroundImage: `url("data:image/svg+xml,%3csvg xmlns='http://www.w3.org/2000/svg' fill='none' viewBox='0 0 20 20'%3e%3cpath stroke='%236b7280' stroke-linecap='round' stroke-linejoin='round' stroke-width='1.5' d='m6 8 4 4 4-4'/%3e%3c/svg%3e")`,
+                      backgroundPosition: 'right 0.5rem center',
+                      backgroundRepeat: 'no-repeat',
+                      backgroundSize: '1.5em 1.5em',
+                      paddingRight: '2.5rem'
+                    }}
+                  >
+                    <option value="expense">Dépense</option>
+                    <option value="income">Recette</option>
+                  </select>
+                </div>
               
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-1">
-                  Libellé *
-                </label>
-                <Input
-                  {...register('label')}
-                  placeholder="Vacances, Prime..."
-                  className={errors.label ? 'border-red-500' : ''}
-                />
-                {errors.label && (
-                  <p className="mt-1 text-sm text-red-600">{errors.label.message}</p>
-                )}
-              </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Libellé *
+                  </label>
+                  <Input
+                    {...register('label')}
+                    placeholder="Vacances, Prime..."
+                    className={errors.label ? 'border-red-500' : ''}
+                  />
+                  {errors.label && (
+                    <p className="mt-1 text-sm text-red-600">{errors.label.message}</p>
+                  )}
+                </div>
               
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-1">
-                  Montant (€) *
-                </label>
-                <Input
-                  {...register('amount')}
-                  type="text"
-                  placeholder="500.00"
-                  className={errors.amount ? 'border-red-500' : ''}
-                />
-                {errors.amount && (
-                  <p className="mt-1 text-sm text-red-600">{errors.amount.message}</p>
-                )}
-              </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Montant (€) *
+                  </label>
+                  <Input
+                    {...register('amount')}
+                    type="text"
+                    placeholder="500.00"
+                    className={errors.amount ? 'border-red-500' : ''}
+                  />
+                  {errors.amount && (
+                    <p className="mt-1 text-sm text-red-600">{errors.amount.message}</p>
+                  )}
+                </div>
+                
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Date
+                  </label>
+                  <Input
+                    {...register('date')}
+                    type="date"
+                  />
+                </div>
               
-              <div className="flex items-end space-x-2">
-                <Button type="submit" size="sm">
-                  Ajouter
-                </Button>
-                <Button type="button" variant="outline" size="sm" onClick={() => setShowForm(false)}>
-                  <X className="h-4 w-4" />
-                </Button>
-              </div>
-            </form>
-          )}
+                <div className="flex items-end space-x-2">
+                  <Button type="submit" size="sm">
+                    Ajouter
+                  </Button>
+                  <Button type="button" variant="outline" size="sm" onClick={() => setShowForm(false)}>
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              </form>
+            )}
           
-          {loading && <Loading size="sm" />}
+            {loading && <Loading size="sm" />}
           
-          {/* List of planned extras */}
-          {plannedExtras.length > 0 ? (
-            <div className="space-y-2">
-              {plannedExtras.map((extra) => (
-                <div key={extra.id} className="flex items-center justify-between p-3 bg-white border rounded-lg">
-                  <div className="flex items-center space-x-3">
-                    <div className={`w-3 h-3 rounded-full ${extra.type === 'income' ? 'bg-green-500' : 'bg-red-500'}`} />
-                    <div>
-                      <div className="font-medium">{extra.label}</div>
-                      {extra.dateISO && (
-                        <div className="text-sm text-gray-500">
-                          {dayjs(extra.dateISO).format('DD/MM/YYYY')}
-                        </div>
-                      )}
+            {/* List of planned extras */}
+            {editedScenario.extras.length > 0 ? (
+              <div className="space-y-2">
+                {editedScenario.extras.map((extra) => (
+                  <div key={extra.id} className="flex items-center justify-between p-3 bg-white border rounded-lg">
+                    <div className="flex items-center space-x-3">
+                      <div className={`w-3 h-3 rounded-full ${extra.type === 'income' ? 'bg-green-500' : 'bg-red-500'}`} />
+                      <div>
+                        <div className="font-medium">{extra.label}</div>
+                        {extra.dateISO && (
+                          <div className="text-sm text-gray-500">
+                            {dayjs(extra.dateISO).format('DD/MM/YYYY')}
+                          </div>
+                        )}
+                      </div>
+                    </div>
+                    <div className="flex items-center space-x-3">
+                      <span className={`font-medium ${extra.type === 'income' ? 'text-green-600' : 'text-red-600'}`}>
+                        {extra.type === 'income' ? '+' : '-'}{formatCurrency(extra.amountCts)}
+                      </span>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => removeExtra(editedScenario, extra)}
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
                     </div>
                   </div>
-                  <div className="flex items-center space-x-3">
-                    <span className={`font-medium ${extra.type === 'income' ? 'text-green-600' : 'text-red-600'}`}>
-                      {extra.type === 'income' ? '+' : '-'}{formatCurrency(extra.amountCts)}
-                    </span>
-                    <Button
-                      size="sm"
-                      variant="outline"
-                      onClick={() => removeExtra(extra.id)}
-                    >
-                      <X className="h-4 w-4" />
-                    </Button>
-                  </div>
-                </div>
-              ))}
-            </div>
-          ) : (
-            <div className="text-center py-8 text-gray-500">
-              <p>Aucun élément exceptionnel ajouté</p>
-              <p className="text-sm mt-1">Cliquez sur "Ajouter" pour simuler des recettes ou dépenses ponctuelles</p>
-            </div>
-          )}
-        </CardContent>
-      </Card>
+                ))}
+              </div>
+            ) : (
+              <div className="text-center py-8 text-gray-500">
+                <p>Aucun élément exceptionnel dans ce scénario</p>
+                <p className="text-sm mt-1">Cliquez sur "Ajouter" pour simuler des recettes ou dépenses ponctuelles</p>
+              </div>
+            )}
+            
+            {/* Savings contributions */}
+            {savingsPlans.length > 0 && (
+              <div className="mt-6">
+                <h3 className="flex items-center text-sm font-medium text-gray-900 mb-2">
+                  <Target className="h-4 w-4 mr-2" />
+                  Versements d'épargne du mois
+                </h3>
+                <ul className="divide-y divide-gray-200 text-sm">
+                  {savingsPlans.map(plan => {
+                    const isPlanned = editedScenario.extras.some(
+                      extra => extra.goalId === plan.goal.id && extra.monthISO === selectedMonth
+                    );
+                    return (
+                      <li key={plan.goal.id} className="flex items-center justify-between py-2">
+                        <div>
+                          <span className="font-medium">{plan.goal.name}</span>
+                          {(plan.isUnfunded || plan.isLate) && (
+                            <span className="ml-2 text-xs text-red-600">Non couvert par le solde prévisionnel</span>
+                          )}
+                        </div>
+                        <div className="flex items-center space-x-3">
+                          <span className="text-red-600">-{formatCurrency(plan.monthlyContributionCts)}</span>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => addSavingsContribution(editedScenario, plan)}
+                            disabled={isPlanned || updateScenario.isPending}
+                          >
+                            {isPlanned ? 'Prévu' : 'Prévoir'}
+                          </Button>
+                        </div>
+                      </li>
+                    );
+                  })}
+                </ul>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
     </div>
   );
 }
\ No newline at end of file
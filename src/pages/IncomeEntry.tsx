@@ -2,10 +2,14 @@
 import React, { FormEvent, useState } from "react";
 import { useEffect } from "react";
 import { useNavigate } from "react-router-dom";
-import { useBudgetStore } from '../store/budget';
+import { useAddIncome } from '../hooks/mutations';
+import { useAccounts } from '../hooks/queries';
 import { useToast } from '../components/ui/use-toast';
+import { UndoToastAction } from '../components/UndoToastAction';
+import { useFormDraft } from '../hooks/useFormDraft';
 import { Loading } from '../components/ui/loading';
 import { parseCurrency } from '../lib/utils';
+import { getDefaultAccountId } from '../lib/accounts';
 
 const currency = (n: number) =>
   new Intl.NumberFormat("fr-FR", { style: "currency", currency: "EUR" }).format(n);
@@ -26,6 +30,23 @@ const Input: React.FC<
   </div>
 );
 
+const Select: React.FC<
+  React.SelectHTMLAttributes<HTMLSelectElement> & { label?: string }
+> = ({ label, children, className, ...props }) => (
+  <div>
+    {label && <label className="block text-sm text-slate-600 mb-1">{label}</label>}
+    <select
+      {...props}
+      className={
+        "w-full rounded-xl border border-slate-300 px-3 py-2 outline-none focus:ring-2 focus:ring-indigo-400 bg-white " +
+        (className || "")
+      }
+    >
+      {children}
+    </select>
+  </div>
+);
+
 const Button: React.FC<
   React.ButtonHTMLAttributes<HTMLButtonElement> & {
     variant?: "primary" | "ghost" | "danger";
@@ -62,14 +83,36 @@ type IncomeDraft = {
 
 const IncomeEntry: React.FC = () => {
   const navigate = useNavigate();
-  const { addIncome, loading } = useBudgetStore();
+  const addIncome = useAddIncome();
+  const { data: accounts = [] } = useAccounts();
   const { toast } = useToast();
 
   const [date, setDate] = useState<string>(todayISO());
   const [label, setLabel] = useState<string>("");
   const [amount, setAmount] = useState<string>("");
+  const [accountId, setAccountId] = useState<string>("");
   const [submitting, setSubmitting] = useState(false);
 
+  // Saisie conservée si la session expire avant l'enregistrement
+  useFormDraft(
+    'income-entry',
+    label || amount ? { date, label, amount, accountId } : null,
+    (draft) => {
+      setDate(draft.date);
+      setLabel(draft.label);
+      setAmount(draft.amount);
+      setAccountId(draft.accountId ?? "");
+    }
+  );
+
+  // Compte par défaut pré-sélectionné quand des comptes existent
+  useEffect(() => {
+    const defaultAccountId = getDefaultAccountId(accounts);
+    if (defaultAccountId && !accountId) {
+      setAccountId(defaultAccountId);
+    }
+  }, [accounts, accountId]);
+
   const handleSubmit = async (e: FormEvent) => {
     e.preventDefault();
     const a = Number(amount);
@@ -79,15 +122,19 @@ const IncomeEntry: React.FC = () => {
       date: date,
       label: label.trim(),
       amountCts: parseCurrency(amount),
+      accountId: accountId || undefined,
     };
 
     try {
       setSubmitting(true);
-      await addIncome(incomeData);
+      const { queued, undo } = await addIncome.mutateAsync(incomeData);
       
       toast({
-        title: 'Recette ajoutée',
-        description: `${incomeData.label} - ${currency(a)}`,
+        title: queued ? 'Recette enregistrée hors ligne' : 'Recette ajoutée',
+        description: queued
+          ? `${incomeData.label} - ${currency(a)}, en attente de synchronisation`
+          : `${incomeData.label} - ${currency(a)}`,
+        action: <UndoToastAction onUndo={undo} />,
       });
       
       // Redirige vers la chronologie après enregistrement
@@ -95,7 +142,7 @@ const IncomeEntry: React.FC = () => {
     } catch (error) {
       toast({
         title: 'Erreur',
-        description: 'Impossible d\'ajouter la recette',
+        description: error instanceof Error ? error.message : 'Impossible d\'ajouter la recette',
         variant: 'destructive',
       });
     } finally {
@@ -132,8 +179,17 @@ const IncomeEntry: React.FC = () => {
               onChange={(e) => setAmount(e.target.value)}
              lang="fr-FR"
             />
+            {accounts.length > 0 && (
+              <Select label="Compte" value={accountId} onChange={(e) => setAccountId(e.target.value)}>
+                {accounts.map((account) => (
+                  <option value={account.id} key={account.id}>
+                    {account.name}
+                  </option>
+                ))}
+              </Select>
+            )}
             <div className="pt-2 flex items-center gap-2">
-              <Button type="submit" disabled={submitting || loading}>
+              <Button type="submit" disabled={submitting}>
                 {submitting ? <Loading size="sm" /> : 'Enregistrer'}
               </Button>
               <Button variant="ghost" type="button" onClick={handleCancel}>Annuler</Button>
@@ -0,0 +1,392 @@
+import { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Plus, Edit, Trash2, X, Check, Table } from 'lucide-react';
+import { Button } from '../components/ui/button';
+import { Input } from '../components/ui/input';
+import { Loading, LoadingCard } from '../components/ui/loading';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../components/ui/card';
+import { useToast } from '../components/ui/use-toast';
+import { UndoToastAction } from '../components/UndoToastAction';
+import { useFormDraft } from '../hooks/useFormDraft';
+import { useFixedExpenses, useLoans } from '../hooks/queries';
+import { useAddLoan, useDeleteLoan, useUpdateLoan } from '../hooks/mutations';
+import { formatCurrency, formatDate, parseCurrency } from '../lib/utils';
+import { getAmortizationSchedule, getMonthlyInstalment, getTotalInterest, LoanTerms } from '../lib/loans';
+import { Loan } from '../types';
+
+const loanSchema = z.object({
+  label: z.string().trim().min(1, 'Le libellé est obligatoire'),
+  principal: z.string().refine(value => parseCurrency(value) > 0, 'Le capital emprunté doit être positif'),
+  rate: z.number('Taux invalide').min(0, 'Le taux ne peut pas être négatif').max(100, 'Taux invalide'),
+  durationMonths: z.number('Durée invalide').int('Durée invalide').min(1, 'Au moins une mensualité'),
+  // Vide : pas d'assurance
+  insurance: z.string(),
+  startDate: z.string().min(1, 'La date de la première mensualité est obligatoire'),
+});
+
+type LoanForm = z.infer<typeof loanSchema>;
+
+const EMPTY_FORM: Partial<LoanForm> = { label: '', principal: '', insurance: '', startDate: '' };
+
+const toTerms = (form: LoanForm): LoanTerms => ({
+  label: form.label,
+  principalCts: parseCurrency(form.principal),
+  annualRatePct: form.rate,
+  durationMonths: form.durationMonths,
+  monthlyInsuranceCts: form.insurance.trim() ? parseCurrency(form.insurance) : 0,
+  startDate: form.startDate,
+});
+
+export function Loans() {
+  const { data: loans = [], isPending, error: loadError } = useLoans();
+  const { data: fixedExpenses = [] } = useFixedExpenses();
+  const addLoan = useAddLoan();
+  const updateLoan = useUpdateLoan();
+  const deleteLoan = useDeleteLoan();
+  const loading = isPending || addLoan.isPending || updateLoan.isPending || deleteLoan.isPending;
+  const error = loadError ?? addLoan.error ?? updateLoan.error ?? deleteLoan.error;
+  const { toast } = useToast();
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  // Prêt dont le tableau d'amortissement est déplié
+  const [scheduleId, setScheduleId] = useState<string | null>(null);
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+    reset,
+    watch,
+  } = useForm<LoanForm>({
+    resolver: zodResolver(loanSchema),
+    defaultValues: EMPTY_FORM,
+  });
+
+  // Saisie conservée si la session expire avant l'enregistrement
+  useFormDraft<{ editingId: string | null; values: LoanForm }>(
+    'loan-form',
+    showForm ? { editingId, values: watch() } : null,
+    (draft) => {
+      setEditingId(draft.editingId);
+      setShowForm(true);
+      reset({ ...EMPTY_FORM, ...draft.values });
+    }
+  );
+
+  const onSubmit = async (form: LoanForm) => {
+    const terms = toTerms(form);
+    const editingLoan = loans.find(loan => loan.id === editingId);
+    if (editingLoan) {
+      try {
+        const { undo } = await updateLoan.mutateAsync({ loan: editingLoan, terms });
+        toast({
+          title: 'Prêt modifié',
+          description: 'Le tableau d\'amortissement et la charge fixe ont été recalculés',
+          action: <UndoToastAction onUndo={undo} />,
+        });
+        setEditingId(null);
+      } catch {
+        // Error is shown in the page banner
+      }
+    } else {
+      try {
+        const { undo } = await addLoan.mutateAsync(terms);
+        toast({
+          title: 'Prêt ajouté',
+          description: `Mensualité de ${formatCurrency(
+            getMonthlyInstalment(terms.principalCts, terms.annualRatePct, terms.durationMonths) + terms.monthlyInsuranceCts
+          )} ajoutée aux charges fixes`,
+          action: <UndoToastAction onUndo={undo} />,
+        });
+      } catch {
+        // Error is shown in the page banner
+      }
+    }
+
+    reset(EMPTY_FORM);
+    setShowForm(false);
+  };
+
+  const handleEdit = (loan: Loan) => {
+    setEditingId(loan.id);
+    setShowForm(true);
+    reset({
+      label: loan.label,
+      principal: (loan.principalCts / 100).toFixed(2),
+      rate: loan.annualRatePct,
+      durationMonths: loan.durationMonths,
+      insurance: loan.monthlyInsuranceCts ? (loan.monthlyInsuranceCts / 100).toFixed(2) : '',
+      startDate: loan.startDate,
+    });
+  };
+
+  const handleDelete = async (loan: Loan) => {
+    try {
+      const fixedExpense = fixedExpenses.find(expense => expense.id === loan.fixedExpenseId);
+      const { undo } = await deleteLoan.mutateAsync({ loan, fixedExpense });
+      toast({
+        title: 'Prêt supprimé',
+        description: `"${loan.label}" et sa charge fixe ont été retirés`,
+        action: <UndoToastAction onUndo={undo} />,
+      });
+    } catch {
+      // Error is shown in the page banner
+    }
+  };
+
+  const handleCancel = () => {
+    setEditingId(null);
+    setShowForm(false);
+    reset(EMPTY_FORM);
+  };
+
+  if (isPending) {
+    return <LoadingCard text="Chargement des prêts..." />;
+  }
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-md p-4">
+          <p className="text-red-600">Erreur: {error.message}</p>
+        </div>
+      )}
+
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Prêts</h1>
+          <p className="text-gray-600 mt-1">
+            Crédits immobiliers et à la consommation : les mensualités sont ajoutées aux charges fixes
+          </p>
+        </div>
+        <Button onClick={() => setShowForm(true)} disabled={showForm}>
+          <Plus className="h-4 w-4 mr-2" />
+          Ajouter un prêt
+        </Button>
+      </div>
+
+      {/* Form */}
+      {showForm && (
+        <Card>
+          <CardHeader>
+            <CardTitle>{editingId ? 'Modifier' : 'Ajouter'} un prêt</CardTitle>
+            {loading && <Loading size="sm" />}
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleSubmit(onSubmit)} className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="md:col-span-2">
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Libellé *
+                </label>
+                <Input
+                  {...register('label')}
+                  placeholder="Prêt immobilier, Crédit auto..."
+                  className={errors.label ? 'border-red-500' : ''}
+                />
+                {errors.label && (
+                  <p className="mt-1 text-sm text-red-600">{errors.label.message}</p>
+                )}
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Capital emprunté (€) *
+                </label>
+                <Input
+                  {...register('principal')}
+                  type="text"
+                  placeholder="200000.00"
+                  className={errors.principal ? 'border-red-500' : ''}
+                  lang="fr-FR"
+                />
+                {errors.principal && (
+                  <p className="mt-1 text-sm text-red-600">{errors.principal.message}</p>
+                )}
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Taux nominal annuel (%) *
+                </label>
+                <Input
+                  {...register('rate', { valueAsNumber: true })}
+                  type="number"
+                  step="0.01"
+                  placeholder="3.5"
+                  className={errors.rate ? 'border-red-500' : ''}
+                />
+                {errors.rate && (
+                  <p className="mt-1 text-sm text-red-600">{errors.rate.message}</p>
+                )}
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Durée (mois) *
+                </label>
+                <Input
+                  {...register('durationMonths', { valueAsNumber: true })}
+                  type="number"
+                  placeholder="240"
+                  className={errors.durationMonths ? 'border-red-500' : ''}
+                />
+                {errors.durationMonths && (
+                  <p className="mt-1 text-sm text-red-600">{errors.durationMonths.message}</p>
+                )}
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Assurance mensuelle (€)
+                </label>
+                <Input
+                  {...register('insurance')}
+                  type="text"
+                  placeholder="Aucune"
+                  lang="fr-FR"
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Première mensualité *
+                </label>
+                <Input
+                  {...register('startDate')}
+                  type="date"
+                  className={errors.startDate ? 'border-red-500' : ''}
+                />
+                {errors.startDate && (
+                  <p className="mt-1 text-sm text-red-600">{errors.startDate.message}</p>
+                )}
+              </div>
+
+              <div className="md:col-span-2 flex justify-end space-x-2">
+                <Button type="button" variant="outline" onClick={handleCancel}>
+                  <X className="h-4 w-4 mr-2" />
+                  Annuler
+                </Button>
+                <Button type="submit">
+                  <Check className="h-4 w-4 mr-2" />
+                  {editingId ? 'Modifier' : 'Ajouter'}
+                </Button>
+              </div>
+            </form>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* List */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Liste des prêts</CardTitle>
+          <CardDescription>
+            {loans.length} prêt{loans.length > 1 ? 's' : ''} en cours
+          </CardDescription>
+          {loading && <Loading size="sm" />}
+        </CardHeader>
+        <CardContent>
+          {loans.length === 0 ? (
+            <div className="text-center py-8 text-gray-500">
+              <p>Aucun prêt enregistré</p>
+              <p className="text-sm mt-1">Ajoutez un prêt pour suivre son amortissement</p>
+            </div>
+          ) : (
+            <ul className="divide-y divide-gray-200">
+              {loans.map(loan => {
+                const schedule = getAmortizationSchedule(loan);
+                const totalInterestCts = getTotalInterest(schedule);
+                const totalInsuranceCts = schedule.reduce((sum, row) => sum + row.insuranceCts, 0);
+                const isOpen = scheduleId === loan.id;
+                return (
+                  <li key={loan.id} className="py-4">
+                    <div className="flex items-start justify-between">
+                      <div>
+                        <div className="text-sm font-medium text-gray-900">{loan.label}</div>
+                        <div className="text-sm text-gray-600">
+                          {formatCurrency(loan.principalCts)} à {loan.annualRatePct} % sur {loan.durationMonths} mois,
+                          du {formatDate(schedule[0]?.dateISO ?? loan.startDate)} au{' '}
+                          {formatDate(schedule[schedule.length - 1]?.dateISO ?? loan.startDate)}
+                        </div>
+                        <div className="text-xs text-gray-500 mt-1">
+                          Mensualité {formatCurrency(schedule[0]?.paymentCts ?? 0)}
+                          {loan.monthlyInsuranceCts > 0 && ` dont ${formatCurrency(loan.monthlyInsuranceCts)} d'assurance`}
+                          {' · '}Coût du crédit {formatCurrency(totalInterestCts + totalInsuranceCts)}
+                        </div>
+                        {!loan.fixedExpenseId && (
+                          <div className="text-xs text-amber-700 mt-1">
+                            Charge fixe manquante : modifiez le prêt pour la recréer
+                          </div>
+                        )}
+                      </div>
+                      <div className="flex space-x-2">
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => setScheduleId(isOpen ? null : loan.id)}
+                          title="Tableau d'amortissement"
+                        >
+                          <Table className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => handleEdit(loan)}
+                          disabled={showForm}
+                        >
+                          <Edit className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => handleDelete(loan)}
+                          className="text-red-600 hover:text-red-700"
+                          title="Supprimer"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </div>
+
+                    {isOpen && (
+                      <div className="mt-4 max-h-96 overflow-auto border rounded-md">
+                        <table className="min-w-full text-sm">
+                          <thead className="bg-gray-50 sticky top-0">
+                            <tr className="text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                              <th className="px-3 py-2">N°</th>
+                              <th className="px-3 py-2">Date</th>
+                              <th className="px-3 py-2 text-right">Mensualité</th>
+                              <th className="px-3 py-2 text-right">Intérêts</th>
+                              <th className="px-3 py-2 text-right">Capital</th>
+                              <th className="px-3 py-2 text-right">Assurance</th>
+                              <th className="px-3 py-2 text-right">Restant dû</th>
+                            </tr>
+                          </thead>
+                          <tbody className="divide-y divide-gray-100">
+                            {schedule.map(row => (
+                              <tr key={row.index}>
+                                <td className="px-3 py-1 text-gray-500">{row.index}</td>
+                                <td className="px-3 py-1">{formatDate(row.dateISO)}</td>
+                                <td className="px-3 py-1 text-right font-medium">{formatCurrency(row.paymentCts)}</td>
+                                <td className="px-3 py-1 text-right text-red-600">{formatCurrency(row.interestCts)}</td>
+                                <td className="px-3 py-1 text-right">{formatCurrency(row.capitalCts)}</td>
+                                <td className="px-3 py-1 text-right text-gray-600">{formatCurrency(row.insuranceCts)}</td>
+                                <td className="px-3 py-1 text-right text-gray-600">{formatCurrency(row.remainingCts)}</td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      </div>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
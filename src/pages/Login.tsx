@@ -1,22 +1,27 @@
 import React, { useEffect } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { Location, useLocation, useNavigate } from 'react-router-dom';
 import { Euro, AlertCircle } from 'lucide-react';
 import { Loading } from '../components/ui/loading';
 import { Button } from '../components/ui/button';
 import { useAuthStore } from '../store/auth';
 import { authApi } from '../services/api';
+import { DEFAULT_RETURN_TO } from '../services/oidc';
 
 export function Login() {
   const navigate = useNavigate();
-  const { setAuthData, isAuthenticated } = useAuthStore();
+  const location = useLocation();
+  const { setUser, login, isAuthenticated } = useAuthStore();
   const [error, setError] = React.useState<string | null>(null);
   const [loading, setLoading] = React.useState(true);
+  // Route demandée avant la redirection vers la connexion
+  const from = (location.state as { from?: Location } | null)?.from;
+  const returnTo = from ? `${from.pathname}${from.search}` : DEFAULT_RETURN_TO;
 
   useEffect(() => {
     const checkAuthAndRedirect = async () => {
       // Si déjà connecté, rediriger vers l'app
       if (isAuthenticated) {
-        navigate('/forecast', { replace: true });
+        navigate(returnTo, { replace: true });
         return;
       }
 
@@ -24,25 +29,19 @@ export function Login() {
         setLoading(true);
         setError(null);
         // Vérifier si l'utilisateur est déjà connecté via les cookies
-        const userData = await authApi.getUserInfo();
+        const user = await authApi.getUserInfo();
         
-        if (userData) {
+        if (user) {
           // L'utilisateur est connecté, mettre à jour le store
-          setAuthData({
-            id: userData.sub || userData.id,
-            email: userData.email,
-            fullName: userData.profile.name || userData.profile.given_name && userData.profile.family_name 
-              ? `${userData.profile.given_name} ${userData.profile.family_name}` 
-              : userData.profile.email
-          }, ''); // Plus besoin de l'access_token côté client
+          setUser(user);
           
           // Rediriger vers l'app
-          navigate('/forecast', { replace: true });
+          navigate(returnTo, { replace: true });
           return;
         }
       } catch (error) {
         // L'utilisateur n'est pas connecté, continuer
-        console.log('Utilisateur non connecté, redirection vers Cognito');
+        console.log('Utilisateur non connecté, redirection vers le fournisseur d\'identité');
       }
       
       // Arrêter le loading, l'utilisateur peut maintenant cliquer pour se connecter
@@ -50,14 +49,14 @@ export function Login() {
     };
     
     checkAuthAndRedirect();
-  }, [isAuthenticated, navigate, setAuthData]);
+  }, [isAuthenticated, navigate, setUser, returnTo]);
 
   const handleLogin = async () => {
     try {
       setLoading(true);
       setError(null);
-      // Rediriger vers Cognito pour l'authentification
-      await authApi.login();
+      // Rediriger vers le fournisseur d'identité (code + PKCE)
+      await login(returnTo);
     } catch (error) {
       console.error('Erreur lors de la redirection vers la page de login:', error);
       setError('Impossible de se connecter. Veuillez réessayer.');
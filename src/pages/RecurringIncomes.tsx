@@ -1,46 +1,61 @@
-import React, { useState } from 'react';
-import { useEffect } from 'react';
-import { useForm } from 'react-hook-form';
+import { useState } from 'react';
+import { Controller, useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
-import { Plus, Edit, Trash2, X, Check } from 'lucide-react';
+import { Plus, Edit, Trash2, X, Check, History } from 'lucide-react';
 import { Button } from '../components/ui/button';
 import { Input } from '../components/ui/input';
 import { Loading, LoadingCard } from '../components/ui/loading';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../components/ui/card';
 import { useToast } from '../components/ui/use-toast';
-import { useBudgetStore } from '../store/budget';
-import { formatCurrency, formatDate, parseCurrency } from '../lib/utils';
-import { RecurringIncome } from '../types';
+import { UndoToastAction } from '../components/UndoToastAction';
+import { RecurrenceFields } from '../components/RecurrenceFields';
+import { AmountHistoryDialog } from '../components/AmountHistoryDialog';
+import { IndexationFields } from '../components/IndexationFields';
+import { useFormDraft } from '../hooks/useFormDraft';
+import { useAccounts, useRecurringIncomes } from '../hooks/queries';
+import { useAddRecurringIncome, useUpdateRecurringIncome, useDeleteRecurringIncome } from '../hooks/mutations';
+import { formatCurrency, formatDate, getCurrentDate, parseCurrency } from '../lib/utils';
+import {
+  DEFAULT_RECURRENCE,
+  describeRecurrence,
+  getAmountAt,
+  getNextIndexation,
+  getNextOccurrence,
+  indexationFormSchema,
+  recurrenceFormSchema,
+} from '../lib/recurrence';
+import { AmountRevision, RecurringIncome } from '../types';
 
 const recurringIncomeSchema = z.object({
   label: z.string().min(1, 'Le libellé est obligatoire'),
   amount: z.string().min(1, 'Le montant est obligatoire'),
-  dayOfMonth: z.coerce.number().min(1, 'Le jour doit être entre 1 et 31').max(31, 'Le jour doit être entre 1 et 31'),
+  recurrence: recurrenceFormSchema,
+  indexation: indexationFormSchema.optional(),
   startDate: z.string().min(1, 'La date de début est obligatoire'),
   endDate: z.string().optional(),
+  // Vide : compte par défaut
+  accountId: z.string().optional(),
 });
 
 type RecurringIncomeForm = z.infer<typeof recurringIncomeSchema>;
 
+const selectClassName =
+  'w-full rounded-md border border-gray-300 bg-white px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500';
+
 export function RecurringIncomes() {
-  const { 
-    recurringIncomes, 
-    addRecurringIncome, 
-    updateRecurringIncome, 
-    deleteRecurringIncome,
-    loadRecurringIncomes,
-    loading,
-    error 
-  } = useBudgetStore();
+  const { data: recurringIncomes = [], isPending, error: loadError } = useRecurringIncomes();
+  const { data: accounts = [] } = useAccounts();
+  const addRecurringIncome = useAddRecurringIncome();
+  const updateRecurringIncome = useUpdateRecurringIncome();
+  const deleteRecurringIncome = useDeleteRecurringIncome();
+  const loading = isPending || addRecurringIncome.isPending || updateRecurringIncome.isPending || deleteRecurringIncome.isPending;
+  const error = loadError ?? addRecurringIncome.error ?? updateRecurringIncome.error ?? deleteRecurringIncome.error;
   const { toast } = useToast();
   const [editingId, setEditingId] = useState<string | null>(null);
   const [showForm, setShowForm] = useState(false);
-  
-  // Load data on mount
-  useEffect(() => {
-    loadRecurringIncomes();
-  }, []);
+  const [historyId, setHistoryId] = useState<string | null>(null);
+  const editingItem = recurringIncomes.find(income => income.id === editingId);
   
   const {
     register,
@@ -48,10 +63,24 @@ export function RecurringIncomes() {
     formState: { errors },
     reset,
     setValue,
+    watch,
+    control,
   } = useForm<RecurringIncomeForm>({
     resolver: zodResolver(recurringIncomeSchema),
+    defaultValues: { recurrence: DEFAULT_RECURRENCE },
   });
   
+  // Saisie conservée si la session expire avant l'enregistrement
+  useFormDraft<{ editingId: string | null; values: RecurringIncomeForm }>(
+    'recurring-income-form',
+    showForm ? { editingId, values: watch() } : null,
+    (draft) => {
+      setEditingId(draft.editingId);
+      setShowForm(true);
+      reset(draft.values);
+    }
+  );
+  
   const onSubmit = async (data: RecurringIncomeForm) => {
     const amountCts = parseCurrency(data.amount);
     
@@ -67,31 +96,35 @@ export function RecurringIncomes() {
     const incomeData = {
       label: data.label,
       amountCts,
-      dayOfMonth: data.dayOfMonth,
+      recurrence: data.recurrence,
+      indexation: data.indexation ?? null,
       startDate: data.startDate,
       endDate: data.endDate || undefined,
+      accountId: data.accountId || undefined,
     };
     
     if (editingId) {
       try {
-        await updateRecurringIncome(editingId, incomeData);
+        const { undo } = await updateRecurringIncome.mutateAsync({ id: editingId, updates: incomeData });
         toast({
           title: 'Revenu récurrent modifié',
           description: 'Le revenu récurrent a été mis à jour avec succès',
+          action: <UndoToastAction onUndo={undo} />,
         });
         setEditingId(null);
       } catch (error) {
-        // Error is handled in the store
+        // Error is shown in the page banner
       }
     } else {
       try {
-        await addRecurringIncome(incomeData);
+        const { undo } = await addRecurringIncome.mutateAsync(incomeData);
         toast({
           title: 'Revenu récurrent ajouté',
           description: 'Le nouveau revenu récurrent a été créé avec succès',
+          action: <UndoToastAction onUndo={undo} />,
         });
       } catch (error) {
-        // Error is handled in the store
+        // Error is shown in the page banner
       }
     }
     
@@ -104,39 +137,55 @@ export function RecurringIncomes() {
     setShowForm(true);
     setValue('label', income.label);
     setValue('amount', (income.amountCts / 100).toString());
-    setValue('dayOfMonth', income.dayOfMonth);
+    setValue('recurrence', income.recurrence);
+    setValue('indexation', income.indexation);
     setValue('startDate', income.startDate);
     setValue('endDate', income.endDate || '');
+    setValue('accountId', income.accountId ?? '');
   };
   
   const handleDelete = async (id: string, label: string) => {
-    if (window.confirm(`Êtes-vous sûr de vouloir supprimer "${label}" ?`)) {
-      try {
-        await deleteRecurringIncome(id);
-        toast({
-          title: 'Revenu récurrent supprimé',
-          description: 'Le revenu récurrent a été supprimé avec succès',
-        });
-      } catch (error) {
-        // Error is handled in the store
-      }
+    try {
+      const { undo } = await deleteRecurringIncome.mutateAsync(id);
+      toast({
+        title: 'Revenu récurrent supprimé',
+        description: `"${label}" a été retiré de la liste`,
+        action: <UndoToastAction onUndo={undo} />,
+      });
+    } catch (error) {
+      // Error is shown in the page banner
     }
   };
   
+  const handleSaveRevisions = async (amountRevisions: AmountRevision[]) => {
+    if (!historyId) return;
+    const { undo } = await updateRecurringIncome.mutateAsync({ id: historyId, updates: { amountRevisions } });
+    toast({
+      title: 'Historique mis à jour',
+      description: 'Les échéances utilisent le montant en vigueur à leur date',
+      action: <UndoToastAction onUndo={undo} />,
+    });
+  };
+  
   const handleCancel = () => {
     setEditingId(null);
     setShowForm(false);
     reset();
   };
   
+  // Par prochaine échéance, les éléments terminés en dernier
+  const nextOccurrences = new Map(recurringIncomes.map(income => [income.id, getNextOccurrence(income)]));
+  const nextIndexations = new Map(recurringIncomes.map(income => [income.id, getNextIndexation(income)]));
   const sortedIncomes = [...recurringIncomes].sort((a, b) => {
-    if (a.dayOfMonth !== b.dayOfMonth) {
-      return a.dayOfMonth - b.dayOfMonth;
+    const nextA = nextOccurrences.get(a.id) ?? '9999-12-31';
+    const nextB = nextOccurrences.get(b.id) ?? '9999-12-31';
+    if (nextA !== nextB) {
+      return nextA.localeCompare(nextB);
     }
     return a.label.localeCompare(b.label);
   });
   
-  if (loading && recurringIncomes.length === 0) {
+  if (isPending) {
     return <LoadingCard text="Chargement des revenus récurrents..." />;
   }
   
@@ -144,7 +193,7 @@ export function RecurringIncomes() {
     <div className="space-y-6">
       {error && (
         <div className="bg-red-50 border border-red-200 rounded-md p-4">
-          <p className="text-red-600">Erreur: {error}</p>
+          <p className="text-red-600">Erreur: {error.message}</p>
         </div>
       )}
       
@@ -186,7 +235,7 @@ export function RecurringIncomes() {
               
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-1">
-                  Montant (€) *
+                  {editingItem?.amountRevisions.length ? 'Montant initial (€) *' : 'Montant (€) *'}
                 </label>
                 <Input
                   {...register('amount')}
@@ -200,22 +249,13 @@ export function RecurringIncomes() {
                 )}
               </div>
               
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-1">
-                  Jour du mois *
-                </label>
-                <Input
-                  {...register('dayOfMonth')}
-                  type="number"
-                  min="1"
-                  max="31"
-                  placeholder="28"
-                  className={errors.dayOfMonth ? 'border-red-500' : ''}
-                />
-                {errors.dayOfMonth && (
-                  <p className="mt-1 text-sm text-red-600">{errors.dayOfMonth.message}</p>
+              <Controller
+                control={control}
+                name="recurrence"
+                render={({ field }) => (
+                  <RecurrenceFields value={field.value} onChange={field.onChange} errors={errors.recurrence} />
                 )}
-              </div>
+              />
               
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-1">
@@ -241,6 +281,33 @@ export function RecurringIncomes() {
                 />
               </div>
               
+              {accounts.length > 0 && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Compte
+                  </label>
+                  <select {...register('accountId')} className={selectClassName}>
+                    <option value="">Compte par défaut</option>
+                    {accounts.map(account => (
+                      <option key={account.id} value={account.id}>{account.name}</option>
+                    ))}
+                  </select>
+                </div>
+              )}
+              
+              <Controller
+                control={control}
+                name="indexation"
+                render={({ field }) => (
+                  <IndexationFields
+                    value={field.value}
+                    onChange={field.onChange}
+                    startDate={watch('startDate')}
+                    errors={errors.indexation}
+                  />
+                )}
+              />
+              
               <div className="md:col-span-2 flex justify-end space-x-2">
                 <Button type="button" variant="outline" onClick={handleCancel}>
                   <X className="h-4 w-4 mr-2" />
@@ -283,7 +350,7 @@ export function RecurringIncomes() {
                       Montant
                     </th>
                     <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                      Jour
+                      Échéance
                     </th>
                     <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                       Période
@@ -300,10 +367,26 @@ export function RecurringIncomes() {
                         {income.label}
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                        {formatCurrency(income.amountCts)}
+                        {formatCurrency(getAmountAt(income, getCurrentDate()))}
+                        {income.amountRevisions.length > 0 && (
+                          <div className="text-xs text-gray-500">
+                            {income.amountRevisions.length} révision{income.amountRevisions.length > 1 ? 's' : ''}
+                          </div>
+                        )}
+                        {nextIndexations.get(income.id) && (
+                          <div className="text-xs text-blue-600">
+                            Puis {formatCurrency(nextIndexations.get(income.id)!.amountCts)} le{' '}
+                            {formatDate(nextIndexations.get(income.id)!.dateISO)}
+                          </div>
+                        )}
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                        Le {income.dayOfMonth}
+                        {describeRecurrence(income.recurrence, income.startDate)}
+                        {nextOccurrences.get(income.id) && (
+                          <div className="text-xs text-gray-500">
+                            Prochaine le {formatDate(nextOccurrences.get(income.id)!)}
+                          </div>
+                        )}
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
                         Du {formatDate(income.startDate)}
@@ -311,6 +394,14 @@ export function RecurringIncomes() {
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
                         <div className="flex justify-end space-x-2">
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => setHistoryId(income.id)}
+                            title="Historique des montants"
+                          >
+                            <History className="h-4 w-4" />
+                          </Button>
                           <Button
                             size="sm"
                             variant="outline"
@@ -336,6 +427,12 @@ export function RecurringIncomes() {
           )}
         </CardContent>
       </Card>
+      
+      <AmountHistoryDialog
+        item={recurringIncomes.find(income => income.id === historyId) ?? null}
+        onClose={() => setHistoryId(null)}
+        onSave={handleSaveRevisions}
+      />
     </div>
   );
 }
\ No newline at end of file
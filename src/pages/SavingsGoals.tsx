@@ -0,0 +1,291 @@
+import { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Plus, Edit, Trash2, X, Check } from 'lucide-react';
+import { Button } from '../components/ui/button';
+import { Input } from '../components/ui/input';
+import { Loading, LoadingCard } from '../components/ui/loading';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../components/ui/card';
+import { useToast } from '../components/ui/use-toast';
+import { UndoToastAction } from '../components/UndoToastAction';
+import { SavingsGoalProgress } from '../components/SavingsGoalProgress';
+import { useFormDraft } from '../hooks/useFormDraft';
+import { useForecastWithFallback, useSavingsGoals } from '../hooks/queries';
+import { useAddSavingsGoal, useDeleteSavingsGoal, useUpdateSavingsGoal } from '../hooks/mutations';
+import { formatCurrency, getCurrentMonth, parseCurrency } from '../lib/utils';
+import { getSavingsPlans } from '../lib/savings';
+import { SavingsGoal } from '../types';
+
+const savingsGoalSchema = z.object({
+  name: z.string().trim().min(1, 'Le nom est obligatoire'),
+  target: z.string().refine(value => parseCurrency(value) > 0, 'Le montant cible doit être positif'),
+  targetDate: z.string().min(1, 'La date cible est obligatoire'),
+  // Vide : rien d'épargné pour l'instant
+  current: z.string(),
+});
+
+type SavingsGoalForm = z.infer<typeof savingsGoalSchema>;
+
+const EMPTY_FORM: SavingsGoalForm = { name: '', target: '', targetDate: '', current: '' };
+
+export function SavingsGoals() {
+  const { data: goals = [], isPending, error: loadError } = useSavingsGoals();
+  // Solde prévisionnel du mois, qui finance les versements
+  const { data: forecastData } = useForecastWithFallback(getCurrentMonth());
+  const addGoal = useAddSavingsGoal();
+  const updateGoal = useUpdateSavingsGoal();
+  const deleteGoal = useDeleteSavingsGoal();
+  const loading = isPending || addGoal.isPending || updateGoal.isPending || deleteGoal.isPending;
+  const error = loadError ?? addGoal.error ?? updateGoal.error ?? deleteGoal.error;
+  const { toast } = useToast();
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [showForm, setShowForm] = useState(false);
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+    reset,
+    setValue,
+    watch,
+  } = useForm<SavingsGoalForm>({
+    resolver: zodResolver(savingsGoalSchema),
+    defaultValues: EMPTY_FORM,
+  });
+
+  // Saisie conservée si la session expire avant l'enregistrement
+  useFormDraft<{ editingId: string | null; values: SavingsGoalForm }>(
+    'savings-goal-form',
+    showForm ? { editingId, values: watch() } : null,
+    (draft) => {
+      setEditingId(draft.editingId);
+      setShowForm(true);
+      reset({ ...EMPTY_FORM, ...draft.values });
+    }
+  );
+
+  const onSubmit = async (form: SavingsGoalForm) => {
+    const data = {
+      name: form.name,
+      targetCts: parseCurrency(form.target),
+      targetDateISO: form.targetDate,
+      currentCts: form.current.trim() ? parseCurrency(form.current) : 0,
+    };
+    if (editingId) {
+      try {
+        const { undo } = await updateGoal.mutateAsync({ id: editingId, updates: data });
+        toast({
+          title: 'Objectif modifié',
+          description: `"${data.name}" a été mis à jour`,
+          action: <UndoToastAction onUndo={undo} />,
+        });
+        setEditingId(null);
+      } catch {
+        // Error is shown in the page banner
+      }
+    } else {
+      try {
+        const { undo } = await addGoal.mutateAsync(data);
+        toast({
+          title: 'Objectif ajouté',
+          description: `"${data.name}" : ${formatCurrency(data.targetCts)} à épargner`,
+          action: <UndoToastAction onUndo={undo} />,
+        });
+      } catch {
+        // Error is shown in the page banner
+      }
+    }
+
+    reset(EMPTY_FORM);
+    setShowForm(false);
+  };
+
+  const handleEdit = (goal: SavingsGoal) => {
+    setEditingId(goal.id);
+    setShowForm(true);
+    setValue('name', goal.name);
+    setValue('target', (goal.targetCts / 100).toFixed(2));
+    setValue('targetDate', goal.targetDateISO);
+    setValue('current', goal.currentCts ? (goal.currentCts / 100).toFixed(2) : '');
+  };
+
+  const handleDelete = async (goal: SavingsGoal) => {
+    try {
+      const { undo } = await deleteGoal.mutateAsync(goal.id);
+      toast({
+        title: 'Objectif supprimé',
+        description: `"${goal.name}" a été retiré de la liste`,
+        action: <UndoToastAction onUndo={undo} />,
+      });
+    } catch {
+      // Error is shown in the page banner
+    }
+  };
+
+  const handleCancel = () => {
+    setEditingId(null);
+    setShowForm(false);
+    reset(EMPTY_FORM);
+  };
+
+  if (isPending) {
+    return <LoadingCard text="Chargement des objectifs d'épargne..." />;
+  }
+
+  const plans = getSavingsPlans(goals, forecastData?.projectedBalanceCts);
+  const monthlyTotalCts = plans.reduce((sum, plan) => sum + plan.monthlyContributionCts, 0);
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-md p-4">
+          <p className="text-red-600">Erreur: {error.message}</p>
+        </div>
+      )}
+
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Objectifs d'épargne</h1>
+          <p className="text-gray-600 mt-1">
+            Fonds d'urgence, vacances, voiture... : l'application calcule le versement mensuel nécessaire
+          </p>
+        </div>
+        <Button onClick={() => setShowForm(true)} disabled={showForm}>
+          <Plus className="h-4 w-4 mr-2" />
+          Ajouter un objectif
+        </Button>
+      </div>
+
+      {/* Form */}
+      {showForm && (
+        <Card>
+          <CardHeader>
+            <CardTitle>{editingId ? 'Modifier' : 'Ajouter'} un objectif</CardTitle>
+            {loading && <Loading size="sm" />}
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleSubmit(onSubmit)} className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="md:col-span-2">
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Nom *
+                </label>
+                <Input
+                  {...register('name')}
+                  placeholder="Fonds d'urgence, Vacances, Voiture..."
+                  className={errors.name ? 'border-red-500' : ''}
+                />
+                {errors.name && (
+                  <p className="mt-1 text-sm text-red-600">{errors.name.message}</p>
+                )}
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Montant cible (€) *
+                </label>
+                <Input
+                  {...register('target')}
+                  type="text"
+                  placeholder="3000.00"
+                  className={errors.target ? 'border-red-500' : ''}
+                  lang="fr-FR"
+                />
+                {errors.target && (
+                  <p className="mt-1 text-sm text-red-600">{errors.target.message}</p>
+                )}
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Date cible *
+                </label>
+                <Input
+                  {...register('targetDate')}
+                  type="date"
+                  className={errors.targetDate ? 'border-red-500' : ''}
+                />
+                {errors.targetDate && (
+                  <p className="mt-1 text-sm text-red-600">{errors.targetDate.message}</p>
+                )}
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Déjà épargné (€)
+                </label>
+                <Input
+                  {...register('current')}
+                  type="text"
+                  placeholder="0.00"
+                  lang="fr-FR"
+                />
+              </div>
+
+              <div className="md:col-span-2 flex justify-end space-x-2">
+                <Button type="button" variant="outline" onClick={handleCancel}>
+                  <X className="h-4 w-4 mr-2" />
+                  Annuler
+                </Button>
+                <Button type="submit">
+                  <Check className="h-4 w-4 mr-2" />
+                  {editingId ? 'Modifier' : 'Ajouter'}
+                </Button>
+              </div>
+            </form>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* List */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Liste des objectifs</CardTitle>
+          <CardDescription>
+            {goals.length} objectif{goals.length > 1 ? 's' : ''}, par date cible
+            {monthlyTotalCts > 0 && ` · ${formatCurrency(monthlyTotalCts)} à épargner ce mois-ci`}
+          </CardDescription>
+          {loading && <Loading size="sm" />}
+        </CardHeader>
+        <CardContent>
+          {plans.length === 0 ? (
+            <div className="text-center py-8 text-gray-500">
+              <p>Aucun objectif d'épargne</p>
+              <p className="text-sm mt-1">Ajoutez un objectif pour planifier vos versements mensuels</p>
+            </div>
+          ) : (
+            <ul className="divide-y divide-gray-200">
+              {plans.map(plan => (
+                <li key={plan.goal.id} className="flex items-center py-3 gap-4">
+                  <div className="flex-1">
+                    <div className="text-sm font-medium text-gray-900 mb-1">{plan.goal.name}</div>
+                    <SavingsGoalProgress plan={plan} />
+                  </div>
+                  <div className="flex space-x-2">
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => handleEdit(plan.goal)}
+                      disabled={showForm}
+                    >
+                      <Edit className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => handleDelete(plan.goal)}
+                      className="text-red-600 hover:text-red-700"
+                      title="Supprimer"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
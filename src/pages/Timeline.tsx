@@ -1,23 +1,39 @@
-import React, { useState } from 'react';
-import { useEffect } from 'react';
-import { Calendar, TrendingUp, TrendingDown, CreditCard, PiggyBank, Filter } from 'lucide-react';
+import { useEffect, useState } from 'react';
+import { Calendar, TrendingUp, TrendingDown, CreditCard, PiggyBank, Filter, CloudOff, AlertTriangle, CalendarClock, CheckCircle2, ArrowRightLeft, Receipt } from 'lucide-react';
 import dayjs from 'dayjs';
-import isBetween from 'dayjs/plugin/isBetween';
-import isSameOrBefore from 'dayjs/plugin/isSameOrBefore';
-import isSameOrAfter from 'dayjs/plugin/isSameOrAfter';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../components/ui/card';
 import { Button } from '../components/ui/button';
 import { Loading, LoadingCard } from '../components/ui/loading';
-import { useBudgetStore } from '../store/budget';
+import {
+  useAccounts,
+  useCardStatements,
+  useCategories,
+  useExpenses,
+  useFixedExpenses,
+  useIncomes,
+  useRecurringIncomes,
+  useTransfers,
+} from '../hooks/queries';
+import { useUpdateFixedExpense, useUpdateRecurringIncome } from '../hooks/mutations';
+import { useOutboxStore } from '../store/outbox';
 import { useToast } from '../components/ui/use-toast';
+import { UndoToastAction } from '../components/UndoToastAction';
+import { EditedOccurrence, OccurrenceExceptionDialog } from '../components/OccurrenceExceptionDialog';
+import { OccurrenceConfirmDialog } from '../components/OccurrenceConfirmDialog';
 import { formatCurrency, formatDate, getCurrentMonth } from '../lib/utils';
+import { belongsToAccount, getAccountName, getDefaultAccountId, getTransferDirection } from '../lib/accounts';
+import { getStatementCutoff, getStatementDebitDate, getStatementLabel } from '../lib/cards';
+import { getAmountAt, getMonthSchedule, isOccurrence, isOverdue, ScheduledOccurrence } from '../lib/recurrence';
+import { FixedExpenseInput } from '../services/api';
+import { FixedExpense, OccurrenceConfirmation, OccurrenceException, RecurringIncome } from '../types';
 
-// Extend dayjs with required plugins
-dayjs.extend(isBetween);
-dayjs.extend(isSameOrBefore);
-dayjs.extend(isSameOrAfter);
-
-type TransactionType = 'fixed-expense' | 'recurring-income' | 'variable-expense' | 'other-income';
+type TransactionType =
+  | 'fixed-expense'
+  | 'recurring-income'
+  | 'variable-expense'
+  | 'other-income'
+  | 'transfer'
+  | 'card-statement';
 
 interface TimelineItem {
   id: string;
@@ -27,95 +43,143 @@ interface TimelineItem {
   type: TransactionType;
   category?: string;
   notes?: string;
+  accountId?: string;
+  // Virement vu depuis le compte filtré ; absent dans la vue consolidée
+  transferDirection?: 'in' | 'out';
+  // Achat par carte à débit différé : date du prélèvement du relevé
+  deferredDebitDateISO?: string;
+  // Relevé de carte : achats prélevés en une fois, chacun avec sa catégorie
+  statementExpenses?: Array<{ id: string; dateISO: string; label: string; amountCts: number; category?: string }>;
+  // Échéance d'une charge fixe ou d'un revenu récurrent, modifiable individuellement
+  occurrence?: EditedOccurrence & {
+    itemId: string;
+    skipped?: boolean;
+    confirmation?: OccurrenceConfirmation;
+    overdue?: boolean;
+  };
+  // État de synchronisation des saisies faites hors ligne
+  sync?: {
+    entryId: string;
+    status: 'pending' | 'conflict';
+    action: 'create' | 'update' | 'delete';
+    error?: string;
+  };
 }
 
+const SYNC_LABELS = {
+  create: 'En attente de synchronisation',
+  update: 'Modification en attente de synchronisation',
+  delete: 'Suppression en attente de synchronisation',
+};
+
 export function Timeline() {
   const [selectedMonth, setSelectedMonth] = useState(getCurrentMonth());
   const [filterType, setFilterType] = useState<TransactionType | 'all'>('all');
-  const [loading, setLoading] = useState(true);
-  const { 
-    fixedExpenses, 
-    recurringIncomes, 
-    expenses, 
-    incomes, 
-    categories,
-    loadFixedExpenses,
-    loadRecurringIncomes,
-    loadExpenses,
-    loadIncomes,
-    loadCategories,
-    error 
-  } = useBudgetStore();
+  // 'all' : vue consolidée de tous les comptes
+  const [filterAccount, setFilterAccount] = useState<string>('all');
+  // Seules les dépenses et recettes dépendent du mois, le reste reste en cache
+  const categoriesQuery = useCategories();
+  const fixedExpensesQuery = useFixedExpenses();
+  const recurringIncomesQuery = useRecurringIncomes();
+  const expensesQuery = useExpenses(selectedMonth);
+  const incomesQuery = useIncomes(selectedMonth);
+  const accountsQuery = useAccounts();
+  const transfersQuery = useTransfers(selectedMonth);
+  const { data: cardData } = useCardStatements(selectedMonth);
+  const queries = [
+    categoriesQuery,
+    fixedExpensesQuery,
+    recurringIncomesQuery,
+    expensesQuery,
+    incomesQuery,
+    accountsQuery,
+    transfersQuery,
+  ];
+  const loading = queries.some(query => query.isPending);
+  const error = queries.find(query => query.error)?.error ?? null;
+  const categories = categoriesQuery.data ?? [];
+  const fixedExpenses = fixedExpensesQuery.data ?? [];
+  const recurringIncomes = recurringIncomesQuery.data ?? [];
+  const expenses = expensesQuery.data ?? [];
+  const incomes = incomesQuery.data ?? [];
+  const accounts = accountsQuery.data ?? [];
+  const transfers = transfersQuery.data ?? [];
+  const defaultAccountId = getDefaultAccountId(accounts);
+  const { entries: outboxEntries, retry, discard } = useOutboxStore();
   const { toast } = useToast();
+  const updateFixedExpense = useUpdateFixedExpense();
+  const updateRecurringIncome = useUpdateRecurringIncome();
+  const [editedItem, setEditedItem] = useState<TimelineItem | null>(null);
+  const [confirmedItem, setConfirmedItem] = useState<TimelineItem | null>(null);
+  
+  // Dépenses et recettes rapprochées d'une échéance : affichées avec celle-ci
+  const linkedTransactionIds = new Set(
+    [...fixedExpenses, ...recurringIncomes].flatMap(item =>
+      item.occurrenceConfirmations.flatMap(confirmation => confirmation.transactionId ?? [])
+    )
+  );
   
-  // Load data on mount and when month changes
   useEffect(() => {
-    const loadData = async () => {
-      try {
-        setLoading(true);
-        await Promise.all([
-          loadCategories(),
-          loadFixedExpenses(),
-          loadRecurringIncomes(),
-          loadExpenses(selectedMonth),
-          loadIncomes(selectedMonth)
-        ]);
-      } catch (error) {
-        toast({
-          title: 'Erreur',
-          description: 'Impossible de charger les données',
-          variant: 'destructive',
-        });
-      } finally {
-        setLoading(false);
-      }
-    };
-    
-    loadData();
-  }, [selectedMonth]);
+    if (error) {
+      toast({
+        title: 'Erreur',
+        description: 'Impossible de charger les données',
+        variant: 'destructive',
+      });
+    }
+  }, [error, toast]);
   
   // Generate timeline items for the selected month
   const generateTimelineItems = (): TimelineItem[] => {
     const items: TimelineItem[] = [];
-    const monthStart = dayjs(selectedMonth).startOf('month');
-    const monthEnd = dayjs(selectedMonth).endOf('month');
+    
+    // Occurrences of fixed expenses and recurring incomes, skipped ones included so they can be restored
+    const addOccurrences = (
+      recurringItem: FixedExpense | RecurringIncome,
+      type: 'fixed-expense' | 'recurring-income',
+      prefix: string
+    ) => {
+      const toItem = ({ dateISO, amountCts, occurrenceDate, exception, confirmation }: ScheduledOccurrence): TimelineItem => ({
+        id: `${prefix}-${recurringItem.id}-${occurrenceDate}`,
+        date: dayjs(dateISO),
+        label: recurringItem.label,
+        amountCts,
+        type,
+        accountId: recurringItem.accountId,
+        occurrence: {
+          itemId: recurringItem.id,
+          label: recurringItem.label,
+          occurrenceDate,
+          plannedAmountCts: getAmountAt(recurringItem, occurrenceDate),
+          exception,
+          confirmation,
+          skipped: exception?.kind === 'skip' && !confirmation,
+          overdue: isOverdue({ dateISO, amountCts, occurrenceDate, confirmation }),
+        },
+      });
+      
+      getMonthSchedule(recurringItem, selectedMonth).forEach(occurrence => items.push(toItem(occurrence)));
+      recurringItem.occurrenceExceptions.forEach(exception => {
+        const { occurrenceDate } = exception;
+        if (exception.kind !== 'skip' || dayjs(occurrenceDate).format('YYYY-MM') !== selectedMonth) return;
+        if (!isOccurrence(recurringItem, occurrenceDate)) return;
+        if (recurringItem.occurrenceConfirmations.some(confirmation => confirmation.occurrenceDate === occurrenceDate)) return;
+        const amountCts = getAmountAt(recurringItem, occurrenceDate);
+        items.push(toItem({ dateISO: occurrenceDate, amountCts, occurrenceDate, exception }));
+      });
+    };
     
     // Add fixed expenses
-    fixedExpenses.forEach(expense => {
-      const expenseDate = dayjs(`${selectedMonth}-${expense.dayOfMonth.toString().padStart(2, '0')}`);
-      if (expenseDate.isBetween(monthStart, monthEnd, null, '[]') &&
-          dayjs(expense.startDate).isSameOrBefore(expenseDate) &&
-          (!expense.endDate || dayjs(expense.endDate).isSameOrAfter(expenseDate))) {
-        items.push({
-          id: `fixed-${expense.id}`,
-          date: expenseDate,
-          label: expense.label,
-          amountCts: expense.amountCts,
-          type: 'fixed-expense',
-        });
-      }
-    });
+    fixedExpenses.forEach(expense => addOccurrences(expense, 'fixed-expense', 'fixed'));
     
     // Add recurring incomes
-    recurringIncomes.forEach(income => {
-      const incomeDate = dayjs(`${selectedMonth}-${income.dayOfMonth.toString().padStart(2, '0')}`);
-      if (incomeDate.isBetween(monthStart, monthEnd, null, '[]') &&
-          dayjs(income.startDate).isSameOrBefore(incomeDate) &&
-          (!income.endDate || dayjs(income.endDate).isSameOrAfter(incomeDate))) {
-        items.push({
-          id: `recurring-${income.id}`,
-          date: incomeDate,
-          label: income.label,
-          amountCts: income.amountCts,
-          type: 'recurring-income',
-        });
-      }
-    });
+    recurringIncomes.forEach(income => addOccurrences(income, 'recurring-income', 'recurring'));
     
     // Add variable expenses
     expenses.forEach(expense => {
-      if (dayjs(expense.dateISO).format('YYYY-MM') === selectedMonth) {
+      if (dayjs(expense.dateISO).format('YYYY-MM') === selectedMonth && !linkedTransactionIds.has(expense.id)) {
         const category = categories.find(cat => cat.id === expense.categoryId);
+        const card = cardData?.cards.find(card => belongsToAccount(expense, card.id, cardData.defaultAccountId));
         items.push({
           id: `expense-${expense.id}`,
           date: dayjs(expense.dateISO),
@@ -124,13 +188,15 @@ export function Timeline() {
           type: 'variable-expense',
           category: category?.name,
           notes: expense.notes,
+          accountId: expense.accountId,
+          deferredDebitDateISO: card && getStatementDebitDate(card, getStatementCutoff(card, expense.dateISO)),
         });
       }
     });
     
     // Add other incomes
     incomes.forEach(income => {
-      if (dayjs(income.dateISO).format('YYYY-MM') === selectedMonth) {
+      if (dayjs(income.dateISO).format('YYYY-MM') === selectedMonth && !linkedTransactionIds.has(income.id)) {
         items.push({
           id: `income-${income.id}`,
           date: dayjs(income.dateISO),
@@ -138,17 +204,170 @@ export function Timeline() {
           amountCts: income.amountCts,
           type: 'other-income',
           notes: income.notes,
+          accountId: income.accountId,
         });
       }
     });
     
+    // Deferred-debit card statements, debited in one go from the default account
+    cardData?.statements.forEach(statement => {
+      items.push({
+        id: `statement-${statement.card.id}-${statement.debitDateISO}`,
+        date: dayjs(statement.debitDateISO),
+        label: getStatementLabel(statement),
+        amountCts: statement.amountCts,
+        type: 'card-statement',
+        category: `Achats du ${formatDate(statement.periodStartISO)} au ${formatDate(statement.periodEndISO)}`,
+        statementExpenses: statement.expenses.map(expense => ({
+          id: expense.id,
+          dateISO: expense.dateISO,
+          label: expense.label,
+          amountCts: expense.amountCts,
+          category: categories.find(cat => cat.id === expense.categoryId)?.name,
+        })),
+      });
+    });
+    
+    // Internal transfers: neutral when consolidated, in or out when viewing one account
+    transfers.forEach(transfer => {
+      if (dayjs(transfer.dateISO).format('YYYY-MM') !== selectedMonth) return;
+      const transferDirection = filterAccount === 'all' ? undefined : getTransferDirection(transfer, filterAccount);
+      if (filterAccount !== 'all' && !transferDirection) return;
+      items.push({
+        id: `transfer-${transfer.id}`,
+        date: dayjs(transfer.dateISO),
+        label: transfer.label ?? 'Virement',
+        amountCts: transfer.amountCts,
+        type: 'transfer',
+        category: `${getAccountName(accounts, transfer.fromAccountId)} → ${getAccountName(accounts, transfer.toAccountId)}`,
+        transferDirection,
+      });
+    });
+    
+    // Apply writes still waiting in the offline outbox
+    outboxEntries.forEach(entry => {
+      const type: TransactionType = entry.resource === 'expenses' ? 'variable-expense' : 'other-income';
+      const status = entry.status === 'sending' ? ('pending' as const) : entry.status;
+      const sync = { entryId: entry.id, status, action: entry.action, error: entry.error };
+      
+      if (entry.action === 'create') {
+        // The optimistic cache may already hold the item under its local id
+        const createdId = `${entry.resource === 'expenses' ? 'expense' : 'income'}-${entry.id}`;
+        const existing = items.findIndex(item => item.id === createdId);
+        if (existing !== -1) items.splice(existing, 1);
+        if (dayjs(entry.payload.date).format('YYYY-MM') !== selectedMonth) return;
+        const categoryId = 'categoryId' in entry.payload ? entry.payload.categoryId : undefined;
+        items.push({
+          id: createdId,
+          date: dayjs(entry.payload.date),
+          label: entry.payload.label,
+          amountCts: entry.payload.amountCts,
+          type,
+          category: categories.find(cat => cat.id === categoryId)?.name,
+          notes: entry.payload.notes,
+          accountId: entry.payload.accountId,
+          sync,
+        });
+        return;
+      }
+      
+      const itemId = `${entry.resource === 'expenses' ? 'expense' : 'income'}-${entry.targetId}`;
+      const index = items.findIndex(item => item.id === itemId);
+      if (index === -1) return;
+      if (entry.action === 'update') {
+        const { date, label, amountCts, notes } = entry.payload;
+        const categoryId = 'categoryId' in entry.payload ? entry.payload.categoryId : undefined;
+        items[index] = {
+          ...items[index],
+          ...(date && { date: dayjs(date) }),
+          ...(label && { label }),
+          ...(amountCts !== undefined && { amountCts }),
+          ...(notes !== undefined && { notes }),
+          ...(categoryId && { category: categories.find(cat => cat.id === categoryId)?.name }),
+          sync,
+        };
+      } else {
+        items[index] = { ...items[index], sync };
+      }
+    });
+    
     return items.sort((a, b) => a.date.valueOf() - b.date.valueOf());
   };
   
   const timelineItems = generateTimelineItems();
+  
+  // Enregistre une exception ou une confirmation sur l'élément récurrent de la ligne
+  const updateOccurrences = async (
+    item: TimelineItem,
+    changes: (source: FixedExpense | RecurringIncome) => Pick<FixedExpenseInput, 'occurrenceExceptions' | 'occurrenceConfirmations'>,
+    title: string
+  ) => {
+    if (!item.occurrence) return;
+    const { itemId, occurrenceDate } = item.occurrence;
+    const isFixedExpense = item.type === 'fixed-expense';
+    const source = (isFixedExpense ? fixedExpenses : recurringIncomes).find(recurringItem => recurringItem.id === itemId);
+    if (!source) return;
+    
+    const mutation = isFixedExpense ? updateFixedExpense : updateRecurringIncome;
+    const { undo } = await mutation.mutateAsync({ id: itemId, updates: changes(source) });
+    toast({
+      title,
+      description: `"${source.label}" du ${formatDate(occurrenceDate)}`,
+      action: <UndoToastAction onUndo={undo} />,
+    });
+  };
+  
+  const handleSaveException = async (exception: OccurrenceException | null) => {
+    if (!editedItem?.occurrence) return;
+    const { occurrenceDate } = editedItem.occurrence;
+    await updateOccurrences(
+      editedItem,
+      (source) => ({
+        occurrenceExceptions: [
+          ...source.occurrenceExceptions.filter(existing => existing.occurrenceDate !== occurrenceDate),
+          ...(exception ? [exception] : []),
+        ],
+      }),
+      exception ? 'Échéance modifiée' : 'Échéance rétablie'
+    );
+  };
+  
+  const handleSaveConfirmation = async (confirmation: OccurrenceConfirmation | null) => {
+    if (!confirmedItem?.occurrence) return;
+    const { occurrenceDate } = confirmedItem.occurrence;
+    const isIncome = confirmedItem.type === 'recurring-income';
+    await updateOccurrences(
+      confirmedItem,
+      (source) => ({
+        occurrenceConfirmations: [
+          ...source.occurrenceConfirmations.filter(existing => existing.occurrenceDate !== occurrenceDate),
+          ...(confirmation ? [confirmation] : []),
+        ],
+      }),
+      confirmation ? (isIncome ? 'Échéance reçue' : 'Échéance payée') : 'Confirmation annulée'
+    );
+  };
+  
+  // Transactions du mois pouvant être rapprochées de l'échéance en cours de confirmation
+  const confirmableTransactions = confirmedItem
+    ? (confirmedItem.type === 'recurring-income' ? incomes : expenses).filter(transaction =>
+        !linkedTransactionIds.has(transaction.id) ||
+        transaction.id === confirmedItem.occurrence?.confirmation?.transactionId
+      )
+    : [];
+  
+  // Les virements sont déjà restreints au compte filtré lors de la génération ; les relevés vont au compte par défaut
+  const accountItems = filterAccount === 'all'
+    ? timelineItems
+    : timelineItems.filter(item => {
+        if (item.type === 'transfer') return true;
+        if (item.type === 'card-statement') return filterAccount === defaultAccountId;
+        return belongsToAccount(item, filterAccount, defaultAccountId);
+      });
+  
   const filteredItems = filterType === 'all' 
-    ? timelineItems 
-    : timelineItems.filter(item => item.type === filterType);
+    ? accountItems 
+    : accountItems.filter(item => item.type === filterType);
   
   const getTypeIcon = (type: TransactionType) => {
     switch (type) {
@@ -160,6 +379,10 @@ export function Timeline() {
         return <TrendingDown className="h-4 w-4" />;
       case 'other-income':
         return <TrendingUp className="h-4 w-4" />;
+      case 'transfer':
+        return <ArrowRightLeft className="h-4 w-4" />;
+      case 'card-statement':
+        return <Receipt className="h-4 w-4" />;
     }
   };
   
@@ -173,6 +396,10 @@ export function Timeline() {
         return 'text-red-600 bg-red-100';
       case 'other-income':
         return 'text-blue-600 bg-blue-100';
+      case 'transfer':
+        return 'text-gray-600 bg-gray-200';
+      case 'card-statement':
+        return 'text-orange-600 bg-orange-100';
     }
   };
   
@@ -186,13 +413,25 @@ export function Timeline() {
         return 'Dépense variable';
       case 'other-income':
         return 'Autre recette';
+      case 'transfer':
+        return 'Virement interne';
+      case 'card-statement':
+        return 'Relevé carte';
     }
   };
   
-  const getAmountColor = (type: TransactionType) => {
-    return type === 'recurring-income' || type === 'other-income' 
-      ? 'text-green-600' 
-      : 'text-red-600';
+  const isCredit = (item: TimelineItem) =>
+    item.type === 'recurring-income' || item.type === 'other-income' || item.transferDirection === 'in';
+  
+  const getAmountColor = (item: TimelineItem) => {
+    if (item.type === 'transfer' && !item.transferDirection) return 'text-gray-600';
+    return isCredit(item) ? 'text-green-600' : 'text-red-600';
+  };
+  
+  // A transfer has no sign in the consolidated view: the money stays within the accounts
+  const getAmountSign = (item: TimelineItem) => {
+    if (item.type === 'transfer' && !item.transferDirection) return '';
+    return isCredit(item) ? '+' : '-';
   };
   
   // Group items by date
@@ -213,7 +452,7 @@ export function Timeline() {
     <div className="space-y-6">
       {error && (
         <div className="bg-red-50 border border-red-200 rounded-md p-4">
-          <p className="text-red-600">Erreur: {error}</p>
+          <p className="text-red-600">Erreur: {error.message}</p>
         </div>
       )}
       
@@ -242,7 +481,21 @@ export function Timeline() {
             <option value="recurring-income">Revenus récurrents</option>
             <option value="variable-expense">Dépenses variables</option>
             <option value="other-income">Autres recettes</option>
+            <option value="transfer">Virements internes</option>
+            <option value="card-statement">Relevés de carte</option>
           </select>
+          {accounts.length > 0 && (
+            <select
+              value={filterAccount}
+              onChange={(e) => setFilterAccount(e.target.value)}
+              className="rounded-md border border-gray-300 px-3 py-2 text-sm bg-white focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-200"
+            >
+              <option value="all">Tous les comptes</option>
+              {accounts.map(account => (
+                <option key={account.id} value={account.id}>{account.name}</option>
+              ))}
+            </select>
+          )}
           <input
             type="month"
             value={selectedMonth}
@@ -262,6 +515,7 @@ export function Timeline() {
           <CardDescription>
             {filteredItems.length} transaction{filteredItems.length > 1 ? 's' : ''} 
             {filterType !== 'all' && ` (${getTypeLabel(filterType as TransactionType)})`}
+            {filterAccount !== 'all' && ` · ${getAccountName(accounts, filterAccount)}`}
             {loading && <Loading size="sm" />}
           </CardDescription>
         </CardHeader>
@@ -305,7 +559,9 @@ export function Timeline() {
                           {getTypeIcon(item.type)}
                         </div>
                         <div>
-                          <div className="font-medium">{item.label}</div>
+                          <div className={`font-medium ${item.sync?.action === 'delete' || item.occurrence?.skipped ? 'line-through text-gray-400' : ''}`}>
+                            {item.label}
+                          </div>
                           <div className="text-sm text-gray-500 flex items-center space-x-2">
                             <span>{getTypeLabel(item.type)}</span>
                             {item.category && (
@@ -314,15 +570,109 @@ export function Timeline() {
                                 <span>{item.category}</span>
                               </>
                             )}
+                            {filterAccount === 'all' && accounts.length > 1 && item.type !== 'transfer' && (
+                              <>
+                                <span>•</span>
+                                <span>{getAccountName(accounts, item.accountId ?? defaultAccountId ?? '')}</span>
+                              </>
+                            )}
                           </div>
                           {item.notes && (
                             <div className="text-sm text-gray-400 mt-1">{item.notes}</div>
                           )}
+                          {item.deferredDebitDateISO && (
+                            <div className="text-xs text-orange-600 mt-1">
+                              Débit différé : prélevé le {formatDate(item.deferredDebitDateISO)} avec le relevé
+                            </div>
+                          )}
+                          {item.statementExpenses && (
+                            <ul className="text-xs text-gray-500 mt-1 space-y-0.5">
+                              {item.statementExpenses.map(expense => (
+                                <li key={expense.id}>
+                                  {formatDate(expense.dateISO)} · {expense.label}
+                                  {expense.category && ` · ${expense.category}`} · {formatCurrency(expense.amountCts)}
+                                </li>
+                              ))}
+                            </ul>
+                          )}
+                          {item.occurrence?.confirmation && (
+                            <div className="text-xs text-green-700 mt-1 flex items-center">
+                              <CheckCircle2 className="h-3 w-3 mr-1" />
+                              {item.type === 'recurring-income' ? 'Reçu' : 'Payé'} le {formatDate(item.occurrence.confirmation.dateISO)}
+                              {item.occurrence.confirmation.transactionId && (() => {
+                                const linked = [...expenses, ...incomes].find(
+                                  transaction => transaction.id === item.occurrence?.confirmation?.transactionId
+                                );
+                                return linked ? `, rapproché de « ${linked.label} »` : '';
+                              })()}
+                            </div>
+                          )}
+                          {item.occurrence?.overdue && !item.occurrence.skipped && (
+                            <div className="text-xs text-red-600 mt-1 flex items-center">
+                              <AlertTriangle className="h-3 w-3 mr-1" />
+                              En retard : {item.type === 'recurring-income' ? 'non reçu' : 'non payé'} à ce jour
+                            </div>
+                          )}
+                          {item.occurrence?.exception && (
+                            <div className="text-xs text-blue-600 mt-1">
+                              {item.occurrence.exception.kind === 'skip' && 'Échéance ignorée ce mois-ci'}
+                              {item.occurrence.exception.kind === 'move' &&
+                                `Déplacée, prévue le ${formatDate(item.occurrence.occurrenceDate)}`}
+                              {item.occurrence.exception.kind === 'override' &&
+                                `Montant exceptionnel, ${formatCurrency(item.occurrence.plannedAmountCts)} habituellement`}
+                            </div>
+                          )}
+                          {item.sync?.status === 'pending' && (
+                            <div className="text-xs text-orange-600 mt-1 flex items-center">
+                              <CloudOff className="h-3 w-3 mr-1" />
+                              {SYNC_LABELS[item.sync.action]}
+                            </div>
+                          )}
+                          {item.sync?.status === 'conflict' && (
+                            <div className="text-xs text-red-600 mt-1 flex items-center space-x-2">
+                              <AlertTriangle className="h-3 w-3" />
+                              <span>Refusé par le serveur : {item.sync.error}</span>
+                              <button
+                                className="underline hover:text-red-800"
+                                onClick={() => retry(item.sync!.entryId)}
+                              >
+                                Réessayer
+                              </button>
+                              <button
+                                className="underline hover:text-red-800"
+                                onClick={() => discard(item.sync!.entryId)}
+                              >
+                                Abandonner
+                              </button>
+                            </div>
+                          )}
                         </div>
                       </div>
-                      <div className={`font-semibold ${getAmountColor(item.type)}`}>
-                        {item.type === 'recurring-income' || item.type === 'other-income' ? '+' : '-'}
-                        {formatCurrency(item.amountCts)}
+                      <div className="flex items-center space-x-2">
+                        <div className={`font-semibold ${item.occurrence?.skipped ? 'line-through text-gray-400' : getAmountColor(item)}`}>
+                          {getAmountSign(item)}
+                          {formatCurrency(item.amountCts)}
+                        </div>
+                        {item.occurrence && !item.occurrence.skipped && (
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            onClick={() => setConfirmedItem(item)}
+                            title={item.type === 'recurring-income' ? 'Marquer comme reçu' : 'Marquer comme payé'}
+                          >
+                            <CheckCircle2 className={`h-4 w-4 ${item.occurrence.confirmation ? 'text-green-600' : ''}`} />
+                          </Button>
+                        )}
+                        {item.occurrence && (
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            onClick={() => setEditedItem(item)}
+                            title="Modifier cette échéance"
+                          >
+                            <CalendarClock className="h-4 w-4" />
+                          </Button>
+                        )}
                       </div>
                     </div>
                   ))}
@@ -332,6 +682,26 @@ export function Timeline() {
           ))
         )}
       </div>
+      
+      <OccurrenceExceptionDialog
+        occurrence={editedItem?.occurrence ?? null}
+        onClose={() => setEditedItem(null)}
+        onSave={handleSaveException}
+      />
+      
+      <OccurrenceConfirmDialog
+        occurrence={confirmedItem?.occurrence ? {
+          label: confirmedItem.label,
+          occurrenceDate: confirmedItem.occurrence.occurrenceDate,
+          dateISO: confirmedItem.date.format('YYYY-MM-DD'),
+          amountCts: confirmedItem.amountCts,
+          confirmation: confirmedItem.occurrence.confirmation,
+          isIncome: confirmedItem.type === 'recurring-income',
+        } : null}
+        transactions={confirmableTransactions}
+        onClose={() => setConfirmedItem(null)}
+        onSave={handleSaveConfirmation}
+      />
     </div>
   );
 }
\ No newline at end of file
@@ -1,479 +1,411 @@
-const API_BASE_URL = import.meta.env.VITE_API_URL || (import.meta.env.DEV ? '/api' : 'https://finora-api-preprod.cyrilmarchive.com/api/v1');
-const AUTH_BASE_URL = import.meta.env.VITE_AUTH_URL || 'https://finora-auth.cyrilmarchive.com';
-
-// Variable pour éviter les appels multiples simultanés au refresh
-let isRefreshing = false;
-let refreshPromise: Promise<void> | null = null;
-
-// Types pour les réponses API
-export interface ApiResponse<T> {
-  data: T;
-  success: boolean;
-  message?: string;
+import { Account, AccountType, AmountRevision, Category, EnvelopeAllocation, EnvelopeMove, Expense, FixedExpense, ForecastScenario, Income, IndexationRule, Loan, MoneyCts, MonthSummary, OccurrenceConfirmation, OccurrenceException, PlannedExtra, Recurrence, RecurringIncome, SavingsGoal, Transfer } from '../types';
+import { AUTH_BASE_URL, createResource, listSchema, request } from './http';
+import { getLogoutUrl, startLogin } from './oidc';
+import {
+  accountSchema,
+  categorySchema,
+  envelopeAllocationSchema,
+  envelopeMoveSchema,
+  expenseSchema,
+  fixedExpenseSchema,
+  forecastResultSchema,
+  forecastScenarioSchema,
+  incomeSchema,
+  loanSchema,
+  monthSummarySchema,
+  recurringIncomeSchema,
+  savingsGoalSchema,
+  transferSchema,
+  userInfoSchema,
+} from './schemas';
+
+export { ApiError, ApiValidationError } from './http';
+
+// Types pour les corps de requête
+export interface CategoryInput {
+  name: string;
+  color: string;
+  order?: number;
+  // `null` retire le budget
+  monthlyBudgetCts?: MoneyCts | null;
+  budgetRollover?: boolean;
 }
 
-export interface ApiError {
-  message: string;
-  status?: number;
+export interface ExpenseInput {
+  date: string;
+  label: string;
+  amountCts: MoneyCts;
+  categoryId: string;
+  notes?: string;
+  accountId?: string;
 }
 
-// Configuration des headers par défaut
-const getHeaders = (): HeadersInit => {
-  return {
-    'Content-Type': 'application/json',
-  };
-};
+export interface IncomeInput {
+  date: string;
+  label: string;
+  amountCts: MoneyCts;
+  notes?: string;
+  accountId?: string;
+}
 
-// Fonction utilitaire pour gérer les erreurs
-const handleResponse = async <T>(response: Response, originalRequest?: () => Promise<Response>): Promise<T> => {
-  // Si c'est une 403, tenter le refresh token
-  if (response.status === 403 && originalRequest) {
-    try {
-      await refreshToken();
-      // Relancer la requête originale après le refresh
-      const newResponse = await originalRequest();
-      return handleResponse(newResponse);
-    } catch (refreshError) {
-      // Si le refresh échoue, rediriger vers login
-      console.error('Refresh token failed:', refreshError);
-      authApi.login();
-      throw new Error('Session expirée, redirection vers la connexion');
-    }
-  }
-  
-  if (!response.ok) {
-    const errorText = await response.text();
-    let errorMessage = `Erreur ${response.status}`;
-    
-    try {
-      const errorJson = JSON.parse(errorText);
-      errorMessage = errorJson.message || errorMessage;
-    } catch {
-      errorMessage = errorText || errorMessage;
-    }
-    
-    throw new Error(errorMessage);
-  }
-  
-  const text = await response.text();
-  if (!text) {
-    return {} as T;
-  }
-  
-  try {
-    const data = JSON.parse(text);
-    return data;
-  } catch (error) {
-    console.error('JSON parsing error:', error, 'Response text:', text);
-    throw new Error('Réponse invalide du serveur');
-  }
-};
+export interface FixedExpenseInput {
+  label: string;
+  amountCts: MoneyCts;
+  amountRevisions?: AmountRevision[];
+  // `null` retire l'indexation
+  indexation?: IndexationRule | null;
+  recurrence: Recurrence;
+  occurrenceExceptions?: OccurrenceException[];
+  occurrenceConfirmations?: OccurrenceConfirmation[];
+  startDate: string;
+  endDate?: string;
+  accountId?: string;
+}
 
-// Fonction pour rafraîchir le token
-const refreshToken = async (): Promise<void> => {
-  // Si un refresh est déjà en cours, attendre qu'il se termine
-  if (isRefreshing && refreshPromise) {
-    return refreshPromise;
-  }
-  
-  isRefreshing = true;
-  refreshPromise = (async () => {
-    try {
-      const response = await fetch(`${AUTH_BASE_URL}/auth/refresh`, {
-        method: 'POST',
-        credentials: 'include', // Important pour envoyer les cookies
-      });
-      
-      if (!response.ok) {
-        throw new Error(`Refresh failed: ${response.status}`);
-      }
-      
-      console.log('Token refreshed successfully');
-    } finally {
-      isRefreshing = false;
-      refreshPromise = null;
-    }
-  })();
-  
-  return refreshPromise;
-};
+export type RecurringIncomeInput = FixedExpenseInput;
 
-// Fonction helper pour créer une requête avec retry automatique
-const createRequestWithRetry = async (url: string, options: RequestInit): Promise<Response> => {
-  const makeRequest = () => fetch(url, options);
-  const response = await makeRequest();
-  
-  // Si c'est une 403, handleResponse va gérer le refresh et retry
-  return response;
-};
+export interface AccountInput {
+  name: string;
+  type: AccountType;
+  cutoffDay?: number;
+  debitDay?: number;
+}
 
-// CATEGORIES API
-export const categoriesApi = {
-  getAll: async () => {
-    const response = await createRequestWithRetry(`${API_BASE_URL}/categories`, {
-      headers: getHeaders(),
-      credentials: 'include',
-    });
-    const originalRequest = () => fetch(`${API_BASE_URL}/categories`, {
-      headers: getHeaders(),
-      credentials: 'include',
-    });
-    return handleResponse(response, originalRequest);
-  },
+export interface TransferInput {
+  dateISO: string;
+  fromAccountId: string;
+  toAccountId: string;
+  amountCts: MoneyCts;
+  label?: string;
+}
 
-  create: async (category: { name: string; color: string }) => {
-    const options = {
-      method: 'POST',
-      headers: getHeaders(),
-      body: JSON.stringify(category),
-      credentials: 'include',
-    };
-    const response = await createRequestWithRetry(`${API_BASE_URL}/categories`, options);
-    const originalRequest = () => fetch(`${API_BASE_URL}/categories`, options);
-    return handleResponse(response, originalRequest);
-  },
+export interface LoanInput {
+  label: string;
+  principalCts: MoneyCts;
+  annualRatePct: number;
+  durationMonths: number;
+  monthlyInsuranceCts: MoneyCts;
+  startDate: string;
+  fixedExpenseId?: string;
+}
 
-  update: async (id: string, updates: { name?: string; color?: string }) => {
-    const options = {
-      method: 'PATCH',
-      headers: getHeaders(),
-      body: JSON.stringify(updates),
-      credentials: 'include',
-    };
-    const response = await createRequestWithRetry(`${API_BASE_URL}/categories/${id}`, options);
-    const originalRequest = () => fetch(`${API_BASE_URL}/categories/${id}`, options);
-    return handleResponse(response, originalRequest);
-  },
+export interface PlannedExtraInput {
+  label: string;
+  amountCts: MoneyCts;
+  dateISO?: string;
+  type: 'expense' | 'income';
+}
 
-  delete: async (id: string) => {
-    const options = {
-      method: 'DELETE',
-      headers: getHeaders(),
-      credentials: 'include',
-    };
-    const response = await createRequestWithRetry(`${API_BASE_URL}/categories/${id}`, options);
-    const originalRequest = () => fetch(`${API_BASE_URL}/categories/${id}`, options);
-    return handleResponse(response, originalRequest);
-  },
-};
+export interface ForecastRequest {
+  month: string;
+  plannedExtras?: PlannedExtraInput[];
+}
+
+export interface ForecastScenarioInput {
+  monthISO: string;
+  name: string;
+  extras: PlannedExtra[];
+}
+
+export interface EnvelopeAllocationInput {
+  monthISO: string;
+  categoryId: string;
+  amountCts: MoneyCts;
+}
+
+export interface EnvelopeMoveInput {
+  monthISO: string;
+  dateISO: string;
+  fromCategoryId: string;
+  toCategoryId: string;
+  amountCts: MoneyCts;
+  note?: string;
+}
+
+export interface SavingsGoalInput {
+  name: string;
+  targetCts: MoneyCts;
+  targetDateISO: string;
+  currentCts: MoneyCts;
+}
 
 // EXPENSES API
-export const expensesApi = {
-  getByMonth: async (month: string) => {
-    const response = await createRequestWithRetry(`${API_BASE_URL}/expenses?month=${month}`, {
-      headers: getHeaders(),
-      credentials: 'include',
-    });
-    const originalRequest = () => fetch(`${API_BASE_URL}/expenses?month=${month}`, {
-      headers: getHeaders(),
-      credentials: 'include',
-    });
-    return handleResponse(response, originalRequest);
-  },
+const expensesResource = createResource<Expense, ExpenseInput>('/expenses', expenseSchema);
 
-  create: async (expense: {
-    date: string;
-    label: string;
-    amountCts: number;
-    categoryId: string;
-    notes?: string;
-  }) => {
-    const options = {
-      method: 'POST',
-      headers: getHeaders(),
-      body: JSON.stringify(expense),
-      credentials: 'include',
-    };
-    const response = await createRequestWithRetry(`${API_BASE_URL}/expenses`, options);
-    const originalRequest = () => fetch(`${API_BASE_URL}/expenses`, options);
-    return handleResponse(response, originalRequest);
-  },
+export const expensesApi = {
+  ...expensesResource,
+  getByMonth: (month: string) => expensesResource.getAll({ month }),
+};
 
-  update: async (id: string, updates: {
-    date?: string;
-    label?: string;
-    amountCts?: number;
-    categoryId?: string;
-    notes?: string;
-  }) => {
-    const options = {
-      method: 'PATCH',
-      headers: getHeaders(),
-      body: JSON.stringify(updates),
-      credentials: 'include',
-    };
-    const response = await createRequestWithRetry(`${API_BASE_URL}/expenses/${id}`, options);
-    const originalRequest = () => fetch(`${API_BASE_URL}/expenses/${id}`, options);
-    return handleResponse(response, originalRequest);
-  },
+// CATEGORIES API
+const categoriesResource = createResource<Category, CategoryInput>('/categories', categorySchema);
 
-  delete: async (id: string) => {
-    const options = {
-      method: 'DELETE',
-      headers: getHeaders(),
-      credentials: 'include',
-    };
-    const response = await createRequestWithRetry(`${API_BASE_URL}/expenses/${id}`, options);
-    const originalRequest = () => fetch(`${API_BASE_URL}/expenses/${id}`, options);
-    return handleResponse(response, originalRequest);
+export const categoriesApi = {
+  ...categoriesResource,
+
+  /**
+   * Rattache à `toId` tout ce qui référence `fromId` : dépenses, allocations et
+   * virements d'enveloppes. L'API ne filtre que par mois : on parcourt les mois
+   * de l'historique, puis on applique toutes les modifications. Échoue si l'une
+   * d'elles est refusée (la catégorie ne doit alors pas être supprimée) ; relancer
+   * reprend les éléments restants. Renvoie le nombre de dépenses déplacées.
+   */
+  reassign: async (fromId: string, toId: string): Promise<number> => {
+    const history = await getHistoryMonths();
+    const changes = await Promise.all(
+      history.months.map((month) =>
+        getCategoryReassignments(month, fromId, toId, history.has(month, (summary) => summary.variableExpensesTotalCts))
+      )
+    );
+    await runReassignments(changes.flatMap((change) => change.operations), 'la catégorie est conservée');
+    return changes.reduce((sum, change) => sum + change.expenses, 0);
   },
 };
 
-// INCOMES API
-export const incomesApi = {
-  getByMonth: async (month: string) => {
-    const response = await createRequestWithRetry(`${API_BASE_URL}/incomes?month=${month}`, {
-      headers: getHeaders(),
-      credentials: 'include',
-    });
-    const originalRequest = () => fetch(`${API_BASE_URL}/incomes?month=${month}`, {
-      headers: getHeaders(),
-      credentials: 'include',
-    });
-    return handleResponse(response, originalRequest);
-  },
+// Historique parcouru lors d'une réaffectation (catégorie, compte)
+const REASSIGN_HISTORY_MONTHS = 120;
+
+type Reassignment = () => Promise<unknown>;
+
+const toMonthISO = (date: Date) => `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+
+/**
+ * Mois à parcourir : tous ceux depuis le premier mois actif de l'historique
+ * jusqu'au mois suivant (éléments déjà préparés). Les enveloppes et virements
+ * n'apparaissent pas dans les résumés : aucun mois n'est sauté pour eux.
+ * `has` indique si un mois peut porter un type d'élément compté dans son résumé
+ * (toujours vrai pour un mois sans résumé).
+ */
+const getHistoryMonths = async () => {
+  const { items } = await summaryApi.getLastMonths(REASSIGN_HISTORY_MONTHS);
+  const summaries = new Map(items.map((summary) => [summary.monthISO, summary]));
+  const firstActive = items
+    .filter(
+      (summary) =>
+        summary.fixedExpensesTotalCts !== 0 ||
+        summary.recurringIncomesTotalCts !== 0 ||
+        summary.variableExpensesTotalCts !== 0 ||
+        summary.otherIncomesTotalCts !== 0
+    )
+    .map((summary) => summary.monthISO)
+    .sort()[0];
+
+  const now = new Date();
+  const [year, month] = (firstActive ?? toMonthISO(now)).split('-').map(Number);
+  const end = new Date(now.getFullYear(), now.getMonth() + 1, 1);
+  const months: string[] = [];
+  for (let date = new Date(year, month - 1, 1); date <= end; date = new Date(date.getFullYear(), date.getMonth() + 1, 1)) {
+    months.push(toMonthISO(date));
+  }
 
-  create: async (income: {
-    date: string;
-    label: string;
-    amountCts: number;
-    notes?: string;
-  }) => {
-    const options = {
-      method: 'POST',
-      headers: getHeaders(),
-      credentials: 'include',
-      body: JSON.stringify(income),
-    };
-    const response = await createRequestWithRetry(`${API_BASE_URL}/incomes`, options);
-    const originalRequest = () => fetch(`${API_BASE_URL}/incomes`, options);
-    return handleResponse(response, originalRequest);
-  },
+  return {
+    months,
+    has: (monthISO: string, total: (summary: MonthSummary) => number) => {
+      const summary = summaries.get(monthISO);
+      return !summary || total(summary) !== 0;
+    },
+  };
+};
 
-  update: async (id: string, updates: {
-    date?: string;
-    label?: string;
-    amountCts?: number;
-    notes?: string;
-  }) => {
-    const options = {
-      method: 'PATCH',
-      headers: getHeaders(),
-      body: JSON.stringify(updates),
-      credentials: 'include',
-    };
-    const response = await createRequestWithRetry(`${API_BASE_URL}/incomes/${id}`, options);
-    const originalRequest = () => fetch(`${API_BASE_URL}/incomes/${id}`, options);
-    return handleResponse(response, originalRequest);
-  },
+type HistoryMonths = Awaited<ReturnType<typeof getHistoryMonths>>;
 
-  delete: async (id: string) => {
-    const options = {
-      method: 'DELETE',
-      headers: getHeaders(),
-      credentials: 'include',
-    };
-    const response = await createRequestWithRetry(`${API_BASE_URL}/incomes/${id}`, options);
-    const originalRequest = () => fetch(`${API_BASE_URL}/incomes/${id}`, options);
-    return handleResponse(response, originalRequest);
-  },
+const NO_ITEMS = { items: [] };
+
+// Applique toutes les modifications ; échoue si l'une d'elles est refusée (`outcome` décrit l'état laissé)
+const runReassignments = async (operations: Reassignment[], outcome: string) => {
+  const results = await Promise.allSettled(operations.map((operation) => operation()));
+  const failed = results.filter((result) => result.status === 'rejected').length;
+  if (failed > 0) {
+    throw new Error(
+      `Réaffectation incomplète (${failed}/${operations.length} éléments refusés) : ${outcome}, relancez l'opération`
+    );
+  }
 };
 
-// FIXED EXPENSES API
-export const fixedExpensesApi = {
-  getAll: async () => {
-    const response = await createRequestWithRetry(`${API_BASE_URL}/fixed-expenses`, {
-      headers: getHeaders(),
-      credentials: 'include',
-    });
-    const originalRequest = () => fetch(`${API_BASE_URL}/fixed-expenses`, {
-      headers: getHeaders(),
-      credentials: 'include',
+// Modifications à appliquer sur un mois pour passer de la catégorie `fromId` à `toId`
+const getCategoryReassignments = async (month: string, fromId: string, toId: string, hasExpenses: boolean) => {
+  const [expenses, allocations, moves] = await Promise.all([
+    hasExpenses ? expensesApi.getByMonth(month) : NO_ITEMS,
+    envelopesApi.allocations.getByMonth(month),
+    envelopesApi.moves.getByMonth(month),
+  ]);
+  const operations: Reassignment[] = [];
+
+  const movedExpenses = expenses.items.filter((expense) => expense.categoryId === fromId);
+  movedExpenses.forEach((expense) => operations.push(() => expensesApi.update(expense.id, { categoryId: toId })));
+
+  // L'allocation de la catégorie supprimée s'ajoute à celle de la cible
+  const targetAllocation = allocations.items.find((allocation) => allocation.categoryId === toId);
+  allocations.items
+    .filter((allocation) => allocation.categoryId === fromId)
+    .forEach((allocation) =>
+      operations.push(
+        targetAllocation
+          ? async () => {
+              await allocationsResource.update(targetAllocation.id, {
+                amountCts: targetAllocation.amountCts + allocation.amountCts,
+              });
+              await allocationsResource.delete(allocation.id);
+            }
+          : () => allocationsResource.update(allocation.id, { categoryId: toId })
+      )
+    );
+
+  // Un virement entre les deux catégories fusionnées n'a plus d'objet
+  moves.items
+    .filter((move) => move.fromCategoryId === fromId || move.toCategoryId === fromId)
+    .forEach((move) => {
+      const fromCategoryId = move.fromCategoryId === fromId ? toId : move.fromCategoryId;
+      const toCategoryId = move.toCategoryId === fromId ? toId : move.toCategoryId;
+      operations.push(
+        fromCategoryId === toCategoryId
+          ? () => movesResource.delete(move.id)
+          : () => movesResource.update(move.id, { fromCategoryId, toCategoryId })
+      );
     });
-    return handleResponse(response, originalRequest);
-  },
 
-  create: async (fixedExpense: {
-    label: string;
-    amountCts: number;
-    dayOfMonth: number;
-    startDate: string;
-    endDate?: string;
-  }) => {
-    const options = {
-      method: 'POST',
-      headers: getHeaders(),
-      body: JSON.stringify(fixedExpense),
-      credentials: 'include',
-    };
-    const response = await createRequestWithRetry(`${API_BASE_URL}/fixed-expenses`, options);
-    const originalRequest = () => fetch(`${API_BASE_URL}/fixed-expenses`, options);
-    return handleResponse(response, originalRequest);
-  },
+  return { expenses: movedExpenses.length, operations };
+};
 
-  update: async (id: string, updates: {
-    label?: string;
-    amountCts?: number;
-    dayOfMonth?: number;
-    startDate?: string;
-    endDate?: string;
-  }) => {
-    const options = {
-      method: 'PATCH',
-      headers: getHeaders(),
-      body: JSON.stringify(updates),
-      credentials: 'include',
-    };
-    const response = await createRequestWithRetry(`${API_BASE_URL}/fixed-expenses/${id}`, options);
-    const originalRequest = () => fetch(`${API_BASE_URL}/fixed-expenses/${id}`, options);
-    return handleResponse(response, originalRequest);
-  },
+// INCOMES API
+const incomesResource = createResource<Income, IncomeInput>('/incomes', incomeSchema);
 
-  delete: async (id: string) => {
-    const options = {
-      method: 'DELETE',
-      headers: getHeaders(),
-      credentials: 'include',
-    };
-    const response = await createRequestWithRetry(`${API_BASE_URL}/fixed-expenses/${id}`, options);
-    const originalRequest = () => fetch(`${API_BASE_URL}/fixed-expenses/${id}`, options);
-    return handleResponse(response, originalRequest);
-  },
+export const incomesApi = {
+  ...incomesResource,
+  getByMonth: (month: string) => incomesResource.getAll({ month }),
 };
 
+// FIXED EXPENSES API
+export const fixedExpensesApi = createResource<FixedExpense, FixedExpenseInput>('/fixed-expenses', fixedExpenseSchema);
+
 // RECURRING INCOMES API
-export const recurringIncomesApi = {
-  getAll: async () => {
-    const response = await createRequestWithRetry(`${API_BASE_URL}/recurring-incomes`, {
-      headers: getHeaders(),
-      credentials: 'include',
-    });
-    const originalRequest = () => fetch(`${API_BASE_URL}/recurring-incomes`, {
-      headers: getHeaders(),
-      credentials: 'include',
-    });
-    return handleResponse(response, originalRequest);
+export const recurringIncomesApi = createResource<RecurringIncome, RecurringIncomeInput>('/recurring-incomes', recurringIncomeSchema);
+
+// ACCOUNTS API
+const accountsResource = createResource<Account, AccountInput>('/accounts', accountSchema);
+
+export const accountsApi = {
+  ...accountsResource,
+
+  /**
+   * Rattache à `toId` tout ce qui référence `fromId` : échéanciers, puis dépenses,
+   * recettes et virements mois par mois. Mêmes garanties que la réaffectation
+   * d'une catégorie. Renvoie le nombre d'éléments déplacés.
+   */
+  reassign: async (fromId: string, toId: string): Promise<number> => {
+    const history = await getHistoryMonths();
+    const [fixedExpenses, recurringIncomes, changes] = await Promise.all([
+      fixedExpensesApi.getAll(),
+      recurringIncomesApi.getAll(),
+      Promise.all(history.months.map((month) => getAccountReassignments(month, fromId, toId, history))),
+    ]);
+    const operations: Reassignment[] = [
+      ...fixedExpenses.items
+        .filter((item) => item.accountId === fromId)
+        .map((item) => () => fixedExpensesApi.update(item.id, { accountId: toId })),
+      ...recurringIncomes.items
+        .filter((item) => item.accountId === fromId)
+        .map((item) => () => recurringIncomesApi.update(item.id, { accountId: toId })),
+      ...changes.flat(),
+    ];
+    await runReassignments(operations, 'le compte est conservé');
+    return operations.length;
   },
+};
 
-  create: async (recurringIncome: {
-    label: string;
-    amountCts: number;
-    dayOfMonth: number;
-    startDate: string;
-    endDate?: string;
-  }) => {
-    const options = {
-      method: 'POST',
-      headers: getHeaders(),
-      body: JSON.stringify(recurringIncome),
-      credentials: 'include',
-    };
-    const response = await createRequestWithRetry(`${API_BASE_URL}/recurring-incomes`, options);
-    const originalRequest = () => fetch(`${API_BASE_URL}/recurring-incomes`, options);
-    return handleResponse(response, originalRequest);
-  },
+// Modifications à appliquer sur un mois pour passer du compte `fromId` à `toId`
+const getAccountReassignments = async (
+  month: string,
+  fromId: string,
+  toId: string,
+  history: HistoryMonths
+): Promise<Reassignment[]> => {
+  const [expenses, incomes, transfers] = await Promise.all([
+    history.has(month, (summary) => summary.variableExpensesTotalCts) ? expensesApi.getByMonth(month) : NO_ITEMS,
+    history.has(month, (summary) => summary.otherIncomesTotalCts) ? incomesApi.getByMonth(month) : NO_ITEMS,
+    transfersApi.getByMonth(month),
+  ]);
+
+  return [
+    ...expenses.items
+      .filter((expense) => expense.accountId === fromId)
+      .map((expense) => () => expensesApi.update(expense.id, { accountId: toId })),
+    ...incomes.items
+      .filter((income) => income.accountId === fromId)
+      .map((income) => () => incomesApi.update(income.id, { accountId: toId })),
+    // Un virement entre les deux comptes fusionnés n'a plus d'objet
+    ...transfers.items
+      .filter((transfer) => transfer.fromAccountId === fromId || transfer.toAccountId === fromId)
+      .map((transfer) => {
+        const fromAccountId = transfer.fromAccountId === fromId ? toId : transfer.fromAccountId;
+        const toAccountId = transfer.toAccountId === fromId ? toId : transfer.toAccountId;
+        return fromAccountId === toAccountId
+          ? () => transfersApi.delete(transfer.id)
+          : () => transfersApi.update(transfer.id, { fromAccountId, toAccountId });
+      }),
+  ];
+};
 
-  update: async (id: string, updates: {
-    label?: string;
-    amountCts?: number;
-    dayOfMonth?: number;
-    startDate?: string;
-    endDate?: string;
-  }) => {
-    const options = {
-      method: 'PATCH',
-      headers: getHeaders(),
-      body: JSON.stringify(updates),
-      credentials: 'include',
-    };
-    const response = await createRequestWithRetry(`${API_BASE_URL}/recurring-incomes/${id}`, options);
-    const originalRequest = () => fetch(`${API_BASE_URL}/recurring-incomes/${id}`, options);
-    return handleResponse(response, originalRequest);
-  },
+const transfersResource = createResource<Transfer, TransferInput>('/transfers', transferSchema);
 
-  delete: async (id: string) => {
-    const options = {
-      method: 'DELETE',
-      headers: getHeaders(),
-      credentials: 'include',
-    };
-    const response = await createRequestWithRetry(`${API_BASE_URL}/recurring-incomes/${id}`, options);
-    const originalRequest = () => fetch(`${API_BASE_URL}/recurring-incomes/${id}`, options);
-    return handleResponse(response, originalRequest);
-  },
+export const transfersApi = {
+  ...transfersResource,
+  getByMonth: (month: string) => transfersResource.getAll({ month }),
 };
 
+// LOANS API
+export const loansApi = createResource<Loan, LoanInput>('/loans', loanSchema);
+
 // FORECAST API
+const scenariosResource = createResource<ForecastScenario, ForecastScenarioInput>('/forecast/scenarios', forecastScenarioSchema);
+
 export const forecastApi = {
-  calculate: async (data: {
-    month: string;
-    plannedExtras?: Array<{
-      label: string;
-      amountCts: number;
-      dateISO?: string;
-      type: 'expense' | 'income';
-    }>;
-  }) => {
-    const options = {
-      method: 'POST',
-      headers: getHeaders(),
-      body: JSON.stringify(data),
-      credentials: 'include',
-    };
-    const response = await createRequestWithRetry(`${API_BASE_URL}/forecast/calc`, options);
-    const originalRequest = () => fetch(`${API_BASE_URL}/forecast/calc`, options);
-    return handleResponse(response, originalRequest);
+  calculate: (data: ForecastRequest) =>
+    request('/forecast/calc', { method: 'POST', body: data, schema: forecastResultSchema }),
+
+  // Scénarios enregistrés, rangés par mois
+  scenarios: {
+    ...scenariosResource,
+    getByMonth: (month: string) => scenariosResource.getAll({ month }),
+  },
+};
+
+// ENVELOPES API
+const allocationsResource = createResource<EnvelopeAllocation, EnvelopeAllocationInput>('/envelopes/allocations', envelopeAllocationSchema);
+const movesResource = createResource<EnvelopeMove, EnvelopeMoveInput>('/envelopes/moves', envelopeMoveSchema);
+
+export const envelopesApi = {
+  allocations: {
+    ...allocationsResource,
+    getByMonth: (month: string) => allocationsResource.getAll({ month }),
+  },
+  moves: {
+    ...movesResource,
+    getByMonth: (month: string) => movesResource.getAll({ month }),
   },
 };
 
+// SAVINGS GOALS API
+export const savingsGoalsApi = createResource<SavingsGoal, SavingsGoalInput>('/savings-goals', savingsGoalSchema);
+
 // SUMMARY API
 export const summaryApi = {
-  getByMonth: async (month: string) => {
-    const response = await createRequestWithRetry(`${API_BASE_URL}/summary?month=${month}`, {
-      headers: getHeaders(),
-      credentials: 'include',
-    });
-    const originalRequest = () => fetch(`${API_BASE_URL}/summary?month=${month}`, {
-      headers: getHeaders(),
-      credentials: 'include',
-    });
-    return handleResponse(response, originalRequest);
-  },
+  getByMonth: (month: string) =>
+    request('/summary', { query: { month }, schema: monthSummarySchema }),
 
-  getLastMonths: async (months: number) => {
-    const response = await createRequestWithRetry(`${API_BASE_URL}/summary/last-months?months=${months}`, {
-      headers: getHeaders(),
-      credentials: 'include',
-    });
-    const originalRequest = () => fetch(`${API_BASE_URL}/summary/last-months?months=${months}`, {
-      headers: getHeaders(),
-      credentials: 'include',
-    });
-    return handleResponse(response, originalRequest);
-  },
+  getLastMonths: (months: number) =>
+    request('/summary/last-months', { query: { months }, schema: listSchema(monthSummarySchema) }),
 };
 
 // AUTH API
 export const authApi = {
-  login: async () => {
-    window.location.href = `${AUTH_BASE_URL}/auth/login`;
-  },
+  // `returnTo` : route à rouvrir après connexion
+  login: (returnTo?: string) => startLogin(returnTo),
 
-  getUserInfo: async () => {
-    const response = await createRequestWithRetry(`${AUTH_BASE_URL}/auth/me`, {
-      method: 'GET',
-      headers: getHeaders(),
-      credentials: 'include',
-    });
-    const originalRequest = () => fetch(`${AUTH_BASE_URL}/auth/me`, {
-      method: 'GET',
-      headers: getHeaders(),
-      credentials: 'include',
-    });
-    return handleResponse(response, originalRequest);
-  },
+  getUserInfo: () => request('/auth/me', { baseUrl: AUTH_BASE_URL, schema: userInfoSchema }),
 
-  signout: async () => {
-    window.location.href = `${AUTH_BASE_URL}/auth/logout`;
+  signout: async (idToken?: string | null) => {
+    const logoutUrl = await getLogoutUrl(idToken).catch(() => null);
+    window.location.href = logoutUrl ?? `${AUTH_BASE_URL}/auth/logout`;
   },
-};
\ No newline at end of file
+};
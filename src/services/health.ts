@@ -0,0 +1,39 @@
+import { API_BASE_URL, ApiError } from './http';
+
+const BACKOFF_BASE_MS = 1000;
+const BACKOFF_MAX_MS = 30000;
+
+/**
+ * Délai avant la tentative `attempt` (0, 1, 2...) : 1 s, 2 s, 4 s... plafonné à 30 s,
+ * avec un peu d'aléa pour que plusieurs onglets ne relancent pas en même temps.
+ */
+export const getBackoffDelay = (attempt: number): number => {
+  const delay = Math.min(BACKOFF_BASE_MS * 2 ** attempt, BACKOFF_MAX_MS);
+  return Math.round(delay * (0.8 + Math.random() * 0.4));
+};
+
+/**
+ * Vrai si l'erreur traduit un problème de connectivité (serveur injoignable
+ * ou indisponible) plutôt qu'une requête refusée.
+ */
+export const isConnectivityError = (error: unknown): boolean => {
+  if (error instanceof ApiError) {
+    return error.status === 0 || error.status >= 500;
+  }
+  return error instanceof TypeError;
+};
+
+/**
+ * Sonde l'API : elle est en ligne si elle répond sans erreur serveur (une 5xx
+ * compte comme une panne, comme dans `isConnectivityError`).
+ * Appel `fetch` direct, sans jeton ni renouvellement de session : la sonde tourne
+ * aussi sur l'écran de connexion et ne doit jamais déclencher de redirection.
+ */
+export const pingApi = async (): Promise<boolean> => {
+  try {
+    const response = await fetch(`${API_BASE_URL}/health`, { cache: 'no-store' });
+    return response.status < 500;
+  } catch {
+    return false;
+  }
+};
@@ -0,0 +1,276 @@
+import { z } from 'zod';
+import { startLogin } from './oidc';
+
+export const API_BASE_URL = import.meta.env.VITE_API_URL || (import.meta.env.DEV ? '/api' : 'https://finora-api-preprod.cyrilmarchive.com/api/v1');
+export const AUTH_BASE_URL = import.meta.env.VITE_AUTH_URL || 'https://finora-auth.cyrilmarchive.com';
+
+// Variable pour éviter les appels multiples simultanés au refresh
+let refreshPromise: Promise<void> | null = null;
+
+/**
+ * Erreur renvoyée par toute requête HTTP en échec.
+ * `status` vaut 0 quand la requête n'a pas pu atteindre le serveur.
+ */
+export class ApiError extends Error {
+  readonly status: number;
+  readonly code?: string;
+  readonly body?: unknown;
+
+  constructor(message: string, options: { status: number; code?: string; body?: unknown }) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = options.status;
+    this.code = options.code;
+    this.body = options.body;
+  }
+}
+
+/**
+ * Réponse reçue mais non conforme au schéma attendu.
+ * `path` désigne le premier champ fautif (ex. `items.3.amountCts`).
+ */
+export class ApiValidationError extends ApiError {
+  readonly path: string;
+  readonly issues: z.core.$ZodIssue[];
+
+  constructor(url: string, zodError: z.ZodError, body: unknown) {
+    const [firstIssue] = zodError.issues;
+    const path = firstIssue?.path.join('.') || '(racine)';
+    super(`Réponse invalide du serveur : ${path} (${firstIssue?.message ?? 'format inattendu'})`, {
+      status: 200,
+      code: 'INVALID_PAYLOAD',
+      body,
+    });
+    this.name = 'ApiValidationError';
+    this.path = path;
+    this.issues = zodError.issues;
+    console.error(`Invalid payload from ${url}:`, zodError.issues);
+  }
+}
+
+export type HttpMethod = 'GET' | 'POST' | 'PATCH' | 'DELETE';
+
+export type QueryParams = Record<string, string | number | undefined>;
+
+export interface RequestOptions<TResponse, TBody> {
+  method?: HttpMethod;
+  query?: QueryParams;
+  body?: TBody;
+  // URL de base, l'API budget par défaut
+  baseUrl?: string;
+  // Schéma de validation et de conversion de la réponse
+  schema?: z.ZodType<TResponse>;
+}
+
+// Réponse standard des routes de liste
+export interface ListResponse<T> {
+  items: T[];
+}
+
+// `items` absent équivaut à une liste vide
+export const listSchema = <T>(itemSchema: z.ZodType<T>): z.ZodType<ListResponse<T>> =>
+  z.object({
+    items: z.array(itemSchema).default([]),
+  });
+
+/**
+ * Branchements de la session sur le client HTTP, fournis par le gestionnaire
+ * de session : jeton courant, renouvellement, et réaction à une session perdue.
+ */
+export interface SessionHandlers {
+  getAccessToken: () => string | null;
+  // Renouvelle la session ; rejette si elle ne peut pas être prolongée
+  refresh: () => Promise<void>;
+  // Appelé quand une requête échoue faute de session valide
+  onExpired: () => void;
+}
+
+// Configuration des headers par défaut
+const getHeaders = (): HeadersInit => {
+  const accessToken = session.getAccessToken();
+  return {
+    'Content-Type': 'application/json',
+    ...(accessToken && { Authorization: `Bearer ${accessToken}` }),
+  };
+};
+
+const buildUrl = (baseUrl: string, path: string, query?: QueryParams): string => {
+  const params = new URLSearchParams();
+  Object.entries(query ?? {}).forEach(([key, value]) => {
+    if (value !== undefined) {
+      params.append(key, String(value));
+    }
+  });
+  const search = params.toString();
+  return `${baseUrl}${path}${search ? `?${search}` : ''}`;
+};
+
+// Relance la connexion OIDC en revenant ensuite sur la page courante
+export const redirectToLogin = () => {
+  startLogin(`${window.location.pathname}${window.location.search}`).catch((error) => {
+    console.error('Unable to start login:', error);
+    window.location.assign('/auth/login');
+  });
+};
+
+// Renouvelle la session portée par les cookies du serveur d'authentification
+export const refreshCookieSession = async (): Promise<void> => {
+  const response = await fetch(`${AUTH_BASE_URL}/auth/refresh`, {
+    method: 'POST',
+    credentials: 'include', // Important pour envoyer les cookies
+  });
+
+  if (!response.ok) {
+    throw new ApiError(`Refresh failed: ${response.status}`, { status: response.status });
+  }
+};
+
+let session: SessionHandlers = {
+  getAccessToken: () => null,
+  refresh: refreshCookieSession,
+  onExpired: redirectToLogin,
+};
+
+export const configureSession = (handlers: Partial<SessionHandlers>) => {
+  session = { ...session, ...handlers };
+};
+
+// Fonction pour rafraîchir le token
+export const refreshToken = async (): Promise<void> => {
+  // Si un refresh est déjà en cours, attendre qu'il se termine
+  if (refreshPromise) {
+    return refreshPromise;
+  }
+
+  refreshPromise = session.refresh().finally(() => {
+    refreshPromise = null;
+  });
+
+  return refreshPromise;
+};
+
+const parseBody = (text: string): unknown => {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+};
+
+// Transforme une réponse en erreur structurée
+const toApiError = async (response: Response): Promise<ApiError> => {
+  const text = await response.text();
+  const body = text ? parseBody(text) : undefined;
+  let message = `Erreur ${response.status}`;
+  let code: string | undefined;
+
+  if (body && typeof body === 'object') {
+    const { message: bodyMessage, code: bodyCode, error } = body as Record<string, unknown>;
+    if (typeof bodyMessage === 'string') message = bodyMessage;
+    if (typeof bodyCode === 'string') code = bodyCode;
+    else if (typeof error === 'string') code = error;
+  } else if (typeof body === 'string') {
+    message = body;
+  }
+
+  return new ApiError(message, { status: response.status, code, body });
+};
+
+const readJson = async <T>(response: Response): Promise<T> => {
+  const text = await response.text();
+  if (!text) {
+    return undefined as T;
+  }
+
+  try {
+    return JSON.parse(text) as T;
+  } catch (error) {
+    console.error('JSON parsing error:', error, 'Response text:', text);
+    throw new ApiError('Réponse invalide du serveur', {
+      status: response.status,
+      code: 'INVALID_JSON',
+      body: text,
+    });
+  }
+};
+
+/**
+ * Point d'entrée unique des appels HTTP : sérialise le corps, envoie les cookies,
+ * tente un refresh du token sur 403 puis rejoue la requête une seule fois.
+ * Si un schéma est fourni, la réponse est validée et convertie avant d'être renvoyée.
+ */
+export const request = async <TResponse, TBody = undefined>(
+  path: string,
+  { method = 'GET', query, body, baseUrl = API_BASE_URL, schema }: RequestOptions<TResponse, TBody> = {}
+): Promise<TResponse> => {
+  const url = buildUrl(baseUrl, path, query);
+  const send = async () => {
+    try {
+      return await fetch(url, {
+        method,
+        headers: getHeaders(),
+        body: body === undefined ? undefined : JSON.stringify(body),
+        credentials: 'include',
+      });
+    } catch (error) {
+      throw new ApiError('Serveur injoignable', { status: 0, code: 'NETWORK_ERROR', body: error });
+    }
+  };
+
+  let response = await send();
+
+  // Si c'est une 403, tenter le refresh token
+  if (response.status === 403) {
+    try {
+      await refreshToken();
+    } catch (refreshError) {
+      // Si le refresh échoue, le gestionnaire de session prend le relais
+      console.error('Refresh token failed:', refreshError);
+      session.onExpired();
+      throw new ApiError('Session expirée', {
+        status: 401,
+        code: 'SESSION_EXPIRED',
+      });
+    }
+    // Relancer la requête originale après le refresh
+    response = await send();
+  }
+
+  if (!response.ok) {
+    throw await toApiError(response);
+  }
+
+  const data = await readJson<unknown>(response);
+  if (!schema) {
+    return data as TResponse;
+  }
+
+  const result = schema.safeParse(data);
+  if (!result.success) {
+    throw new ApiValidationError(url, result.error, data);
+  }
+  return result.data;
+};
+
+/**
+ * Fabrique les opérations CRUD standard d'une ressource REST
+ * (`GET /path`, `POST /path`, `PATCH /path/:id`, `DELETE /path/:id`).
+ * Chaque document renvoyé passe par `schema`, qui le convertit en type applicatif.
+ */
+export const createResource = <TItem, TCreate, TUpdate = Partial<TCreate>>(
+  path: string,
+  schema: z.ZodType<TItem>
+) => {
+  const itemsSchema = listSchema(schema);
+
+  return {
+    getAll: (query?: QueryParams) => request(path, { query, schema: itemsSchema }),
+
+    create: (data: TCreate) => request(path, { method: 'POST', body: data, schema }),
+
+    update: (id: string, updates: TUpdate) =>
+      request(`${path}/${id}`, { method: 'PATCH', body: updates, schema }),
+
+    delete: (id: string) => request<void>(`${path}/${id}`, { method: 'DELETE' }),
+  };
+};
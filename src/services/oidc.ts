@@ -0,0 +1,212 @@
+import { z } from 'zod';
+
+/**
+ * Connexion OpenID Connect : flux "authorization code" avec PKCE,
+ * contre l'émetteur configuré par `VITE_OIDC_ISSUER`.
+ */
+export const OIDC_CONFIG = {
+  issuer: (import.meta.env.VITE_OIDC_ISSUER || import.meta.env.VITE_AUTH_URL || 'https://finora-auth.cyrilmarchive.com').replace(/\/$/, ''),
+  clientId: import.meta.env.VITE_OIDC_CLIENT_ID as string | undefined,
+  scope: import.meta.env.VITE_OIDC_SCOPE || 'openid email profile offline_access',
+  redirectUri: import.meta.env.VITE_OIDC_REDIRECT_URI || `${window.location.origin}/auth/callback`,
+};
+
+// Demande de connexion en cours, conservée le temps de l'aller-retour chez l'émetteur
+const TRANSACTION_KEY = 'oidc-transaction';
+
+// Page affichée après connexion quand aucune route n'a été demandée
+export const DEFAULT_RETURN_TO = '/';
+
+/**
+ * Échec de la connexion. `code` reprend le paramètre `error` du callback OIDC
+ * (`access_denied`, `login_required`...) ou un code propre à l'application.
+ */
+export class OidcError extends Error {
+  readonly code: string;
+
+  constructor(code: string, description?: string) {
+    super(description || code);
+    this.name = 'OidcError';
+    this.code = code;
+  }
+}
+
+export interface AuthTokens {
+  accessToken: string;
+  refreshToken?: string;
+  idToken?: string;
+  // Horodatage (ms) d'expiration du jeton d'accès
+  expiresAt?: number;
+}
+
+const discoverySchema = z.object({
+  authorization_endpoint: z.string(),
+  token_endpoint: z.string(),
+  end_session_endpoint: z.string().optional(),
+});
+
+export type OidcDiscovery = z.infer<typeof discoverySchema>;
+
+const tokenResponseSchema = z
+  .object({
+    access_token: z.string(),
+    refresh_token: z.string().optional(),
+    id_token: z.string().optional(),
+    expires_in: z.number().optional(),
+  })
+  .transform(
+    (dto): AuthTokens => ({
+      accessToken: dto.access_token,
+      refreshToken: dto.refresh_token,
+      idToken: dto.id_token,
+      expiresAt: dto.expires_in !== undefined ? Date.now() + dto.expires_in * 1000 : undefined,
+    })
+  );
+
+const transactionSchema = z.object({
+  state: z.string(),
+  codeVerifier: z.string(),
+  returnTo: z.string(),
+});
+
+type OidcTransaction = z.infer<typeof transactionSchema>;
+
+let discoveryPromise: Promise<OidcDiscovery> | null = null;
+
+export const discover = (): Promise<OidcDiscovery> => {
+  if (!discoveryPromise) {
+    discoveryPromise = (async () => {
+      const response = await fetch(`${OIDC_CONFIG.issuer}/.well-known/openid-configuration`);
+      if (!response.ok) {
+        throw new OidcError('discovery_failed', "Le fournisseur d'identité est injoignable");
+      }
+      return discoverySchema.parse(await response.json());
+    })().catch((error) => {
+      // Ne pas garder un échec en cache : la prochaine tentative relancera la découverte
+      discoveryPromise = null;
+      throw error;
+    });
+  }
+  return discoveryPromise;
+};
+
+const base64Url = (bytes: Uint8Array) =>
+  btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+
+const randomString = () => base64Url(crypto.getRandomValues(new Uint8Array(32)));
+
+const codeChallenge = async (verifier: string) =>
+  base64Url(new Uint8Array(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(verifier))));
+
+const getClientId = () => {
+  if (!OIDC_CONFIG.clientId) {
+    throw new OidcError('configuration', 'VITE_OIDC_CLIENT_ID est manquant');
+  }
+  return OIDC_CONFIG.clientId;
+};
+
+// N'accepte que les chemins internes, pour ne pas rediriger vers un autre site
+const safeReturnTo = (returnTo?: string) =>
+  returnTo && returnTo.startsWith('/') && !returnTo.startsWith('//') && !returnTo.startsWith('/auth/')
+    ? returnTo
+    : DEFAULT_RETURN_TO;
+
+/**
+ * Redirige vers l'émetteur. `returnTo` est la route à rouvrir une fois connecté.
+ */
+export const startLogin = async (returnTo?: string): Promise<void> => {
+  const clientId = getClientId();
+  const { authorization_endpoint } = await discover();
+  const transaction: OidcTransaction = {
+    state: randomString(),
+    codeVerifier: randomString(),
+    returnTo: safeReturnTo(returnTo),
+  };
+  sessionStorage.setItem(TRANSACTION_KEY, JSON.stringify(transaction));
+
+  const params = new URLSearchParams({
+    response_type: 'code',
+    client_id: clientId,
+    redirect_uri: OIDC_CONFIG.redirectUri,
+    scope: OIDC_CONFIG.scope,
+    state: transaction.state,
+    code_challenge: await codeChallenge(transaction.codeVerifier),
+    code_challenge_method: 'S256',
+  });
+  window.location.assign(`${authorization_endpoint}?${params}`);
+};
+
+const takeTransaction = (): OidcTransaction | null => {
+  const raw = sessionStorage.getItem(TRANSACTION_KEY);
+  sessionStorage.removeItem(TRANSACTION_KEY);
+  if (!raw) return null;
+  const parsed = transactionSchema.safeParse(JSON.parse(raw));
+  return parsed.success ? parsed.data : null;
+};
+
+const requestTokens = async (body: Record<string, string>): Promise<AuthTokens> => {
+  const { token_endpoint } = await discover();
+  const response = await fetch(token_endpoint, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: new URLSearchParams({ client_id: getClientId(), ...body }),
+  });
+  const payload = await response.json().catch(() => undefined);
+  if (!response.ok) {
+    throw new OidcError(payload?.error ?? 'token_error', payload?.error_description);
+  }
+  const tokens = tokenResponseSchema.safeParse(payload);
+  if (!tokens.success) {
+    throw new OidcError('token_error', "Réponse inattendue du fournisseur d'identité");
+  }
+  return tokens.data;
+};
+
+/**
+ * Traite les paramètres du callback : erreur renvoyée par l'émetteur,
+ * contrôle du `state` puis échange du code contre les jetons.
+ */
+export const completeLogin = async (params: URLSearchParams): Promise<{ tokens: AuthTokens; returnTo: string }> => {
+  const transaction = takeTransaction();
+  const error = params.get('error');
+  if (error) {
+    throw new OidcError(error, params.get('error_description') ?? undefined);
+  }
+
+  const code = params.get('code');
+  if (!code || !transaction || params.get('state') !== transaction.state) {
+    throw new OidcError('invalid_state');
+  }
+
+  const tokens = await requestTokens({
+    grant_type: 'authorization_code',
+    code,
+    redirect_uri: OIDC_CONFIG.redirectUri,
+    code_verifier: transaction.codeVerifier,
+  });
+  return { tokens, returnTo: transaction.returnTo };
+};
+
+// Renouvelle les jetons sans interaction ; l'émetteur peut faire tourner le refresh token
+export const refreshTokens = async (refreshToken: string): Promise<AuthTokens> => {
+  const tokens = await requestTokens({ grant_type: 'refresh_token', refresh_token: refreshToken });
+  return { ...tokens, refreshToken: tokens.refreshToken ?? refreshToken };
+};
+
+/**
+ * URL de déconnexion chez l'émetteur (`end_session_endpoint`), qui renvoie
+ * ensuite sur la page de connexion. `null` si l'émetteur n'en expose pas.
+ */
+export const getLogoutUrl = async (idToken?: string | null): Promise<string | null> => {
+  const { end_session_endpoint } = await discover();
+  if (!end_session_endpoint) return null;
+  const params = new URLSearchParams({
+    post_logout_redirect_uri: `${window.location.origin}/auth/login`,
+    ...(OIDC_CONFIG.clientId && { client_id: OIDC_CONFIG.clientId }),
+    ...(idToken && { id_token_hint: idToken }),
+  });
+  return `${end_session_endpoint}?${params}`;
+};
@@ -0,0 +1,68 @@
+import { expensesApi, ExpenseInput, incomesApi, IncomeInput } from './api';
+import { ApiError } from './http';
+import { idbDelete, idbGetAll, idbPut, STORES } from '../lib/idb';
+
+export type OutboxOperation =
+  | { resource: 'expenses'; action: 'create'; payload: ExpenseInput }
+  | { resource: 'expenses'; action: 'update'; targetId: string; payload: Partial<ExpenseInput> }
+  | { resource: 'expenses'; action: 'delete'; targetId: string }
+  | { resource: 'incomes'; action: 'create'; payload: IncomeInput }
+  | { resource: 'incomes'; action: 'update'; targetId: string; payload: Partial<IncomeInput> }
+  | { resource: 'incomes'; action: 'delete'; targetId: string };
+
+export type OutboxResource = OutboxOperation['resource'];
+
+/**
+ * Écriture en attente d'envoi, propre à l'utilisateur qui l'a saisie (`userId`).
+ * `sending` : requête en cours, l'entrée ne doit plus être modifiée ;
+ * `conflict` : refus du serveur (donnée supprimée entre-temps, validation...)
+ * que l'utilisateur doit traiter.
+ */
+export type OutboxEntry = OutboxOperation & {
+  id: string;
+  userId: string;
+  createdAt: number;
+  status: 'pending' | 'sending' | 'conflict';
+  error?: string;
+};
+
+// Préfixe des identifiants provisoires des créations pas encore synchronisées
+export const LOCAL_ID_PREFIX = 'local-';
+
+export const isLocalId = (id: string) => id.startsWith(LOCAL_ID_PREFIX);
+
+export const loadOutboxEntries = async (userId: string): Promise<OutboxEntry[]> => {
+  const entries = await idbGetAll<OutboxEntry>(STORES.outbox);
+  return entries.filter((entry) => entry.userId === userId).sort((a, b) => a.createdAt - b.createdAt);
+};
+
+export const saveOutboxEntry = (entry: OutboxEntry) => idbPut(STORES.outbox, entry);
+
+export const deleteOutboxEntry = (id: string) => idbDelete(STORES.outbox, id);
+
+// Session expirée ou refusée : l'entrée reste en attente jusqu'à la reconnexion
+export const isAuthError = (error: unknown) =>
+  error instanceof ApiError && (error.status === 401 || error.status === 403);
+
+// Refus définitif du serveur (conflit, validation, donnée disparue) : rejouer ne changera rien
+export const isConflictError = (error: unknown) =>
+  error instanceof ApiError &&
+  error.status >= 400 &&
+  error.status < 500 &&
+  ![401, 403, 408, 429].includes(error.status);
+
+// Rejoue une opération contre l'API ; renvoie l'identifiant attribué par le serveur à une création
+export const sendOperation = async (operation: OutboxOperation): Promise<string | undefined> => {
+  switch (operation.resource) {
+    case 'expenses':
+      if (operation.action === 'create') return (await expensesApi.create(operation.payload)).id;
+      if (operation.action === 'update') await expensesApi.update(operation.targetId, operation.payload);
+      else await expensesApi.delete(operation.targetId);
+      return undefined;
+    case 'incomes':
+      if (operation.action === 'create') return (await incomesApi.create(operation.payload)).id;
+      if (operation.action === 'update') await incomesApi.update(operation.targetId, operation.payload);
+      else await incomesApi.delete(operation.targetId);
+      return undefined;
+  }
+};
@@ -0,0 +1,367 @@
+import { z } from 'zod';
+import {
+  Account,
+  AmountRevision,
+  Category,
+  EnvelopeAllocation,
+  EnvelopeMove,
+  Expense,
+  FixedExpense,
+  ForecastResult,
+  ForecastScenario,
+  Income,
+  IndexationRule,
+  Loan,
+  MonthSummary,
+  OccurrenceConfirmation,
+  OccurrenceException,
+  Recurrence,
+  RecurringIncome,
+  SavingsGoal,
+  Transfer,
+  User,
+} from '../types';
+
+// Le backend peut renvoyer `null` pour un champ optionnel absent
+const optionalString = z.string().nullish().transform((value) => value ?? undefined);
+
+const moneyCts = z.number().int();
+
+export const categorySchema = z
+  .object({
+    _id: z.string(),
+    name: z.string(),
+    color: z.string(),
+    order: z.number().int().nullish(),
+    monthlyBudgetCts: moneyCts.nullish(),
+    budgetRollover: z.boolean().nullish(),
+  })
+  .transform((dto): Category => ({
+    id: dto._id,
+    name: dto.name,
+    color: dto.color,
+    order: dto.order ?? undefined,
+    monthlyBudgetCts: dto.monthlyBudgetCts ?? undefined,
+    budgetRollover: dto.budgetRollover ?? undefined,
+  }));
+
+export const expenseSchema = z
+  .object({
+    _id: z.string(),
+    dateISO: z.string(),
+    label: z.string(),
+    amountCts: moneyCts,
+    categoryId: z.string(),
+    notes: optionalString,
+    accountId: optionalString,
+  })
+  .transform((dto): Expense => ({
+    id: dto._id,
+    dateISO: dto.dateISO,
+    label: dto.label,
+    amountCts: dto.amountCts,
+    categoryId: dto.categoryId,
+    notes: dto.notes,
+    accountId: dto.accountId,
+  }));
+
+export const incomeSchema = z
+  .object({
+    _id: z.string(),
+    dateISO: z.string(),
+    label: z.string(),
+    amountCts: moneyCts,
+    notes: optionalString,
+    accountId: optionalString,
+  })
+  .transform((dto): Income => ({
+    id: dto._id,
+    dateISO: dto.dateISO,
+    label: dto.label,
+    amountCts: dto.amountCts,
+    notes: dto.notes,
+    accountId: dto.accountId,
+  }));
+
+export const accountSchema = z
+  .object({
+    _id: z.string(),
+    name: z.string(),
+    type: z.enum(['current', 'savings', 'deferred_card', 'cash']),
+    cutoffDay: z.number().int().min(1).max(31).nullish(),
+    debitDay: z.number().int().min(1).max(31).nullish(),
+  })
+  .transform((dto): Account => ({
+    id: dto._id,
+    name: dto.name,
+    type: dto.type,
+    cutoffDay: dto.cutoffDay ?? undefined,
+    debitDay: dto.debitDay ?? undefined,
+  }));
+
+export const transferSchema = z
+  .object({
+    _id: z.string(),
+    dateISO: z.string(),
+    fromAccountId: z.string(),
+    toAccountId: z.string(),
+    amountCts: moneyCts,
+    label: optionalString,
+  })
+  .transform((dto): Transfer => ({
+    id: dto._id,
+    dateISO: dto.dateISO,
+    fromAccountId: dto.fromAccountId,
+    toAccountId: dto.toAccountId,
+    amountCts: dto.amountCts,
+    label: dto.label,
+  }));
+
+const recurrenceSchema = z
+  .object({
+    frequency: z.enum(['weekly', 'monthly', 'yearly']),
+    interval: z.number().int().min(1),
+    byMonthDay: z.number().int().min(1).max(31).nullish(),
+    byWeekday: z.number().int().min(0).max(6).nullish(),
+    lastDayOfMonth: z.boolean().nullish(),
+    businessDayAdjustment: z.enum(['none', 'previous', 'next']).nullish(),
+  })
+  .transform((dto): Recurrence => ({
+    frequency: dto.frequency,
+    interval: dto.interval,
+    byMonthDay: dto.byMonthDay ?? undefined,
+    byWeekday: dto.byWeekday ?? undefined,
+    lastDayOfMonth: dto.lastDayOfMonth ?? undefined,
+    businessDayAdjustment: dto.businessDayAdjustment ?? 'none',
+  }));
+
+const amountRevisionSchema = z.object({
+  effectiveDate: z.string(),
+  amountCts: moneyCts,
+}) satisfies z.ZodType<AmountRevision>;
+
+const indexationSchema = z.discriminatedUnion('kind', [
+  z.object({ kind: z.literal('percent'), ratePct: z.number(), anniversaryDate: z.string() }),
+  z.object({ kind: z.literal('amount'), amountCts: moneyCts, anniversaryDate: z.string() }),
+]) satisfies z.ZodType<IndexationRule>;
+
+const occurrenceExceptionSchema = z.discriminatedUnion('kind', [
+  z.object({ occurrenceDate: z.string(), kind: z.literal('skip') }),
+  z.object({ occurrenceDate: z.string(), kind: z.literal('move'), dateISO: z.string() }),
+  z.object({ occurrenceDate: z.string(), kind: z.literal('override'), amountCts: moneyCts }),
+]) satisfies z.ZodType<OccurrenceException>;
+
+const occurrenceConfirmationSchema = z
+  .object({
+    occurrenceDate: z.string(),
+    dateISO: z.string(),
+    amountCts: moneyCts,
+    transactionId: optionalString,
+  })
+  .transform((dto): OccurrenceConfirmation => dto);
+
+const recurringItemDtoSchema = z
+  .object({
+    _id: z.string(),
+    label: z.string(),
+    amountCts: moneyCts,
+    amountRevisions: z.array(amountRevisionSchema).nullish(),
+    indexation: indexationSchema.nullish(),
+    recurrence: recurrenceSchema.nullish(),
+    occurrenceExceptions: z.array(occurrenceExceptionSchema).nullish(),
+    occurrenceConfirmations: z.array(occurrenceConfirmationSchema).nullish(),
+    // Les éléments créés avant les règles de récurrence n'ont qu'un jour du mois
+    dayOfMonth: z.number().int().min(1).max(31).nullish(),
+    startDate: z.string(),
+    endDate: optionalString,
+    accountId: optionalString,
+  })
+  .refine((dto) => dto.recurrence || dto.dayOfMonth, { message: 'recurrence or dayOfMonth is required' });
+
+const toRecurrence = (dto: z.infer<typeof recurringItemDtoSchema>): Recurrence =>
+  dto.recurrence ?? {
+    frequency: 'monthly',
+    interval: 1,
+    byMonthDay: dto.dayOfMonth ?? undefined,
+    businessDayAdjustment: 'none',
+  };
+
+const sortRevisions = (revisions: AmountRevision[]) =>
+  [...revisions].sort((a, b) => a.effectiveDate.localeCompare(b.effectiveDate));
+
+export const fixedExpenseSchema = recurringItemDtoSchema.transform((dto): FixedExpense => ({
+  id: dto._id,
+  label: dto.label,
+  amountCts: dto.amountCts,
+  amountRevisions: sortRevisions(dto.amountRevisions ?? []),
+  indexation: dto.indexation ?? undefined,
+  recurrence: toRecurrence(dto),
+  occurrenceExceptions: dto.occurrenceExceptions ?? [],
+  occurrenceConfirmations: dto.occurrenceConfirmations ?? [],
+  startDate: dto.startDate,
+  endDate: dto.endDate,
+  accountId: dto.accountId,
+}));
+
+export const recurringIncomeSchema = recurringItemDtoSchema.transform((dto): RecurringIncome => ({
+  id: dto._id,
+  label: dto.label,
+  amountCts: dto.amountCts,
+  amountRevisions: sortRevisions(dto.amountRevisions ?? []),
+  indexation: dto.indexation ?? undefined,
+  recurrence: toRecurrence(dto),
+  occurrenceExceptions: dto.occurrenceExceptions ?? [],
+  occurrenceConfirmations: dto.occurrenceConfirmations ?? [],
+  startDate: dto.startDate,
+  endDate: dto.endDate,
+  accountId: dto.accountId,
+}));
+
+export const loanSchema = z
+  .object({
+    _id: z.string(),
+    label: z.string(),
+    principalCts: moneyCts,
+    annualRatePct: z.number().min(0),
+    durationMonths: z.number().int().positive(),
+    monthlyInsuranceCts: moneyCts.nullish(),
+    startDate: z.string(),
+    fixedExpenseId: optionalString,
+  })
+  .transform((dto): Loan => ({
+    id: dto._id,
+    label: dto.label,
+    principalCts: dto.principalCts,
+    annualRatePct: dto.annualRatePct,
+    durationMonths: dto.durationMonths,
+    monthlyInsuranceCts: dto.monthlyInsuranceCts ?? 0,
+    startDate: dto.startDate,
+    fixedExpenseId: dto.fixedExpenseId,
+  }));
+
+export const envelopeAllocationSchema = z
+  .object({
+    _id: z.string(),
+    monthISO: z.string(),
+    categoryId: z.string(),
+    amountCts: moneyCts,
+  })
+  .transform((dto): EnvelopeAllocation => ({
+    id: dto._id,
+    monthISO: dto.monthISO,
+    categoryId: dto.categoryId,
+    amountCts: dto.amountCts,
+  }));
+
+export const envelopeMoveSchema = z
+  .object({
+    _id: z.string(),
+    monthISO: z.string(),
+    dateISO: z.string(),
+    fromCategoryId: z.string(),
+    toCategoryId: z.string(),
+    amountCts: moneyCts,
+    note: optionalString,
+  })
+  .transform((dto): EnvelopeMove => ({
+    id: dto._id,
+    monthISO: dto.monthISO,
+    dateISO: dto.dateISO,
+    fromCategoryId: dto.fromCategoryId,
+    toCategoryId: dto.toCategoryId,
+    amountCts: dto.amountCts,
+    note: dto.note,
+  }));
+
+export const savingsGoalSchema = z
+  .object({
+    _id: z.string(),
+    name: z.string(),
+    targetCts: moneyCts,
+    targetDateISO: z.string(),
+    currentCts: moneyCts.nullish(),
+  })
+  .transform((dto): SavingsGoal => ({
+    id: dto._id,
+    name: dto.name,
+    targetCts: dto.targetCts,
+    targetDateISO: dto.targetDateISO,
+    currentCts: dto.currentCts ?? 0,
+  }));
+
+export const monthSummarySchema = z.object({
+  monthISO: z.string(),
+  fixedExpensesTotalCts: moneyCts,
+  recurringIncomesTotalCts: moneyCts,
+  variableExpensesTotalCts: moneyCts,
+  otherIncomesTotalCts: moneyCts,
+  balanceCts: moneyCts,
+}) satisfies z.ZodType<MonthSummary>;
+
+export const forecastResultSchema = z.object({
+  projectedBalanceCts: moneyCts,
+  components: z.object({
+    budgetBaseCts: moneyCts,
+    realizedExpensesCts: moneyCts,
+    realizedIncomesCts: moneyCts,
+    fixedRemainingCts: moneyCts,
+    recurringRemainingCts: moneyCts,
+    extrasExpenseCts: moneyCts,
+    extrasIncomeCts: moneyCts,
+  }),
+}) satisfies z.ZodType<ForecastResult>;
+
+export const forecastScenarioSchema = z
+  .object({
+    _id: z.string(),
+    monthISO: z.string(),
+    name: z.string(),
+    extras: z
+      .array(
+        z.object({
+          id: z.string(),
+          label: z.string(),
+          amountCts: moneyCts,
+          dateISO: optionalString,
+          type: z.enum(['expense', 'income']),
+          goalId: optionalString,
+          monthISO: optionalString,
+        })
+      )
+      .nullish(),
+  })
+  .transform((dto): ForecastScenario => ({
+    id: dto._id,
+    monthISO: dto.monthISO,
+    name: dto.name,
+    extras: dto.extras ?? [],
+  }));
+
+// Profil renvoyé par `/auth/me` (claims OIDC à plat ou regroupés sous `profile`)
+export const userInfoSchema = z
+  .object({
+    sub: optionalString,
+    id: optionalString,
+    email: z.string(),
+    name: optionalString,
+    profile: z
+      .object({
+        name: optionalString,
+        given_name: optionalString,
+        family_name: optionalString,
+        email: optionalString,
+      })
+      .optional(),
+  })
+  .transform((dto): User => {
+    const fullName =
+      dto.profile?.name ||
+      dto.name ||
+      [dto.profile?.given_name, dto.profile?.family_name].filter(Boolean).join(' ') ||
+      undefined;
+    return {
+      id: dto.sub || dto.id || dto.email,
+      email: dto.email,
+      fullName,
+    };
+  });
@@ -0,0 +1,19 @@
+/**
+ * Synchronisation de la session entre onglets : une connexion, un renouvellement
+ * ou une déconnexion dans un onglet est répercuté dans tous les autres.
+ */
+export type SessionMessage = { type: 'login' } | { type: 'logout' } | { type: 'refreshed' };
+
+const CHANNEL_NAME = 'finora-session';
+
+const channel = typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel(CHANNEL_NAME) : null;
+
+export const broadcastSession = (message: SessionMessage) => {
+  channel?.postMessage(message);
+};
+
+export const onSessionMessage = (listener: (message: SessionMessage) => void) => {
+  const handler = (event: MessageEvent<SessionMessage>) => listener(event.data);
+  channel?.addEventListener('message', handler);
+  return () => channel?.removeEventListener('message', handler);
+};
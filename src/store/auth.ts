@@ -1,63 +1,48 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
 import { authApi } from '../services/api';
+import { configureSession } from '../services/http';
+import { AuthTokens } from '../services/oidc';
+import { broadcastSession } from '../services/sessionChannel';
 import { AuthState, User } from '../types';
 
 interface AuthStore extends AuthState {
-  login: (email: string, password: string) => Promise<void>;
-  logout: () => void;
+  // Redirige vers le fournisseur d'identité ; `returnTo` est rouvert après connexion
+  login: (returnTo?: string) => Promise<void>;
+  // Vide les jetons ; la déconnexion complète passe par `signOut` (store de session)
+  clearSession: () => void;
   setUser: (user: User) => void;
-  setAuthData: (user: User, accessToken: string) => void;
+  setTokens: (tokens: AuthTokens) => void;
+  setAuthData: (user: User, tokens: AuthTokens) => void;
 }
 
+const signedOut = {
+  user: null,
+  accessToken: null,
+  refreshToken: null,
+  idToken: null,
+  expiresAt: null,
+  isAuthenticated: false,
+};
+
+// Un renouvellement ne renvoie pas toujours d'id token : on garde alors le précédent
+const tokenState = (tokens: AuthTokens, previous?: AuthState) => ({
+  accessToken: tokens.accessToken,
+  refreshToken: tokens.refreshToken ?? null,
+  idToken: tokens.idToken ?? previous?.idToken ?? null,
+  expiresAt: tokens.expiresAt ?? null,
+});
+
 export const useAuthStore = create<AuthStore>()(
   persist(
-    (set) => ({
-      user: null,
-      accessToken: null,
-      isAuthenticated: false,
+    (set, get) => ({
+      ...signedOut,
       
-      login: async (email: string, password: string) => {
-        // Mock authentication - replace with real API call
-        if (email === 'demo@example.com' && password === 'password' || 
-            email === 'cognito-user@example.com' && password === 'cognito-authenticated') {
-          const mockUser: User = {
-            id: '1',
-            email,
-            fullName: email === 'cognito-user@example.com' ? 'Utilisateur Cognito' : 'Utilisateur Demo'
-          };
-          const mockToken = 'mock-jwt-token';
-          
-          set({
-            user: mockUser,
-            accessToken: mockToken,
-            isAuthenticated: true
-          });
-        } else {
-          throw new Error('Identifiants invalides');
-        }
-      },
+      login: (returnTo?: string) => authApi.login(returnTo),
       
-      logout: () => {
-        // Call API to clear server-side cookies and redirect
-        authApi.signout()
-          .then(() => {
-            // Clear local state after successful API call
-            set({
-              user: null,
-              accessToken: null,
-              isAuthenticated: false
-            });
-          })
-          .catch(error => {
-            console.error('Error during signout:', error);
-            // Clear local state even if API call fails
-            set({
-              user: null,
-              accessToken: null,
-              isAuthenticated: false
-            });
-          });
+      clearSession: () => {
+        set(signedOut);
+        useAuthStore.persist.clearStorage();
       },
       
       setUser: (user: User) => {
@@ -67,12 +52,17 @@ export const useAuthStore = create<AuthStore>()(
         });
       },
       
-      setAuthData: (user: User, accessToken: string) => {
+      setTokens: (tokens: AuthTokens) => {
+        set(tokenState(tokens, get()));
+      },
+      
+      setAuthData: (user: User, tokens: AuthTokens) => {
         set({
           user,
-          accessToken,
+          ...tokenState(tokens, get()),
           isAuthenticated: true
         });
+        broadcastSession({ type: 'login' });
       }
     }),
     {
@@ -80,8 +70,14 @@ export const useAuthStore = create<AuthStore>()(
       partialize: (state) => ({
         user: state.user,
         accessToken: state.accessToken,
+        refreshToken: state.refreshToken,
+        idToken: state.idToken,
+        expiresAt: state.expiresAt,
         isAuthenticated: state.isAuthenticated
       })
     }
   )
-);
\ No newline at end of file
+);
+
+// Les requêtes API s'authentifient avec le jeton de la session courante
+configureSession({ getAccessToken: () => useAuthStore.getState().accessToken });
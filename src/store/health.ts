@@ -0,0 +1,92 @@
+import { create } from 'zustand';
+import { onlineManager, QueryClient } from '@tanstack/react-query';
+import { getBackoffDelay, pingApi } from '../services/health';
+
+// Intervalle de sonde quand tout va bien
+const HEALTH_CHECK_INTERVAL_MS = 60000;
+
+type ApiStatus = 'online' | 'offline';
+
+interface HealthStore {
+  status: ApiStatus;
+  // Nombre de sondes consécutives en échec depuis la perte de connexion
+  failedProbes: number;
+  lastCheckedAt: number | null;
+  reconnectedAt: number | null;
+
+  reportFailure: () => void;
+  reportSuccess: () => void;
+}
+
+export const useHealthStore = create<HealthStore>()((set, get) => ({
+  status: 'online',
+  failedProbes: 0,
+  lastCheckedAt: null,
+  reconnectedAt: null,
+
+  reportFailure: () => {
+    const { status, failedProbes } = get();
+    set({
+      status: 'offline',
+      failedProbes: status === 'offline' ? failedProbes + 1 : 0,
+      lastCheckedAt: Date.now(),
+    });
+  },
+
+  reportSuccess: () => {
+    const { status } = get();
+    set({
+      status: 'online',
+      failedProbes: 0,
+      lastCheckedAt: Date.now(),
+      reconnectedAt: status === 'offline' ? Date.now() : get().reconnectedAt,
+    });
+  },
+}));
+
+let probeTimer: ReturnType<typeof setTimeout> | null = null;
+
+const scheduleProbe = () => {
+  if (probeTimer) clearTimeout(probeTimer);
+  const { status, failedProbes } = useHealthStore.getState();
+  const delay = status === 'offline' ? getBackoffDelay(failedProbes) : HEALTH_CHECK_INTERVAL_MS;
+  probeTimer = setTimeout(probeNow, delay);
+};
+
+/**
+ * Sonde l'API immédiatement puis replanifie la sonde suivante.
+ */
+export const probeNow = async () => {
+  const healthy = await pingApi();
+  const { reportSuccess, reportFailure } = useHealthStore.getState();
+  if (healthy) reportSuccess();
+  else reportFailure();
+  scheduleProbe();
+};
+
+/**
+ * Démarre la surveillance de l'API : sonde périodique, sonde rapprochée (backoff
+ * exponentiel) après une panne, et relance des chargements en échec au retour
+ * de la connexion. Renvoie la fonction d'arrêt.
+ */
+export const startHealthMonitor = (queryClient: QueryClient) => {
+  const unsubscribe = useHealthStore.subscribe((state, previous) => {
+    if (state.status === previous.status) return;
+
+    // Les requêtes React Query se mettent en pause tant que l'API est injoignable
+    onlineManager.setOnline(state.status === 'online');
+    if (state.status === 'online') {
+      queryClient.refetchQueries({ predicate: (query) => query.state.status === 'error' });
+      queryClient.resumePausedMutations();
+    }
+    scheduleProbe();
+  });
+
+  scheduleProbe();
+
+  return () => {
+    unsubscribe();
+    if (probeTimer) clearTimeout(probeTimer);
+    probeTimer = null;
+  };
+};
@@ -0,0 +1,277 @@
+import { create } from 'zustand';
+import { v4 as uuidv4 } from 'uuid';
+import { queryClient } from '../lib/queryClient';
+import { queryKeys } from '../hooks/queries';
+import { isConnectivityError } from '../services/health';
+import {
+  deleteOutboxEntry,
+  isAuthError,
+  isConflictError,
+  isLocalId,
+  loadOutboxEntries,
+  LOCAL_ID_PREFIX,
+  OutboxEntry,
+  OutboxOperation,
+  saveOutboxEntry,
+  sendOperation,
+} from '../services/outbox';
+import { useAuthStore } from './auth';
+import { useHealthStore } from './health';
+
+interface OutboxStore {
+  entries: OutboxEntry[];
+  syncing: boolean;
+
+  // Charge les entrées de l'utilisateur connecté
+  load: () => Promise<void>;
+  // Met l'opération en file puis tente de synchroniser ; `queued` si elle reste en attente.
+  // `id` est l'identifiant de l'élément créé (provisoire tant qu'il est en file)
+  submit: (operation: OutboxOperation) => Promise<{ queued: boolean; id?: string }>;
+  flush: () => Promise<void>;
+  retry: (id: string) => Promise<void>;
+  discard: (id: string) => Promise<void>;
+  // Supprime les écritures de l'utilisateur connecté (déconnexion)
+  purge: () => Promise<void>;
+}
+
+// Identifiants serveur des créations synchronisées, par identifiant provisoire
+const syncedIds = new Map<string, string>();
+
+// Cible d'une modification ou suppression : version serveur d'un élément créé hors ligne
+const resolveTargetId = (targetId: string) => syncedIds.get(targetId) ?? targetId;
+
+const errorMessage = (error: unknown) =>
+  error instanceof Error ? error.message : 'Erreur lors de la synchronisation';
+
+let flushPromise: Promise<void> | null = null;
+
+export const useOutboxStore = create<OutboxStore>()((set, get) => {
+  const removeEntries = async (ids: string[]) => {
+    await Promise.all(ids.map(deleteOutboxEntry));
+    set((state) => ({ entries: state.entries.filter((entry) => !ids.includes(entry.id)) }));
+  };
+
+  const putEntry = async (entry: OutboxEntry) => {
+    await saveOutboxEntry(entry);
+    set((state) => ({
+      entries: state.entries.some((e) => e.id === entry.id)
+        ? state.entries.map((e) => (e.id === entry.id ? entry : e))
+        : [...state.entries, entry],
+    }));
+  };
+
+  // Une création et les opérations mises en file derrière elle
+  const withDependents = (id: string) => [
+    id,
+    ...get().entries.filter((entry) => entry.action !== 'create' && entry.targetId === id).map((entry) => entry.id),
+  ];
+
+  /**
+   * Ajoute l'opération à la file. Une modification ou suppression d'un élément
+   * créé hors ligne est fusionnée dans la création encore en attente ; si celle-ci
+   * est en cours d'envoi, elle est mise en file derrière elle.
+   */
+  const enqueue = async (operation: OutboxOperation): Promise<OutboxEntry | null> => {
+    if (operation.action !== 'create') {
+      const serverId = syncedIds.get(operation.targetId);
+      const targetId = operation.targetId;
+      const pendingCreate = get().entries.find((entry) => entry.id === targetId);
+      if (serverId) {
+        // L'élément a été synchronisé depuis : on cible sa version serveur
+        operation = { ...operation, targetId: serverId };
+      } else if (isLocalId(targetId) && pendingCreate?.status !== 'sending') {
+        if (operation.action === 'delete' || !pendingCreate || pendingCreate.action !== 'create') {
+          await removeEntries(withDependents(targetId));
+          return null;
+        }
+        const merged = {
+          ...pendingCreate,
+          payload: { ...pendingCreate.payload, ...operation.payload },
+          status: 'pending',
+          error: undefined,
+        } as OutboxEntry;
+        await putEntry(merged);
+        return merged;
+      }
+    }
+
+    const userId = useAuthStore.getState().user?.id;
+    if (!userId) {
+      throw new Error('Session expirée, reconnectez-vous pour enregistrer');
+    }
+
+    const entry = {
+      ...operation,
+      id: operation.action === 'create' ? `${LOCAL_ID_PREFIX}${uuidv4()}` : uuidv4(),
+      userId,
+      createdAt: Date.now(),
+      status: 'pending',
+    } as OutboxEntry;
+    await putEntry(entry);
+    return entry;
+  };
+
+  // Prochaine entrée à envoyer ; celles qui visent une création pas encore synchronisée attendent
+  const nextPending = () =>
+    get().entries.find(
+      (entry) =>
+        entry.status === 'pending' &&
+        (entry.action === 'create' || !isLocalId(resolveTargetId(entry.targetId)))
+    );
+
+  // Les opérations en file derrière une création visent désormais l'élément serveur
+  const retarget = async (localId: string, serverId: string) => {
+    const dependents = get().entries.filter((entry) => entry.action !== 'create' && entry.targetId === localId);
+    await Promise.all(dependents.map((entry) => putEntry({ ...entry, targetId: serverId } as OutboxEntry)));
+  };
+
+  /**
+   * Rejoue les entrées en attente dans l'ordre. S'arrête à la première panne réseau
+   * ou session expirée (les entrées restent en attente) ; seuls les refus du serveur
+   * passent en conflit.
+   */
+  const runFlush = async () => {
+    // Inutile d'attendre un timeout réseau : la sonde de santé relancera la synchro
+    if (useHealthStore.getState().status === 'offline' || !navigator.onLine) {
+      return;
+    }
+    // Sans session, l'envoi échouerait : la reconnexion relancera la synchro
+    if (!useAuthStore.getState().isAuthenticated) {
+      return;
+    }
+
+    set({ syncing: true });
+    let synced = 0;
+    try {
+      let next = nextPending();
+      while (next) {
+        const sending = (
+          next.action === 'create' ? next : { ...next, targetId: resolveTargetId(next.targetId) }
+        ) as OutboxEntry;
+        await putEntry({ ...sending, status: 'sending' });
+        try {
+          const createdId = await sendOperation(sending);
+          if (createdId) {
+            syncedIds.set(next.id, createdId);
+            await retarget(next.id, createdId);
+          }
+          await removeEntries([next.id]);
+          synced += 1;
+        } catch (error) {
+          if (isConflictError(error)) {
+            await putEntry({ ...sending, status: 'conflict', error: errorMessage(error) });
+          } else {
+            await putEntry({ ...sending, status: 'pending' });
+            if (isConnectivityError(error)) {
+              useHealthStore.getState().reportFailure();
+            } else if (!isAuthError(error)) {
+              console.error('Unexpected outbox error:', error);
+            }
+            break;
+          }
+        }
+        next = nextPending();
+      }
+    } finally {
+      set({ syncing: false });
+    }
+
+    if (synced > 0) {
+      await Promise.all(
+        [queryKeys.expenses, queryKeys.incomes, queryKeys.summary, queryKeys.forecast].map((queryKey) =>
+          queryClient.invalidateQueries({ queryKey })
+        )
+      );
+    }
+  };
+
+  return {
+    entries: [],
+    syncing: false,
+
+    load: async () => {
+      const userId = useAuthStore.getState().user?.id;
+      const entries = userId ? await loadOutboxEntries(userId) : [];
+      // Un envoi interrompu (onglet fermé) est rejoué
+      set({
+        entries: entries.map((entry) => (entry.status === 'sending' ? { ...entry, status: 'pending' } : entry)),
+      });
+    },
+
+    submit: async (operation) => {
+      const entry = await enqueue(operation);
+      if (!entry) {
+        return { queued: false };
+      }
+
+      await get().flush();
+      const current = get().entries.find((e) => e.id === entry.id);
+      if (current?.status === 'conflict') {
+        // L'utilisateur est encore sur le formulaire : on lui remonte l'erreur directement
+        await removeEntries([current.id]);
+        throw new Error(current.error);
+      }
+      if (current) {
+        return { queued: true, id: entry.id };
+      }
+      return { queued: false, id: operation.action === 'create' ? syncedIds.get(entry.id) : undefined };
+    },
+
+    flush: () => {
+      if (!flushPromise) {
+        flushPromise = runFlush().finally(() => {
+          flushPromise = null;
+        });
+      }
+      return flushPromise;
+    },
+
+    retry: async (id) => {
+      const entry = get().entries.find((e) => e.id === id);
+      if (!entry) return;
+      await putEntry({ ...entry, status: 'pending', error: undefined });
+      await get().flush();
+    },
+
+    discard: (id) => removeEntries(withDependents(id)),
+
+    purge: async () => {
+      await removeEntries(get().entries.map((entry) => entry.id));
+      syncedIds.clear();
+    },
+  };
+});
+
+/**
+ * Charge la file persistée et la rejoue au démarrage, puis à chaque retour
+ * de connexion ou nouvelle session. Renvoie la fonction d'arrêt.
+ */
+export const startOutboxSync = () => {
+  const { load, flush } = useOutboxStore.getState();
+  const reload = () =>
+    load()
+      .then(flush)
+      .catch((error) => console.error('Error loading outbox:', error));
+  reload();
+
+  const unsubscribeHealth = useHealthStore.subscribe((state, previous) => {
+    if (state.status === 'online' && previous.status === 'offline') {
+      flush();
+    }
+  });
+  const unsubscribeAuth = useAuthStore.subscribe((state, previous) => {
+    if (state.user?.id !== previous.user?.id) {
+      reload();
+    } else if (state.accessToken && state.accessToken !== previous.accessToken) {
+      // Session renouvelée : reprend les envois interrompus faute de session
+      flush();
+    }
+  });
+  window.addEventListener('online', flush);
+
+  return () => {
+    unsubscribeHealth();
+    unsubscribeAuth();
+    window.removeEventListener('online', flush);
+  };
+};
@@ -0,0 +1,18 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+
+interface PreferencesStore {
+  // Budget par enveloppes : chaque euro reçu dans le mois est alloué à une catégorie
+  envelopeMode: boolean;
+  setEnvelopeMode: (enabled: boolean) => void;
+}
+
+export const usePreferencesStore = create<PreferencesStore>()(
+  persist(
+    (set) => ({
+      envelopeMode: false,
+      setEnvelopeMode: (envelopeMode) => set({ envelopeMode }),
+    }),
+    { name: 'preferences-storage' }
+  )
+);
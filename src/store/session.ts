@@ -0,0 +1,202 @@
+import { create } from 'zustand';
+import { authApi } from '../services/api';
+import { configureSession, refreshCookieSession, refreshToken } from '../services/http';
+import { isConnectivityError } from '../services/health';
+import { refreshTokens, startLogin } from '../services/oidc';
+import { broadcastSession, onSessionMessage } from '../services/sessionChannel';
+import { clearDrafts, saveDrafts } from '../lib/drafts';
+import { queryClient } from '../lib/queryClient';
+import { useAuthStore } from './auth';
+import { useOutboxStore } from './outbox';
+
+// Renouvellement silencieux une minute avant l'expiration du jeton
+const REFRESH_LEAD_MS = 60000;
+// Sans renouvellement possible, l'utilisateur est prévenu deux minutes avant
+const WARNING_LEAD_MS = 120000;
+// Nouvel essai quand le fournisseur d'identité est injoignable
+const REFRESH_RETRY_MS = 15000;
+
+/**
+ * `expiring` : la session va expirer sans pouvoir être renouvelée ;
+ * `expired` : elle a expiré, une reconnexion est nécessaire.
+ */
+type SessionStatus = 'active' | 'expiring' | 'expired';
+
+interface SessionStore {
+  status: SessionStatus;
+
+  // Tente de prolonger la session (bouton "Rester connecté")
+  extend: () => Promise<void>;
+  // Sauvegarde les saisies en cours puis repasse par la connexion
+  reconnect: () => Promise<void>;
+  // Déconnecte tous les onglets et termine la session chez le fournisseur d'identité
+  signOut: () => Promise<void>;
+}
+
+let refreshTimer: ReturnType<typeof setTimeout> | null = null;
+let expiryTimer: ReturnType<typeof setTimeout> | null = null;
+
+const clearTimers = () => {
+  if (refreshTimer) clearTimeout(refreshTimer);
+  if (expiryTimer) clearTimeout(expiryTimer);
+  refreshTimer = null;
+  expiryTimer = null;
+};
+
+// Un seul onglet renouvelle à la fois : un refresh token ne sert qu'une fois
+const withRefreshLock = (run: () => Promise<void>): Promise<void> =>
+  'locks' in navigator ? navigator.locks.request('session-refresh', run) : run();
+
+// Renouvelle les jetons OIDC, ou la session cookie à défaut de refresh token
+const refreshSession = async () => {
+  const staleAccessToken = useAuthStore.getState().accessToken;
+  await withRefreshLock(async () => {
+    // Un autre onglet a peut-être renouvelé la session pendant l'attente du verrou
+    await useAuthStore.persist.rehydrate();
+    const { accessToken, refreshToken: currentRefreshToken, setTokens } = useAuthStore.getState();
+    if (!currentRefreshToken) {
+      await refreshCookieSession();
+      return;
+    }
+    if (accessToken !== staleAccessToken) return;
+    setTokens(await refreshTokens(currentRefreshToken));
+    broadcastSession({ type: 'refreshed' });
+  });
+};
+
+/**
+ * Efface tout ce que la session laisse dans le navigateur : jetons, cache des
+ * requêtes, écritures hors ligne et brouillons. Commun à la déconnexion locale
+ * et à celle reçue d'un autre onglet.
+ */
+const clearLocalSession = async () => {
+  clearTimers();
+  // Avant les jetons : la file est propre à l'utilisateur connecté
+  await useOutboxStore.getState().purge();
+  useAuthStore.getState().clearSession();
+  queryClient.clear();
+  clearDrafts();
+  useSessionStore.setState({ status: 'active' });
+};
+
+const markExpired = () => {
+  clearTimers();
+  // La redirection vers la connexion ne doit pas faire perdre la saisie en cours
+  saveDrafts();
+  useSessionStore.setState({ status: 'expired' });
+};
+
+const scheduledRefresh = async () => {
+  // Un autre onglet a peut-être déjà renouvelé la session
+  await useAuthStore.persist.rehydrate();
+  const { expiresAt } = useAuthStore.getState();
+  if (expiresAt && expiresAt - Date.now() > REFRESH_LEAD_MS) {
+    scheduleSession();
+    return;
+  }
+
+  try {
+    await refreshToken();
+  } catch (error) {
+    console.error('Silent refresh failed:', error);
+    if (isConnectivityError(error)) {
+      refreshTimer = setTimeout(scheduledRefresh, REFRESH_RETRY_MS);
+      return;
+    }
+    useSessionStore.setState({ status: 'expiring' });
+  }
+};
+
+/**
+ * Planifie le renouvellement silencieux (avec refresh token) ou l'avertissement
+ * (sans), puis la fin de session à l'échéance du jeton.
+ */
+const scheduleSession = () => {
+  clearTimers();
+  const { isAuthenticated, expiresAt, refreshToken: currentRefreshToken } = useAuthStore.getState();
+  if (!isAuthenticated || !expiresAt) return;
+
+  const remaining = expiresAt - Date.now();
+  if (remaining <= 0) {
+    markExpired();
+    return;
+  }
+
+  if (currentRefreshToken) {
+    refreshTimer = setTimeout(scheduledRefresh, Math.max(remaining - REFRESH_LEAD_MS, 0));
+  } else {
+    refreshTimer = setTimeout(
+      () => useSessionStore.setState({ status: 'expiring' }),
+      Math.max(remaining - WARNING_LEAD_MS, 0)
+    );
+  }
+  expiryTimer = setTimeout(markExpired, remaining);
+};
+
+export const useSessionStore = create<SessionStore>()((set) => ({
+  status: 'active',
+
+  extend: async () => {
+    try {
+      await refreshToken();
+      set({ status: 'active' });
+      scheduleSession();
+    } catch (error) {
+      console.error('Unable to extend session:', error);
+      // Panne réseau : l'utilisateur peut réessayer tant que le jeton reste valide
+      if (isConnectivityError(error)) throw error;
+      markExpired();
+    }
+  },
+
+  reconnect: async () => {
+    saveDrafts();
+    await startLogin(`${window.location.pathname}${window.location.search}`);
+  },
+
+  signOut: async () => {
+    const { idToken } = useAuthStore.getState();
+    await clearLocalSession();
+    broadcastSession({ type: 'logout' });
+    // Termine aussi la session chez le fournisseur d'identité
+    authApi.signout(idToken).catch((error) => {
+      console.error('Error during signout:', error);
+    });
+  },
+}));
+
+/**
+ * Démarre la gestion de session : renouvellement avant expiration, bascule
+ * sur la fenêtre d'avertissement si une requête échoue faute de session,
+ * et écoute des connexions/déconnexions des autres onglets. Renvoie la fonction d'arrêt.
+ */
+export const startSessionManager = () => {
+  configureSession({
+    refresh: refreshSession,
+    // Ne pas rediriger en pleine requête : la fenêtre de session propose la reconnexion
+    onExpired: markExpired,
+  });
+
+  const unsubscribeAuth = useAuthStore.subscribe((state, previous) => {
+    if (state.expiresAt !== previous.expiresAt || state.isAuthenticated !== previous.isAuthenticated) {
+      if (state.isAuthenticated) useSessionStore.setState({ status: 'active' });
+      scheduleSession();
+    }
+  });
+
+  const unsubscribeChannel = onSessionMessage((message) => {
+    if (message.type === 'logout') {
+      clearLocalSession().catch((error) => console.error('Error clearing session:', error));
+    } else {
+      useAuthStore.persist.rehydrate();
+    }
+  });
+
+  scheduleSession();
+
+  return () => {
+    unsubscribeAuth();
+    unsubscribeChannel();
+    clearTimers();
+  };
+};
@@ -10,24 +10,132 @@ export interface Category {
   id: string;
   name: string;
   color: string;
+  // Position dans les listes (les catégories sans ordre passent en dernier)
+  order?: number;
+  // Budget mensuel ; avec report, le reliquat du seul mois précédent s'y ajoute (non cumulé)
+  monthlyBudgetCts?: MoneyCts;
+  budgetRollover?: boolean;
+}
+
+export type AccountType = 'current' | 'savings' | 'deferred_card' | 'cash';
+
+// Compte bancaire ou poche d'argent ; un élément sans compte appartient au compte principal
+export interface Account {
+  id: string;
+  name: string;
+  type: AccountType;
+  // Carte à débit différé : les achats jusqu'au jour d'arrêté sont prélevés le jour de débit du mois suivant
+  cutoffDay?: number;
+  debitDay?: number;
+}
+
+// Virement interne entre deux comptes : ni dépense ni recette
+export interface Transfer {
+  id: string;
+  dateISO: string;
+  fromAccountId: string;
+  toAccountId: string;
+  amountCts: MoneyCts;
+  label?: string;
+}
+
+export type RecurrenceFrequency = 'weekly' | 'monthly' | 'yearly';
+
+// Report d'une échéance tombant un week-end
+export type BusinessDayAdjustment = 'none' | 'previous' | 'next';
+
+/**
+ * Règle de récurrence : toutes les `interval` semaines, mois ou années à partir
+ * de la date de début. Une échéance annuelle tombe le mois de la date de début.
+ */
+export interface Recurrence {
+  frequency: RecurrenceFrequency;
+  interval: number;
+  // Jour du mois (mensuel/annuel), ramené au dernier jour pour les mois courts
+  byMonthDay?: number;
+  // Jour de la semaine (hebdomadaire), 0 = dimanche
+  byWeekday?: number;
+  lastDayOfMonth?: boolean;
+  businessDayAdjustment: BusinessDayAdjustment;
+}
+
+// Nouveau montant applicable à partir d'une date (hausse de loyer, nouveau contrat...)
+export interface AmountRevision {
+  effectiveDate: string;
+  amountCts: MoneyCts;
+}
+
+/**
+ * Indexation annuelle (loyer sur l'IRL, augmentation de salaire...) : appliquée à
+ * `anniversaryDate` puis chaque année à la même date, sur le montant en vigueur.
+ */
+export type IndexationRule =
+  | { kind: 'percent'; ratePct: number; anniversaryDate: string }
+  | { kind: 'amount'; amountCts: MoneyCts; anniversaryDate: string };
+
+// Modification ponctuelle d'une échéance, repérée par sa date prévue
+export type OccurrenceException =
+  | { occurrenceDate: string; kind: 'skip' }
+  | { occurrenceDate: string; kind: 'move'; dateISO: string }
+  | { occurrenceDate: string; kind: 'override'; amountCts: MoneyCts };
+
+/**
+ * Échéance constatée sur le compte, à sa date et pour son montant réels. Elle peut
+ * être rapprochée d'une dépense (ou recette) saisie, qui n'est alors pas comptée deux fois.
+ */
+export interface OccurrenceConfirmation {
+  occurrenceDate: string;
+  dateISO: string;
+  amountCts: MoneyCts;
+  transactionId?: string;
 }
 
 export interface FixedExpense {
   id: string;
   label: string;
+  // Montant initial, en vigueur jusqu'à la première révision
   amountCts: MoneyCts;
-  dayOfMonth: number;
+  amountRevisions: AmountRevision[];
+  indexation?: IndexationRule;
+  recurrence: Recurrence;
+  occurrenceExceptions: OccurrenceException[];
+  occurrenceConfirmations: OccurrenceConfirmation[];
   startDate: string;
   endDate?: string;
+  accountId?: string;
 }
 
 export interface RecurringIncome {
   id: string;
   label: string;
+  // Montant initial, en vigueur jusqu'à la première révision
   amountCts: MoneyCts;
-  dayOfMonth: number;
+  amountRevisions: AmountRevision[];
+  indexation?: IndexationRule;
+  recurrence: Recurrence;
+  occurrenceExceptions: OccurrenceException[];
+  occurrenceConfirmations: OccurrenceConfirmation[];
   startDate: string;
   endDate?: string;
+  accountId?: string;
+}
+
+/**
+ * Prêt amortissable à mensualités constantes (immobilier, consommation). Ses
+ * échéances sont portées par une charge fixe générée à partir du tableau d'amortissement.
+ */
+export interface Loan {
+  id: string;
+  label: string;
+  principalCts: MoneyCts;
+  // Taux nominal annuel, en pourcentage
+  annualRatePct: number;
+  durationMonths: number;
+  // Assurance emprunteur, ajoutée à chaque mensualité
+  monthlyInsuranceCts: MoneyCts;
+  // Date de la première mensualité
+  startDate: string;
+  fixedExpenseId?: string;
 }
 
 export interface Expense {
@@ -37,6 +145,7 @@ export interface Expense {
   amountCts: MoneyCts;
   categoryId: string;
   notes?: string;
+  accountId?: string;
 }
 
 export interface Income {
@@ -45,6 +154,7 @@ export interface Income {
   label: string;
   amountCts: MoneyCts;
   notes?: string;
+  accountId?: string;
 }
 
 export interface ForecastInput {
@@ -57,6 +167,72 @@ export interface ForecastInput {
   }>;
 }
 
+export interface ForecastComponents {
+  // Réalisé du mois : recettes encaissées moins dépenses déjà faites
+  budgetBaseCts: MoneyCts;
+  realizedExpensesCts: MoneyCts;
+  realizedIncomesCts: MoneyCts;
+  // Échéances pas encore tombées (ou non confirmées)
+  fixedRemainingCts: MoneyCts;
+  recurringRemainingCts: MoneyCts;
+  extrasExpenseCts: MoneyCts;
+  extrasIncomeCts: MoneyCts;
+}
+
+// Prévisionnel d'un mois : solde estimé en fin de mois et composantes du calcul
+export interface ForecastResult {
+  projectedBalanceCts: MoneyCts;
+  components: ForecastComponents;
+}
+
+export interface PlannedExtra {
+  id: string;
+  label: string;
+  amountCts: MoneyCts;
+  dateISO?: string;
+  type: 'expense' | 'income';
+  // Versement d'épargne : objectif et mois concernés
+  goalId?: string;
+  monthISO?: string;
+}
+
+// Scénario de simulation nommé ("Vacances été") : éléments exceptionnels prévus pour un mois
+export interface ForecastScenario {
+  id: string;
+  monthISO: string;
+  name: string;
+  extras: PlannedExtra[];
+}
+
+// Montant alloué à l'enveloppe d'une catégorie pour un mois (budget base zéro)
+export interface EnvelopeAllocation {
+  id: string;
+  monthISO: string;
+  categoryId: string;
+  amountCts: MoneyCts;
+}
+
+// Virement d'une enveloppe vers une autre en cours de mois
+export interface EnvelopeMove {
+  id: string;
+  monthISO: string;
+  dateISO: string;
+  fromCategoryId: string;
+  toCategoryId: string;
+  amountCts: MoneyCts;
+  note?: string;
+}
+
+// Objectif d'épargne (fonds d'urgence, vacances, voiture...) à atteindre pour une date donnée
+export interface SavingsGoal {
+  id: string;
+  name: string;
+  targetCts: MoneyCts;
+  targetDateISO: string;
+  // Montant déjà mis de côté
+  currentCts: MoneyCts;
+}
+
 export interface MonthSummary {
   monthISO: string;
   fixedExpensesTotalCts: MoneyCts;
@@ -69,5 +245,9 @@ export interface MonthSummary {
 export interface AuthState {
   user: User | null;
   accessToken: string | null;
+  refreshToken: string | null;
+  idToken: string | null;
+  // Expiration du jeton d'accès (timestamp en ms)
+  expiresAt: number | null;
   isAuthenticated: boolean;
 }
\ No newline at end of file